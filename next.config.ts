@@ -1,7 +1,27 @@
 import type { NextConfig } from "next";
+import { securityHeaders, serviceWorkerHeaders } from "./src/lib/security/headers";
+
+// One id per build. Kept in the environment because build workers load this file
+// again, and they must agree with the main process. The service worker is
+// registered with it, so each deploy installs a new worker with fresh caches.
+process.env.RAJA_BUILD_ID ??= Date.now().toString(36);
+const buildId = process.env.RAJA_BUILD_ID;
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Pages named page.dev.tsx (the /dev/components catalogue) only exist under
+  // `next dev` and are left out of production builds.
+  pageExtensions:
+    process.env.NODE_ENV === "development" ? ["dev.tsx", "tsx", "ts", "jsx", "js"] : ["tsx", "ts", "jsx", "js"],
+  poweredByHeader: false,
+  generateBuildId: () => buildId,
+  env: { NEXT_PUBLIC_BUILD_ID: buildId },
+  // The Content-Security-Policy needs a nonce per request, so src/proxy.ts sets it.
+  async headers() {
+    return [
+      { source: "/:path*", headers: securityHeaders },
+      { source: "/sw.js", headers: serviceWorkerHeaders },
+    ];
+  },
 };
 
 export default nextConfig;
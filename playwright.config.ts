@@ -0,0 +1,28 @@
+import { defineConfig, devices } from '@playwright/test';
+
+const PORT = 3100;
+
+// Runs against a production build. Stores are kept in memory so runs leave
+// nothing behind in .data/, and tests/e2e/fixtures.ts blocks requests to
+// other hosts so the suite behaves the same offline. No test sends an SMS code;
+// PHONE_VERIFICATION_API_URL only has to be set for /join to be served.
+export default defineConfig({
+  testDir: 'tests/e2e',
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    trace: 'retain-on-failure',
+    // Requests a service worker answers bypass the routing in tests/e2e/fixtures.ts.
+    // tests/e2e/offline.spec.ts allows them again.
+    serviceWorkers: 'block',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: {
+    command: `pnpm build && pnpm start -p ${PORT}`,
+    url: `http://localhost:${PORT}/en`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 600_000,
+    env: { LEAD_STORE: 'memory', ANALYTICS_STORE: 'memory', APPLICATION_STORE: 'memory', HELP_FEEDBACK_STORE: 'memory', NEWSLETTER_STORE: 'memory', MAIL_TRANSPORT: 'memory', NEWSLETTER_SECRET: 'e2e-newsletter-secret', PHONE_VERIFICATION_API_URL: 'http://localhost:3199' },
+  },
+});
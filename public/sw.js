@@ -0,0 +1,234 @@
+// Service worker for field agents on patchy mobile data. Plain JavaScript
+// served as-is from public/, so it can't import from src/; the message type
+// must match src/lib/pwa/client.ts.
+//
+// - Install precaches the home page of the default locale, the offline page
+//   and the product screenshots, together with the scripts and styles those
+//   pages load.
+// - Pages come from the network when it answers and from the cache when it
+//   doesn't. Pages that were never saved fall back to the offline page.
+// - Build assets never change, so they are served from the cache first. Images
+//   and fonts are served from the cache and refreshed in the background.
+// - Lead and newsletter submissions that fail for lack of a connection are
+//   queued in IndexedDB and sent by Background Sync, or when a page reports
+//   that the browser is back online.
+// - Caches are named after the build, which src/lib/pwa/client.ts passes as
+//   ?v=. A new deploy installs a new worker, whose activation deletes the
+//   previous build's caches. Saved pages and assets are also capped in number.
+
+const VERSION = new URL(self.location.href).searchParams.get('v') ?? 'dev';
+const SHELL_CACHE = `raja-shell-${VERSION}`;
+const PAGE_CACHE = `raja-pages-${VERSION}`;
+const ASSET_CACHE = `raja-assets-${VERSION}`;
+const CACHES = [SHELL_CACHE, PAGE_CACHE, ASSET_CACHE];
+// Entries kept per cache; the oldest are deleted past these.
+const CACHE_LIMITS = { [PAGE_CACHE]: 50, [ASSET_CACHE]: 200 };
+
+const DEFAULT_LOCALE = 'en';
+const SHELL_PAGES = [`/${DEFAULT_LOCALE}`, `/${DEFAULT_LOCALE}/offline`];
+const SHELL_FILES = ['/manifest.webmanifest', '/raja-logo.png', '/admin-dash.png', '/agent-dash.png', '/shops.png'];
+
+// Registrations (/api/join) are left out: they carry a phone verification
+// token that expires after 30 minutes, so a replayed one would be refused after
+// the visitor was told it was saved. The join form says it needs a connection.
+const QUEUED_ENDPOINTS = ['/api/leads', '/api/newsletter'];
+const SYNC_TAG = 'raja-form-queue';
+const REPLAY_QUEUE_MESSAGE = 'replay-queue';
+const QUEUE_DB = 'raja-offline';
+const QUEUE_STORE = 'submissions';
+
+// Build assets referenced by a page's HTML: its scripts, styles and fonts.
+const assetsIn = (html) => [...new Set(html.match(/\/_next\/static\/[^"'\s\\)]+/g) ?? [])];
+
+// Deletes the oldest entries of a cache beyond its limit. Cache keys come back
+// in the order they were added.
+const trimCache = async (name) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - CACHE_LIMITS[name])).map((key) => cache.delete(key)));
+};
+
+// Saves a shell page with its assets in the shell cache, which is not capped,
+// so they are never trimmed while the build is live.
+const cachePage = async (cache, path) => {
+  const response = await fetch(path, { credentials: 'same-origin' });
+  if (!response.ok) return;
+
+  await cache.put(path, response.clone());
+  await Promise.all(assetsIn(await response.text()).map((asset) => cache.add(asset).catch(() => undefined)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(SHELL_FILES);
+      await Promise.all(SHELL_PAGES.map((path) => cachePage(shell, path)));
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith('raja-') && !CACHES.includes(name)) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// Saves the offline page of a locale the first time one of its pages is opened,
+// so visitors don't get the default locale's copy.
+const cacheOfflinePage = async (locale) => {
+  const path = `/${locale}/offline`;
+  const shell = await caches.open(SHELL_CACHE);
+  if (!(await shell.match(path))) await cachePage(shell, path).catch(() => undefined);
+};
+
+const navigate = async (event) => {
+  const { request } = event;
+  const locale = new URL(request.url).pathname.split('/')[1];
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const pages = await caches.open(PAGE_CACHE);
+      event.waitUntil(pages.put(request, response.clone()).then(() => trimCache(PAGE_CACHE)));
+      if (/^[a-z]{2,3}$/.test(locale)) event.waitUntil(cacheOfflinePage(locale));
+    }
+    return response;
+  } catch {
+    return (
+      (await caches.match(request)) ??
+      (await caches.match(`/${locale}/offline`)) ??
+      (await caches.match(`/${DEFAULT_LOCALE}/offline`)) ??
+      Response.error()
+    );
+  }
+};
+
+const cacheFirst = async (event) => {
+  const { request } = event;
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const assets = await caches.open(ASSET_CACHE);
+    await assets.put(request, response.clone());
+    event.waitUntil(trimCache(ASSET_CACHE));
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+  const { request } = event;
+  const assets = await caches.open(ASSET_CACHE);
+  const cached = await caches.match(request);
+  const refreshed = fetch(request).then((response) => {
+    if (response.ok) return assets.put(request, response.clone()).then(() => trimCache(ASSET_CACHE)).then(() => response);
+    return response;
+  });
+
+  if (!cached) return refreshed;
+  event.waitUntil(refreshed.catch(() => undefined));
+  return cached;
+};
+
+// IndexedDB queue of submissions waiting for a connection.
+
+const openQueue = () =>
+  new Promise((resolve, reject) => {
+    const open = indexedDB.open(QUEUE_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+const inQueue = async (mode, action) => {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const enqueue = (entry) => inQueue('readwrite', (store) => store.add(entry));
+const queuedEntries = () => inQueue('readonly', (store) => store.getAll());
+const dequeue = (id) => inQueue('readwrite', (store) => store.delete(id));
+
+const sendOrQueue = async (request) => {
+  const body = await request.clone().text();
+
+  try {
+    return await fetch(request);
+  } catch {
+    await enqueue({
+      url: request.url,
+      contentType: request.headers.get('Content-Type') ?? 'application/json',
+      body,
+      queuedAt: Date.now(),
+    });
+    await self.registration.sync?.register(SYNC_TAG).catch(() => undefined);
+    // The forms show a "saved until you're back online" message for this.
+    return new Response(JSON.stringify({ ok: true, queued: true }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+let replaying;
+
+// Sends queued submissions in order. Rejects while still offline, so Background
+// Sync tries again later. The forms validate with the server's own rules before
+// posting, so only a valid submission is ever queued; one the server still
+// refuses could never pass and is dropped. Rate limiting and server failures
+// may pass on a later attempt, so those stay queued.
+const replayQueue = () => {
+  replaying ??= (async () => {
+    for (const entry of await queuedEntries()) {
+      const response = await fetch(entry.url, {
+        method: 'POST',
+        headers: { 'Content-Type': entry.contentType },
+        body: entry.body,
+        credentials: 'same-origin',
+      });
+      if (response.status === 429 || response.status >= 500) throw new Error(`Replay failed with ${response.status}`);
+      await dequeue(entry.id);
+    }
+  })().finally(() => {
+    replaying = undefined;
+  });
+  return replaying;
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(replayQueue());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === REPLAY_QUEUE_MESSAGE) event.waitUntil(replayQueue().catch(() => undefined));
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && QUEUED_ENDPOINTS.includes(url.pathname)) {
+    event.respondWith(sendOrQueue(request));
+  } else if (request.method !== 'GET' || url.pathname.startsWith('/api/')) {
+    return;
+  } else if (request.mode === 'navigate') {
+    event.respondWith(navigate(event));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(event));
+  } else if (['image', 'font', 'manifest'].includes(request.destination)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
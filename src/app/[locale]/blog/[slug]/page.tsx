@@ -0,0 +1,44 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import JsonLd from '@/components/JsonLd';
+import PostArticle from '@/components/PostArticle';
+import { getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { getPost } from '@/lib/posts';
+import { postMetadata, postStaticParams, segmentTitles } from '@/lib/posts/pages';
+import { articleJsonLd } from '@/lib/seo';
+
+type PostParams = Promise<{ locale: string; slug: string }>;
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return postStaticParams('blog');
+}
+
+export async function generateMetadata({ params }: { params: PostParams }): Promise<Metadata> {
+  const { locale, slug } = await params;
+  if (!isLocale(locale)) return {};
+
+  return postMetadata('blog', locale, slug);
+}
+
+export default async function BlogPostPage({ params }: { params: PostParams }) {
+  const { locale, slug } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const post = await getPost('blog', slug);
+  if (!post) notFound();
+
+  return (
+    <>
+      <JsonLd data={articleJsonLd(post, locale)} />
+      <PostArticle
+        locale={locale}
+        site={getLandingContent(locale).site}
+        post={post}
+        segmentTitle={post.segment ? segmentTitles(locale)[post.segment] : undefined}
+      />
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import JobPostingArticle from '@/components/JobPostingArticle';
+import JsonLd from '@/components/JsonLd';
+import { getCareersContent, getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { buildPageMetadata, jobPostingJsonLd } from '@/lib/seo';
+
+type JobParams = Promise<{ locale: string; slug: string }>;
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCareersContent().jobs.map((job) => ({ slug: job.slug }));
+}
+
+export async function generateMetadata({ params }: { params: JobParams }): Promise<Metadata> {
+  const { locale, slug } = await params;
+  if (!isLocale(locale)) return {};
+
+  const job = getCareersContent(locale).jobs.find((entry) => entry.slug === slug);
+  if (!job) return {};
+
+  return buildPageMetadata({
+    locale,
+    path: `/careers/${job.slug}`,
+    title: `${job.title}, ${job.location} — careers at RAJA`,
+    description: job.summary,
+  });
+}
+
+export default async function JobPostingPage({ params }: { params: JobParams }) {
+  const { locale, slug } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const job = getCareersContent(locale).jobs.find((entry) => entry.slug === slug);
+  if (!job) notFound();
+
+  return (
+    <>
+      <JsonLd data={jobPostingJsonLd(job, locale)} />
+      <JobPostingArticle locale={locale} site={getLandingContent(locale).site} job={job} />
+    </>
+  );
+}
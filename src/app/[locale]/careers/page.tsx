@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import CareersLanding from '@/components/CareersLanding';
+import { getCareersContent, getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { buildPageMetadata } from '@/lib/seo';
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { meta } = getCareersContent(locale);
+  return buildPageMetadata({ locale, path: '/careers', title: meta.title, description: meta.description });
+}
+
+export default async function CareersPage({ params }: { params: LocaleParams }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return <CareersLanding locale={locale} site={getLandingContent(locale).site} content={getCareersContent(locale)} />;
+}
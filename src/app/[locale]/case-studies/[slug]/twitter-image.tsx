@@ -0,0 +1,13 @@
+import { ogImageSize, renderOgImage } from '@/lib/og-image';
+import { getPost } from '@/lib/posts';
+
+export const alt = 'RAJA — location-based distribution intelligence for FMCG';
+export const size = ogImageSize;
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: Promise<{ locale: string; slug: string }> }) {
+  const { slug } = await params;
+  const post = await getPost('case-studies', slug);
+
+  return renderOgImage({ eyebrow: 'Case studies', title: post?.title ?? 'Case studies' });
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import PostIndexLanding from '@/components/PostIndexLanding';
+import { getLandingContent, getPostsContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { getPostSummaries } from '@/lib/posts';
+import { postIndexMetadata, segmentTitles } from '@/lib/posts/pages';
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  return postIndexMetadata('case-studies', locale);
+}
+
+export default async function CaseStudiesIndexPage({ params }: { params: LocaleParams }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <PostIndexLanding
+      locale={locale}
+      site={getLandingContent(locale).site}
+      copy={getPostsContent(locale)['case-studies']}
+      collection="case-studies"
+      posts={await getPostSummaries('case-studies')}
+      segments={segmentTitles(locale)}
+    />
+  );
+}
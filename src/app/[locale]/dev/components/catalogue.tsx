@@ -0,0 +1,241 @@
+'use client';
+
+import React from 'react';
+import { MotionConfig } from 'framer-motion';
+import { ArrowRight } from 'lucide-react';
+import ThemeToggle from '@/components/ThemeToggle';
+import { Button, Counter, FAQItem, FeatureCard, FilterChip, Reveal, SectionHeader, StatPill } from '@/components/ui';
+import { contentIcons } from '@/lib/content/icons';
+
+interface CatalogueVariant {
+  label: string;
+  render: () => React.ReactNode;
+  // Dark surface for components that sit on the brand gradient.
+  onBrand?: boolean;
+}
+
+export interface CatalogueEntry {
+  // Export name in '@/components/ui'.
+  name: string;
+  description: string;
+  // Block components fill the preview; inline ones are centred in it.
+  block?: boolean;
+  variants: CatalogueVariant[];
+}
+
+// One entry per export of '@/components/ui'; tests/unit/catalogue.test.tsx
+// fails when a component is added to the library without one.
+export const catalogue: CatalogueEntry[] = [
+  {
+    name: 'Button',
+    description: 'Call to action. Renders a link when given an href, otherwise a non-submitting button.',
+    variants: [
+      { label: 'Primary', render: () => <Button>Request a walkthrough</Button> },
+      { label: 'Secondary', render: () => <Button variant="secondary">See how it works</Button> },
+      { label: 'Accent', render: () => <Button variant="accent">Login</Button> },
+      {
+        label: 'Link with icon',
+        render: () => (
+          <Button href="#button">
+            Read the case study <ArrowRight className="w-5 h-5" aria-hidden="true" />
+          </Button>
+        ),
+      },
+      {
+        label: 'External link',
+        render: () => (
+          <Button href="https://app.raja.ng/login" external variant="secondary">
+            Opens in a new tab
+          </Button>
+        ),
+      },
+    ],
+  },
+  {
+    name: 'Counter',
+    description: 'Counts up to a figure once scrolled into view.',
+    variants: [
+      { label: 'Default', render: () => <Counter end={12480} locale="en" /> },
+      { label: 'With suffix', render: () => <Counter end={32} locale="en" suffix="%" /> },
+      {
+        label: 'Custom format',
+        render: () => <Counter end={2_400_000} locale="en" format={(value) => `₦${(value / 1_000_000).toFixed(1)}M`} />,
+      },
+      {
+        label: 'Reduced motion',
+        render: () => (
+          <MotionConfig reducedMotion="always">
+            <Counter end={12480} locale="en" />
+          </MotionConfig>
+        ),
+      },
+    ],
+  },
+  {
+    name: 'FAQItem',
+    block: true,
+    description: 'One panel of the FAQ accordion. Expands when the URL hash matches its id, and can mark search terms.',
+    variants: [
+      {
+        label: 'Closed',
+        render: () => (
+          <FAQItem question="Do my sales reps need new devices?" answer="No. The field app runs on the Android phones they already carry." />
+        ),
+      },
+      {
+        label: 'Open',
+        render: () => (
+          <FAQItem
+            question="Will my principal see my retailer list?"
+            answer="Only if you choose to share it. Dealer data stays in your workspace unless you grant access."
+            defaultOpen
+          />
+        ),
+      },
+      {
+        label: 'Search match',
+        render: () => (
+          <FAQItem
+            question="Can I limit someone to certain territories?"
+            answer="Yes. Choose the territories a colleague covers when you invite them."
+            highlight={['territories']}
+            defaultOpen
+          />
+        ),
+      },
+    ],
+  },
+  {
+    name: 'FeatureCard',
+    block: true,
+    description: 'Icon, title and description card used in the feature grids.',
+    variants: [
+      {
+        label: 'Default',
+        render: () => (
+          <FeatureCard
+            icon={contentIcons.MapPin}
+            title="Retailer profiles"
+            description="Every shop geo-tagged, verified and given a standard ID."
+          />
+        ),
+      },
+      {
+        label: 'Long copy',
+        render: () => (
+          <FeatureCard
+            icon={contentIcons.TrendingUp}
+            title="Demand forecasting for every zone you serve"
+            description="Estimates each zone's potential from comparable territories with similar retailer density and buying patterns, and shows a likely range rather than a single number."
+          />
+        ),
+      },
+    ],
+  },
+  {
+    name: 'FilterChip',
+    description: 'Toggle for list filters on the blog, case study and careers pages.',
+    variants: [
+      { label: 'Inactive', render: () => <FilterChip active={false} onClick={() => {}}>Lagos</FilterChip> },
+      { label: 'Active', render: () => <FilterChip active onClick={() => {}}>All locations</FilterChip> },
+    ],
+  },
+  {
+    name: 'Reveal',
+    block: true,
+    description: 'Fades its children in when scrolled into view. Lets server-rendered sections animate without becoming client components.',
+    variants: [
+      {
+        label: 'From below',
+        render: () => (
+          <Reveal className="bg-surface rounded-xl p-6 shadow-md text-fg">Retailer profiles are verified in the field.</Reveal>
+        ),
+      },
+      {
+        label: 'From the left',
+        render: () => (
+          <Reveal from="left" distance={20} className="bg-surface rounded-xl p-6 shadow-md text-fg">
+            Forecasts update every week.
+          </Reveal>
+        ),
+      },
+      {
+        label: 'On mount, growing on hover',
+        render: () => (
+          <Reveal onMount hover="grow" className="bg-surface rounded-xl p-6 shadow-md text-fg">
+            Hover to see the card grow.
+          </Reveal>
+        ),
+      },
+    ],
+  },
+  {
+    name: 'SectionHeader',
+    block: true,
+    description: 'Centred section title with an optional subtitle.',
+    variants: [
+      { label: 'Title only', render: () => <SectionHeader title="How RAJA works" /> },
+      {
+        label: 'With subtitle',
+        render: () => <SectionHeader title="Who it's for" subtitle="Built for everyone who moves goods to the last mile." />,
+      },
+    ],
+  },
+  {
+    name: 'StatPill',
+    description: 'Headline figure with a label.',
+    variants: [
+      { label: 'Text value', render: () => <StatPill label="States covered" value="12" />, onBrand: true },
+      {
+        label: 'Counter value',
+        render: () => <StatPill label="Retailers mapped" value={<Counter end={12480} locale="en" suffix="+" />} />,
+        onBrand: true,
+      },
+    ],
+  },
+];
+
+const ComponentCatalogue: React.FC = () => (
+  <main id="main-content" tabIndex={-1} className="min-h-screen bg-surface-muted px-6 py-12 outline-none">
+    <div className="max-w-screen-xl mx-auto">
+      <div className="flex items-center justify-between gap-4 mb-12">
+        <div>
+          <h1 className="text-4xl font-bold text-fg mb-2">Component catalogue</h1>
+          <p className="text-fg-muted">Every component in @/components/ui, in each of its variants. Development builds only.</p>
+        </div>
+        <ThemeToggle label="Dark theme" />
+      </div>
+
+      <nav aria-label="Components" className="flex flex-wrap gap-3 mb-12">
+        {catalogue.map((entry) => (
+          <a key={entry.name} href={`#${entry.name}`} className="px-4 py-2 rounded-full border border-line-strong text-fg-soft hover:text-brand-fg hover:border-brand-fg">
+            {entry.name}
+          </a>
+        ))}
+      </nav>
+
+      <div className="space-y-16">
+        {catalogue.map((entry) => (
+          <section key={entry.name} id={entry.name} aria-labelledby={`${entry.name}-title`}>
+            <h2 id={`${entry.name}-title`} className="text-2xl font-bold text-fg mb-1">{entry.name}</h2>
+            <p className="text-fg-muted mb-6">{entry.description}</p>
+            <div className="grid md:grid-cols-2 gap-6">
+              {entry.variants.map((variant) => (
+                <figure key={variant.label} className="rounded-2xl border border-line bg-surface overflow-hidden">
+                  <div
+                    className={`p-8 flex items-center justify-center min-h-40 ${variant.onBrand ? 'bg-gradient-to-br from-brand to-brand-deep' : ''}`}
+                  >
+                    <div className={entry.block ? 'w-full' : 'flex justify-center'}>{variant.render()}</div>
+                  </div>
+                  <figcaption className="px-6 py-3 border-t border-line text-sm font-semibold text-fg-soft">{variant.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  </main>
+);
+
+export default ComponentCatalogue;
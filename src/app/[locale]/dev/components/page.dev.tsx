@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+import ComponentCatalogue from './catalogue';
+
+// Development-only: the .dev.tsx extension keeps this page out of production
+// builds (see pageExtensions in next.config.ts).
+export const metadata: Metadata = {
+  title: 'RAJA components',
+  robots: { index: false, follow: false },
+};
+
+export default function ComponentsPage() {
+  return <ComponentCatalogue />;
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import HelpLanding from '@/components/HelpLanding';
+import JsonLd from '@/components/JsonLd';
+import { getHelpContent, getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { buildPageMetadata, faqPageJsonLd } from '@/lib/seo';
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { meta } = getHelpContent(locale);
+  return buildPageMetadata({ locale, path: '/help', title: meta.title, description: meta.description });
+}
+
+export default async function HelpPage({ params }: { params: LocaleParams }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const content = getHelpContent(locale);
+  const articles = content.categories.flatMap((category) => category.articles);
+
+  return (
+    <>
+      <JsonLd data={faqPageJsonLd(articles, locale)} />
+      <HelpLanding locale={locale} site={getLandingContent(locale).site} content={content} />
+    </>
+  );
+}
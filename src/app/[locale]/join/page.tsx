@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import JoinLanding from '@/components/JoinLanding';
+import { getJoinContent, getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { isPhoneVerificationAvailable } from '@/lib/onboarding';
+import { buildPageMetadata } from '@/lib/seo';
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { meta } = getJoinContent(locale);
+  return buildPageMetadata({ locale, path: '/join', title: meta.title, description: meta.description });
+}
+
+export default async function JoinPage({ params }: { params: LocaleParams }) {
+  const { locale } = await params;
+  // Without a way to verify numbers no registration could be completed.
+  if (!isLocale(locale) || !isPhoneVerificationAvailable()) notFound();
+
+  return <JoinLanding locale={locale} site={getLandingContent(locale).site} content={getJoinContent(locale)} />;
+}
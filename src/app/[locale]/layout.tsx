@@ -0,0 +1,83 @@
+import type { Metadata, Viewport } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import "../globals.css";
+import Analytics from "@/components/Analytics";
+import InstallPrompt from "@/components/InstallPrompt";
+import MotionProvider from "@/components/MotionProvider";
+import OfflineSupport from "@/components/OfflineSupport";
+import WhatsAppWidget from "@/components/WhatsAppWidget";
+import { getLandingContent } from "@/lib/content";
+import { isLocale, locales, localeTags } from "@/lib/i18n";
+import { THEME_COLOR } from "@/lib/pwa";
+import { NONCE_HEADER } from "@/lib/security";
+import { buildPageMetadata } from "@/lib/seo";
+import { themeScript } from "@/lib/theme";
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export const dynamicParams = false;
+
+export const viewport: Viewport = {
+  themeColor: THEME_COLOR,
+};
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { meta } = getLandingContent(locale).site;
+  return buildPageMetadata({ locale, title: meta.title, description: meta.description });
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: LocaleParams;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const { site, useCases } = getLandingContent(locale);
+  const { nav, chat, consent, install } = site;
+  const segments = Object.fromEntries(useCases.map((useCase) => [useCase.slug, useCase.title]));
+  // Set by src/proxy.ts. Reading it renders pages per request, which a nonce needs.
+  const nonce = (await headers()).get(NONCE_HEADER) ?? undefined;
+
+  // The head script sets data-theme before hydration, so React is told not to
+  // warn that <html> differs from the server render.
+  return (
+    <html lang={localeTags[locale]} suppressHydrationWarning>
+      <head>
+        <script nonce={nonce} suppressHydrationWarning dangerouslySetInnerHTML={{ __html: themeScript }} />
+        {/* Without JavaScript nothing would fade Reveal sections in. */}
+        <noscript>
+          <style nonce={nonce}>{"[data-reveal]{opacity:1!important;transform:none!important}"}</style>
+        </noscript>
+      </head>
+      <body
+        className={`antialiased`}
+      >
+        <a
+          href="#main-content"
+          className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[100] focus:bg-surface focus:text-brand-fg focus:px-6 focus:py-3 focus:rounded-full focus:font-semibold focus:shadow-xl"
+        >
+          {nav.skipLinkLabel}
+        </a>
+        <MotionProvider nonce={nonce}>
+          {children}
+          <WhatsAppWidget locale={locale} copy={chat} sections={nav.sections} segments={segments} />
+          <Analytics copy={consent} />
+          <InstallPrompt copy={install} />
+          <OfflineSupport />
+        </MotionProvider>
+      </body>
+    </html>
+  );
+}
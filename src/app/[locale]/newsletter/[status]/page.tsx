@@ -0,0 +1,55 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import NewsletterStatus from '@/components/NewsletterStatus';
+import { getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { newsletterActions, newsletterPages, type NewsletterAction, type NewsletterPage } from '@/lib/newsletter/types';
+import { buildPageMetadata } from '@/lib/seo';
+
+type StatusParams = Promise<{ locale: string; status: string }>;
+
+const isNewsletterPage = (value: string): value is NewsletterPage => newsletterPages.includes(value as NewsletterPage);
+
+const isNewsletterAction = (value: string): value is NewsletterAction => newsletterActions.includes(value as NewsletterAction);
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return [...newsletterPages, ...newsletterActions].map((status) => ({ status }));
+}
+
+export async function generateMetadata({ params }: { params: StatusParams }): Promise<Metadata> {
+  const { locale, status } = await params;
+  if (!isLocale(locale) || !(isNewsletterPage(status) || isNewsletterAction(status))) return {};
+
+  const { newsletter } = getLandingContent(locale).site;
+  const { title, description } = isNewsletterAction(status) ? newsletter.actions[status] : newsletter.pages[status];
+  return {
+    ...buildPageMetadata({ locale, path: `/newsletter/${status}`, title: `${title} — RAJA`, description }),
+    // Only reached from emailed links.
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function NewsletterStatusPage({
+  params,
+  searchParams,
+}: {
+  params: StatusParams;
+  searchParams: Promise<{ token?: string | string[] }>;
+}) {
+  const { locale, status } = await params;
+  if (!isLocale(locale)) notFound();
+  const site = getLandingContent(locale).site;
+
+  if (isNewsletterAction(status)) {
+    // The API route checked the token before sending the visitor here; the
+    // button's POST checks it again.
+    const { token } = await searchParams;
+    if (typeof token !== 'string') return <NewsletterStatus locale={locale} site={site} page="invalid" />;
+    return <NewsletterStatus locale={locale} site={site} page={status} token={token} />;
+  }
+  if (!isNewsletterPage(status)) notFound();
+
+  return <NewsletterStatus locale={locale} site={site} page={status} />;
+}
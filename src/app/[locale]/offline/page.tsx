@@ -0,0 +1,27 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import OfflineLanding from '@/components/OfflineLanding';
+import { getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { buildPageMetadata } from '@/lib/seo';
+
+type OfflineParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: OfflineParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { title, description } = getLandingContent(locale).site.offline;
+  return {
+    ...buildPageMetadata({ locale, path: '/offline', title: `${title} — RAJA`, description }),
+    // Saved by the service worker; not a page to land on from search.
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function OfflinePage({ params }: { params: OfflineParams }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return <OfflineLanding locale={locale} site={getLandingContent(locale).site} />;
+}
@@ -0,0 +1,28 @@
+import { notFound } from 'next/navigation';
+import JsonLd from '@/components/JsonLd';
+import RajaLanding from '@/components/RajaLanding';
+import { getLandingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { faqPageJsonLd, organizationJsonLd, softwareApplicationJsonLd } from '@/lib/seo';
+import { getPlatformStats } from '@/lib/stats';
+
+export default async function Home({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const content = getLandingContent(locale);
+  const stats = await getPlatformStats();
+
+  return (
+    <>
+      <JsonLd
+        data={[
+          organizationJsonLd(content),
+          softwareApplicationJsonLd(content, locale),
+          faqPageJsonLd(content.faqItems, locale),
+        ]}
+      />
+      <RajaLanding content={content} locale={locale} stats={stats} />
+    </>
+  );
+}
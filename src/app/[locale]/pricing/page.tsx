@@ -0,0 +1,36 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import PricingLanding from '@/components/PricingLanding';
+import { getLandingContent, getPricingContent } from '@/lib/content';
+import { isLocale } from '@/lib/i18n';
+import { buildFeatureMatrix } from '@/lib/pricing';
+import { buildPageMetadata } from '@/lib/seo';
+import { getPlatformStats } from '@/lib/stats';
+
+type LocaleParams = Promise<{ locale: string }>;
+
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { meta } = getPricingContent(locale);
+  return buildPageMetadata({ locale, path: '/pricing', title: meta.title, description: meta.description });
+}
+
+export default async function PricingPage({ params }: { params: LocaleParams }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const { site, features } = getLandingContent(locale);
+  const stats = await getPlatformStats();
+
+  return (
+    <PricingLanding
+      locale={locale}
+      site={site}
+      content={getPricingContent(locale)}
+      matrix={buildFeatureMatrix(features)}
+      efficiencyGain={stats.figures.efficiencyGain}
+    />
+  );
+}
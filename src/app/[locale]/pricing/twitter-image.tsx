@@ -0,0 +1,14 @@
+import { getPricingContent } from '@/lib/content';
+import { defaultLocale, isLocale } from '@/lib/i18n';
+import { ogImageSize, renderOgImage } from '@/lib/og-image';
+
+export const alt = 'RAJA pricing';
+export const size = ogImageSize;
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  const { hero } = getPricingContent(isLocale(locale) ? locale : defaultLocale);
+
+  return renderOgImage({ eyebrow: hero.badge, title: hero.title });
+}
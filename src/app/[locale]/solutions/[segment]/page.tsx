@@ -0,0 +1,61 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import JsonLd from '@/components/JsonLd';
+import SolutionLanding from '@/components/SolutionLanding';
+import { getLandingContent, getSolutionsContent } from '@/lib/content';
+import { useCases } from '@/lib/content/use-cases';
+import { isLocale, type Locale } from '@/lib/i18n';
+import { buildPageMetadata, faqPageJsonLd } from '@/lib/seo';
+
+type SolutionParams = Promise<{ locale: string; segment: string }>;
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getSolutionsContent().segments.map((segment) => ({ segment: segment.slug }));
+}
+
+const findSegment = (locale: Locale, slug: string) =>
+  getSolutionsContent(locale).segments.find((segment) => segment.slug === slug);
+
+export async function generateMetadata({ params }: { params: SolutionParams }): Promise<Metadata> {
+  const { locale, segment: slug } = await params;
+  if (!isLocale(locale)) return {};
+
+  const segment = findSegment(locale, slug);
+  if (!segment) return {};
+
+  return buildPageMetadata({
+    locale,
+    path: `/solutions/${segment.slug}`,
+    title: segment.meta.title,
+    description: segment.meta.description,
+  });
+}
+
+export default async function SolutionPage({ params }: { params: SolutionParams }) {
+  const { locale, segment: slug } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const segment = findSegment(locale, slug);
+  if (!segment) notFound();
+
+  const { site, features } = getLandingContent(locale);
+  const { labels } = getSolutionsContent(locale);
+  const highlighted = segment.features.flatMap((id) => features.filter((feature) => feature.id === id));
+  const leadRole = useCases.find((useCase) => useCase.slug === segment.slug)?.title;
+
+  return (
+    <>
+      <JsonLd data={faqPageJsonLd(segment.faq, locale)} />
+      <SolutionLanding
+        locale={locale}
+        site={site}
+        labels={labels}
+        segment={segment}
+        features={highlighted}
+        leadRole={leadRole ?? ''}
+      />
+    </>
+  );
+}
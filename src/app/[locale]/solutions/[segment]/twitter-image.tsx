@@ -0,0 +1,15 @@
+import { getSolutionsContent } from '@/lib/content';
+import { defaultLocale, isLocale } from '@/lib/i18n';
+import { ogImageSize, renderOgImage } from '@/lib/og-image';
+
+export const alt = 'RAJA — location-based distribution intelligence for FMCG';
+export const size = ogImageSize;
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: Promise<{ locale: string; segment: string }> }) {
+  const { locale, segment: slug } = await params;
+  const { segments } = getSolutionsContent(isLocale(locale) ? locale : defaultLocale);
+  const segment = segments.find((entry) => entry.slug === slug) ?? segments[0];
+
+  return renderOgImage({ eyebrow: segment.hero.badge, title: segment.hero.title });
+}
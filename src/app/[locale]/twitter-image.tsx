@@ -0,0 +1,14 @@
+import { getLandingContent } from '@/lib/content';
+import { defaultLocale, isLocale } from '@/lib/i18n';
+import { ogImageSize, renderOgImage } from '@/lib/og-image';
+
+export const alt = 'RAJA — location-based distribution intelligence for FMCG';
+export const size = ogImageSize;
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  const { hero } = getLandingContent(isLocale(locale) ? locale : defaultLocale).site;
+
+  return renderOgImage({ eyebrow: hero.badge, title: hero.title });
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { CV_MAX_BYTES, checkCvFile, getApplicationStore, validateApplication, validateCv, type CvFile } from '@/lib/careers';
+import { getCareersContent } from '@/lib/content';
+import { isHoneypotTripped } from '@/lib/leads';
+import { getClientIp } from '@/lib/rate-limit';
+import type { ValidationResult } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+// Room for the text fields and multipart boundaries on top of the CV itself.
+const MAX_BODY_BYTES = CV_MAX_BYTES + 64 * 1024;
+
+const tooLarge = () =>
+  NextResponse.json({ error: 'Your upload is too large.', fields: { cv: 'Your CV is too large.' } }, { status: 413 });
+
+// Reads the body, giving up as soon as it passes `maxBytes`. The content-length
+// header can't be relied on: chunked uploads don't send one.
+const readBodyWithin = async (request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(chunk.value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+export async function POST(request: Request) {
+  const ip = getClientIp(request);
+  // Refuse uploads that announce their size up front without reading them.
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) return tooLarge();
+
+  const body = await readBodyWithin(request, MAX_BODY_BYTES);
+  if (!body) return tooLarge();
+
+  let form: FormData;
+  try {
+    form = await new Response(body, { headers: { 'Content-Type': request.headers.get('content-type') ?? '' } }).formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart form submission.' }, { status: 400 });
+  }
+
+  const fields = Object.fromEntries([...form.entries()].filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+
+  // Pretend the submission succeeded so bots get no signal to adapt to.
+  if (isHoneypotTripped(fields)) {
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+
+  const result = validateApplication(fields, getCareersContent().jobs.map((job) => job.slug));
+  // Entries that aren't strings are files.
+  const entry = form.get('cv');
+  const cv = entry && typeof entry !== 'string' ? entry : null;
+  // The name and size are checked before the contents are read.
+  const cvError = cv ? checkCvFile(cv) : 'Please attach your CV.';
+  const cvBytes = cv && !cvError ? new Uint8Array(await cv.arrayBuffer()) : new Uint8Array();
+  const cvResult: ValidationResult<CvFile> = cv && !cvError ? validateCv(cv, cvBytes) : { ok: false, errors: { cv: cvError! } };
+
+  if (!result.ok || !cvResult.ok) {
+    return NextResponse.json(
+      {
+        error: 'Please correct the highlighted fields.',
+        fields: { ...(result.ok ? {} : result.errors), ...(cvResult.ok ? {} : cvResult.errors) },
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await getApplicationStore().save(
+      { ...result.data, id: randomUUID(), createdAt: new Date().toISOString(), ip, cv: cvResult.data },
+      cvBytes,
+    );
+  } catch (error) {
+    console.error('Failed to store application', error);
+    return NextResponse.json({ error: 'We could not save your application. Please try again.' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { CONSENT_COOKIE, getEventStore, parseConsent, validateEventBatch } from '@/lib/analytics';
+
+export const runtime = 'nodejs';
+
+const hasConsent = (request: Request): boolean => {
+  const cookie = request.headers
+    .get('cookie')
+    ?.split(';')
+    .map((entry) => entry.trim())
+    .find((entry) => entry.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(cookie?.slice(CONSENT_COOKIE.length + 1)) === 'granted';
+};
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const result = validateEventBatch(payload);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid events.', fields: result.errors }, { status: 400 });
+  }
+
+  // The client never sends events without consent, but a stale tab might after
+  // the visitor withdraws it; accept the request and drop the batch.
+  if (!hasConsent(request)) {
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const receivedAt = new Date().toISOString();
+  try {
+    await getEventStore().append(result.data.map((event) => ({ ...event, receivedAt })));
+  } catch (error) {
+    console.error('Failed to store analytics events', error);
+    return NextResponse.json({ error: 'Could not store events.' }, { status: 500 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
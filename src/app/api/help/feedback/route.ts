@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getHelpContent } from '@/lib/content';
+import { getFeedbackStore, validateFeedback } from '@/lib/help';
+
+export const runtime = 'nodejs';
+
+// Records a "was this helpful?" vote on a help centre question.
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const slugs = getHelpContent().categories.flatMap((category) => category.articles.map((article) => article.slug));
+  const result = validateFeedback(payload, slugs);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid feedback.', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    await getFeedbackStore().save({ ...result.data, id: randomUUID(), createdAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Failed to store help feedback', error);
+    return NextResponse.json({ error: 'We could not save your feedback. Please try again.' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
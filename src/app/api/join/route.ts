@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { isHoneypotTripped } from '@/lib/leads';
+import { getRegistrationForwarder, readVerificationToken, validateRegistration, type RegistrationForwarder } from '@/lib/onboarding';
+import { isRecord } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  // Pretend the submission succeeded so bots get no signal to adapt to.
+  if (isHoneypotTripped(payload)) {
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+
+  const result = validateRegistration(payload);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Please correct the highlighted fields.', fields: result.errors }, { status: 400 });
+  }
+
+  let forwarder: RegistrationForwarder;
+  let phoneVerifiedAt: string | null;
+  try {
+    forwarder = getRegistrationForwarder();
+    phoneVerifiedAt = readVerificationToken(isRecord(payload) ? payload.verificationToken : undefined, result.data.phone);
+  } catch (error) {
+    console.error('Registration is not configured', error);
+    return NextResponse.json({ error: 'Registration is not available right now. Please try again later.' }, { status: 503 });
+  }
+  if (!phoneVerifiedAt) {
+    return NextResponse.json(
+      { error: 'Please verify your phone number again.', fields: { verificationToken: 'Your phone number is not verified.' } },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await forwarder.forward({
+      ...result.data,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      phoneVerifiedAt,
+    });
+  } catch (error) {
+    console.error('Failed to forward registration', error);
+    return NextResponse.json({ error: 'We could not complete your registration. Please try again.' }, { status: 502 });
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
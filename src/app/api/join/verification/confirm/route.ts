@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getPhoneVerifier, issueVerificationToken, type PhoneVerifier } from '@/lib/onboarding';
+import { isRecord, normaliseNigerianPhone, readString } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+// Checks a one-time code and returns a token the join form submits as proof
+// that the number was verified.
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  let verifier: PhoneVerifier;
+  try {
+    verifier = getPhoneVerifier();
+  } catch (error) {
+    console.error('Phone verification is not configured', error);
+    return NextResponse.json({ error: 'Registration is not available right now. Please try again later.' }, { status: 503 });
+  }
+
+  const phone = normaliseNigerianPhone(isRecord(payload) ? payload.phone : undefined);
+  const code = readString(isRecord(payload) ? payload.code : undefined, 10);
+  let verified = false;
+  if (phone && code) {
+    try {
+      verified = await verifier.check(phone, code);
+    } catch (error) {
+      console.error('Failed to check verification code', error);
+      return NextResponse.json({ error: 'We could not check the code. Please try again.' }, { status: 502 });
+    }
+  }
+  if (!phone || !verified) {
+    return NextResponse.json(
+      { error: 'That code is not right. Check the message and try again.', fields: { code: 'Enter the six-digit code we sent.' } },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({ ok: true, token: issueVerificationToken(phone) });
+}
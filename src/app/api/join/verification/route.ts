@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getPhoneVerifier, type PhoneVerifier } from '@/lib/onboarding';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { isRecord, normaliseNigerianPhone } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+// Each send may cost an SMS. The proxy limits each caller; this limits each
+// destination number, which it can't see.
+const limitByPhone = createRateLimiter({ name: 'verification-phone', limit: 3, windowMs: 10 * 60 * 1000 });
+
+// Sends a one-time code to the number given in the join form.
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const phone = normaliseNigerianPhone(isRecord(payload) ? payload.phone : undefined);
+  if (!phone) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields.', fields: { phone: 'Please enter a valid Nigerian phone number.' } },
+      { status: 400 },
+    );
+  }
+
+  const rateLimit = await limitByPhone(phone);
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many codes requested. Please wait a few minutes and try again.' },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } },
+    );
+  }
+
+  let verifier: PhoneVerifier;
+  try {
+    verifier = getPhoneVerifier();
+  } catch (error) {
+    console.error('Phone verification is not configured', error);
+    return NextResponse.json({ error: 'Registration is not available right now. Please try again later.' }, { status: 503 });
+  }
+
+  try {
+    await verifier.send(phone);
+  } catch (error) {
+    console.error('Failed to send verification code', error);
+    return NextResponse.json({ error: 'We could not send a code. Please try again.' }, { status: 502 });
+  }
+
+  return NextResponse.json({ ok: true, phone, ...(verifier.hint ? { hint: verifier.hint } : {}) });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getLeadStore, isHoneypotTripped, validateLead } from '@/lib/leads';
+import { getClientIp } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  const ip = getClientIp(request);
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  // Pretend the submission succeeded so bots get no signal to adapt to.
+  if (isHoneypotTripped(payload)) {
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+
+  const result = validateLead(payload);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Please correct the highlighted fields.', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    await getLeadStore().save({
+      ...result.data,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      ip,
+    });
+  } catch (error) {
+    console.error('Failed to store lead', error);
+    return NextResponse.json({ error: 'We could not save your request. Please try again.' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
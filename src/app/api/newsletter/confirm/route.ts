@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { defaultLocale } from '@/lib/i18n';
+import { getMailTransport } from '@/lib/mail';
+import { confirmSubscription, findLinkSubscriber, getSubscriberStore } from '@/lib/newsletter';
+
+export const runtime = 'nodejs';
+
+const redirectTo = (request: Request, page: string) => NextResponse.redirect(new URL(page, request.url), 303);
+
+const invalidLink = (request: Request) => redirectTo(request, `/${defaultLocale}/newsletter/invalid`);
+
+// Target of the link in the confirmation email. Mail scanners open links on
+// their own, so this only sends the visitor to the page with the confirm button.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  try {
+    const subscriber = await findLinkSubscriber(token, 'confirm', { store: getSubscriberStore() });
+    if (!subscriber) return invalidLink(request);
+    return redirectTo(request, `/${subscriber.locale}/newsletter/confirm?${new URLSearchParams({ token: token! })}`);
+  } catch (error) {
+    console.error('Failed to look up newsletter confirm link', error);
+    return invalidLink(request);
+  }
+}
+
+// The confirm page's button.
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const subscriber = await confirmSubscription(form.get('token'), {
+      store: getSubscriberStore(),
+      transport: getMailTransport(),
+    });
+    if (!subscriber) return invalidLink(request);
+    return redirectTo(request, `/${subscriber.locale}/newsletter/confirmed`);
+  } catch (error) {
+    console.error('Failed to confirm newsletter subscription', error);
+    return invalidLink(request);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { isHoneypotTripped } from '@/lib/leads';
+import { getMailTransport } from '@/lib/mail';
+import { getSubscriberStore, requestSubscription, validateSubscription } from '@/lib/newsletter';
+
+export const runtime = 'nodejs';
+
+// Starts a double opt-in subscription: the address is only added to the list
+// once the link emailed to it is opened.
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  if (isHoneypotTripped(payload)) {
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+
+  const result = validateSubscription(payload);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Please correct the highlighted fields.', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    await requestSubscription(result.data, { store: getSubscriberStore(), transport: getMailTransport() });
+  } catch (error) {
+    console.error('Failed to start newsletter subscription', error);
+    return NextResponse.json({ error: 'We could not subscribe you. Please try again.' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { defaultLocale } from '@/lib/i18n';
+import { cancelSubscription, findLinkSubscriber, getSubscriberStore } from '@/lib/newsletter';
+
+export const runtime = 'nodejs';
+
+const redirectTo = (request: Request, page: string) => NextResponse.redirect(new URL(page, request.url), 303);
+
+const invalidLink = (request: Request) => redirectTo(request, `/${defaultLocale}/newsletter/invalid`);
+
+// Target of the unsubscribe link in newsletter emails. Mail scanners open links
+// on their own, so this only sends the visitor to the page with the button.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  try {
+    const subscriber = await findLinkSubscriber(token, 'unsubscribe', { store: getSubscriberStore() });
+    if (!subscriber) return invalidLink(request);
+    return redirectTo(request, `/${subscriber.locale}/newsletter/unsubscribe?${new URLSearchParams({ token: token! })}`);
+  } catch (error) {
+    console.error('Failed to look up newsletter unsubscribe link', error);
+    return invalidLink(request);
+  }
+}
+
+// The unsubscribe page's button posts the token as a form field and gets a
+// page back. Mail clients doing one-click unsubscribe (RFC 8058) POST to the
+// List-Unsubscribe URL, with the token in the query, and get JSON.
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null);
+  const fromPage = typeof form?.get('token') === 'string';
+  const token = fromPage ? form!.get('token') : new URL(request.url).searchParams.get('token');
+
+  try {
+    const subscriber = await cancelSubscription(token, { store: getSubscriberStore() });
+    if (fromPage) return subscriber ? redirectTo(request, `/${subscriber.locale}/newsletter/unsubscribed`) : invalidLink(request);
+    if (!subscriber) return NextResponse.json({ error: 'Invalid or expired link.' }, { status: 400 });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to unsubscribe from the newsletter', error);
+    if (fromPage) return invalidLink(request);
+    return NextResponse.json({ error: 'We could not unsubscribe you. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getPlatformStats } from '@/lib/stats';
+
+export const runtime = 'nodejs';
+
+// Regenerated in the background at most every five minutes (STATS_REVALIDATE_SECONDS).
+export const revalidate = 300;
+
+export async function GET() {
+  return NextResponse.json(await getPlatformStats());
+}
@@ -0,0 +1,13 @@
+import { getPostSummaries } from '@/lib/posts';
+import { feedPosts, renderAtom } from '@/lib/posts/feed';
+import { FEED_PATHS } from '@/lib/seo';
+import { siteUrl } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+export async function GET() {
+  const posts = feedPosts(await Promise.all([getPostSummaries('blog'), getPostSummaries('case-studies')]));
+  const body = renderAtom(posts, new URL(FEED_PATHS.atom, siteUrl).toString());
+
+  return new Response(body, { headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' } });
+}
@@ -0,0 +1,6 @@
+import type { MetadataRoute } from 'next';
+import { buildManifest } from '@/lib/pwa';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return buildManifest();
+}
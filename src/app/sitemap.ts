@@ -0,0 +1,38 @@
+import type { MetadataRoute } from 'next';
+import { getCareersContent, getSolutionsContent } from '@/lib/content';
+import { locales } from '@/lib/i18n';
+import { isPhoneVerificationAvailable } from '@/lib/onboarding';
+import { collections, getPostSummaries } from '@/lib/posts';
+import { languageAlternates } from '@/lib/seo';
+import { siteUrl } from '@/lib/site';
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const posts = (await Promise.all(collections.map(getPostSummaries))).flat();
+  // Paths below the locale prefix that should be indexed.
+  const pages = [
+    '',
+    '/pricing',
+    ...getSolutionsContent().segments.map((segment) => `/solutions/${segment.slug}`),
+    ...collections.map((collection) => `/${collection}`),
+    ...posts.map((post) => `/${post.collection}/${post.slug}`),
+    '/careers',
+    ...getCareersContent().jobs.map((job) => `/careers/${job.slug}`),
+    ...(isPhoneVerificationAvailable() ? ['/join'] : []),
+    '/help',
+  ];
+  const absolute = (path: string) => new URL(path, siteUrl).toString();
+
+  return pages.flatMap((page) =>
+    locales.map((locale) => ({
+      url: absolute(`/${locale}${page}`),
+      lastModified: new Date(),
+      changeFrequency: 'monthly' as const,
+      priority: page === '' ? 1 : 0.7,
+      alternates: {
+        languages: Object.fromEntries(
+          Object.entries(languageAlternates(page)).map(([tag, path]) => [tag, absolute(path)]),
+        ),
+      },
+    })),
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { usePathname } from 'next/navigation';
+import { track } from '@/lib/analytics/client';
+import { getConsent, onConsentChange, setConsent } from '@/lib/analytics/consent';
+import type { SiteContent } from '@/lib/content/types';
+
+interface AnalyticsProps {
+  copy: SiteContent['consent'];
+}
+
+// Records page views and asks for consent. Tracking stays off until the
+// visitor accepts, and declining is remembered just like accepting.
+const Analytics: React.FC<AnalyticsProps> = ({ copy }) => {
+  const pathname = usePathname();
+  // Undefined on the server, which can't read the cookie, so the banner never
+  // flashes for visitors who have already chosen.
+  const consent = useSyncExternalStore(onConsentChange, getConsent, () => undefined);
+
+  useEffect(() => {
+    if (consent === 'granted') track('page_view');
+  }, [pathname, consent]);
+
+  if (consent !== null) return null;
+
+  return (
+    <div
+      role="region"
+      aria-label={copy.label}
+      className="fixed bottom-4 inset-x-4 md:left-auto md:right-6 md:max-w-md z-50 bg-surface rounded-2xl shadow-2xl border border-line p-6"
+    >
+      <p className="text-sm text-fg-soft leading-relaxed mb-4">{copy.message}</p>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => setConsent('granted')}
+          className="px-5 py-2 rounded-full font-semibold text-sm bg-brand text-white hover:bg-brand-strong transition-colors cursor-pointer"
+        >
+          {copy.accept}
+        </button>
+        <button
+          type="button"
+          onClick={() => setConsent('denied')}
+          className="px-5 py-2 rounded-full font-semibold text-sm border-2 border-line-strong text-fg-soft hover:border-fg-subtle transition-colors cursor-pointer"
+        >
+          {copy.decline}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
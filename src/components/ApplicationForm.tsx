@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { CV_ACCEPT, CV_MAX_BYTES, checkCvFile, formatFileSize } from '@/lib/careers/validate';
+import { HONEYPOT_FIELD } from '@/lib/leads/validate';
+
+type FormStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+interface ApplicationFormProps {
+  jobSlug: string;
+  jobTitle: string;
+}
+
+interface ApplicationFieldProps {
+  name: string;
+  label: string;
+  hint?: string;
+  error?: string;
+  children: React.ReactNode;
+}
+
+const inputStyles = 'w-full rounded-xl border border-line-strong bg-surface px-4 py-3 text-fg focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30';
+
+const ApplicationField: React.FC<ApplicationFieldProps> = ({ name, label, hint, error, children }) => (
+  <div>
+    <label htmlFor={`application-${name}`} className="block text-sm font-semibold text-fg-soft mb-2">
+      {label}
+    </label>
+    {children}
+    {hint && (
+      <p id={`application-${name}-hint`} className="mt-1 text-xs text-fg-subtle">
+        {hint}
+      </p>
+    )}
+    {error && (
+      <p id={`application-${name}-error`} className="mt-1 text-sm text-danger">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+// Posts the application as multipart form data, since it carries the CV.
+const ApplicationForm: React.FC<ApplicationFormProps> = ({ jobSlug, jobTitle }) => {
+  const [status, setStatus] = useState<FormStatus>('idle');
+  const [message, setMessage] = useState<string>('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const data = new FormData(form);
+
+    // Catch the obvious problems before uploading several megabytes.
+    const cv = data.get('cv');
+    const cvError = cv instanceof File ? checkCvFile(cv) : 'Please attach your CV.';
+    if (cvError) {
+      setErrors({ cv: cvError });
+      setMessage('Please correct the highlighted fields.');
+      setStatus('error');
+      return;
+    }
+
+    setStatus('submitting');
+    setErrors({});
+
+    try {
+      const response = await fetch('/api/careers/applications', { method: 'POST', body: data });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors(body.fields ?? {});
+        setMessage(body.error ?? 'Something went wrong. Please try again.');
+        setStatus('error');
+        return;
+      }
+
+      form.reset();
+      setStatus('success');
+    } catch {
+      setMessage('We could not reach the server. Check your connection and try again.');
+      setStatus('error');
+    }
+  };
+
+  if (status === 'success') {
+    return (
+      <div role="status" className="bg-surface rounded-2xl shadow-lg p-8 text-center">
+        <CheckCircle className="w-12 h-12 text-brand-fg mx-auto mb-4" aria-hidden="true" />
+        <h3 className="text-2xl font-bold text-fg mb-2">Application received</h3>
+        <p className="text-fg-muted">Thank you for applying for {jobTitle}. Our hiring team reads every application and will contact you if you are shortlisted.</p>
+      </div>
+    );
+  }
+
+  const describedBy = (name: string, hint = false) =>
+    [hint && `application-${name}-hint`, errors[name] && `application-${name}-error`].filter(Boolean).join(' ') || undefined;
+
+  return (
+    <form onSubmit={handleSubmit} noValidate encType="multipart/form-data" className="relative bg-surface rounded-2xl shadow-lg p-8 grid md:grid-cols-2 gap-6">
+      <input type="hidden" name="jobSlug" value={jobSlug} />
+      <ApplicationField name="name" label="Full name" error={errors.name}>
+        <input id="application-name" name="name" autoComplete="name" required maxLength={120} aria-invalid={!!errors.name} aria-describedby={describedBy('name')} className={inputStyles} />
+      </ApplicationField>
+      <ApplicationField name="email" label="Email" error={errors.email}>
+        <input id="application-email" name="email" type="email" autoComplete="email" required maxLength={254} aria-invalid={!!errors.email} aria-describedby={describedBy('email')} className={inputStyles} />
+      </ApplicationField>
+      <ApplicationField name="phone" label="Phone number" error={errors.phone}>
+        <input id="application-phone" name="phone" type="tel" autoComplete="tel" required placeholder="0812 345 6789" aria-invalid={!!errors.phone} aria-describedby={describedBy('phone')} className={inputStyles} />
+      </ApplicationField>
+      <ApplicationField name="cv" label="CV" hint={`PDF or Word document, up to ${formatFileSize(CV_MAX_BYTES)}.`} error={errors.cv}>
+        <input
+          id="application-cv"
+          name="cv"
+          type="file"
+          accept={CV_ACCEPT}
+          required
+          aria-invalid={!!errors.cv}
+          aria-describedby={describedBy('cv', true)}
+          className={`${inputStyles} file:mr-4 file:rounded-full file:border-0 file:bg-brand-soft file:px-4 file:py-1 file:font-semibold file:text-brand-fg-strong`}
+        />
+      </ApplicationField>
+      <div className="md:col-span-2">
+        <ApplicationField name="message" label="Anything you would like us to know? (optional)" error={errors.message}>
+          <textarea id="application-message" name="message" rows={4} maxLength={2000} aria-invalid={!!errors.message} aria-describedby={describedBy('message')} className={inputStyles} />
+        </ApplicationField>
+      </div>
+
+      {/* Honeypot: hidden from people and assistive tech, but bots fill it in. */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label htmlFor={`application-${HONEYPOT_FIELD}`}>Website</label>
+        <input id={`application-${HONEYPOT_FIELD}`} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      <div className="md:col-span-2 flex flex-col items-start gap-3">
+        <button
+          type="submit"
+          disabled={status === 'submitting'}
+          className="px-12 py-4 rounded-full font-semibold text-lg transition-all duration-300 bg-brand text-white hover:bg-brand-strong shadow-lg hover:shadow-xl disabled:opacity-60 cursor-pointer"
+        >
+          {status === 'submitting' ? 'Sending…' : 'Submit application'}
+        </button>
+        {status === 'error' && (
+          <p role="alert" className="text-sm text-danger">{message}</p>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default ApplicationForm;
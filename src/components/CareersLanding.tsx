@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Briefcase, MapPin } from 'lucide-react';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { FilterChip } from '@/components/ui';
+import { jobTypeLabels, jobTypes, type JobType } from '@/lib/careers/types';
+import type { CareersContent, SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import { replaceQueryParams, useSearchString } from '@/lib/query-string';
+
+interface CareersLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  content: CareersContent;
+}
+
+interface Filters {
+  location: string | null;
+  type: JobType | null;
+}
+
+const parseJobType = (value: string | null): JobType | null =>
+  jobTypes.find((type) => type === value) ?? null;
+
+const CareersLanding: React.FC<CareersLandingProps> = ({ locale, site, content }) => {
+  const { hero, jobs } = content;
+  // Filters live in the query string so a filtered list can be shared.
+  const params = new URLSearchParams(useSearchString());
+  const filters: Filters = { location: params.get('location'), type: parseJobType(params.get('type')) };
+
+  const updateFilters = (next: Filters) => replaceQueryParams({ ...next });
+
+  const locations = useMemo(() => [...new Set(jobs.map((job) => job.location))].sort(), [jobs]);
+  const types = jobTypes.filter((type) => jobs.some((job) => job.type === type));
+  const visible = jobs.filter(
+    (job) => (!filters.location || job.location === filters.location) && (!filters.type || job.type === filters.type),
+  );
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+        <section className="pt-32 pb-20 px-6">
+          <div className="max-w-screen-xl mx-auto">
+            <div className="max-w-3xl mx-auto text-center mb-12">
+              <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+                {hero.badge}
+              </div>
+              <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">{hero.title}</h1>
+              <p className="text-xl text-fg-muted leading-relaxed">{hero.description}</p>
+            </div>
+
+            {jobs.length > 0 && (
+              <div className="space-y-4 mb-10">
+                <div role="group" aria-label="Filter by location" className="flex flex-wrap justify-center gap-2">
+                  <FilterChip active={!filters.location} onClick={() => updateFilters({ ...filters, location: null })}>
+                    All locations
+                  </FilterChip>
+                  {locations.map((location) => (
+                    <FilterChip key={location} active={filters.location === location} onClick={() => updateFilters({ ...filters, location })}>
+                      {location}
+                    </FilterChip>
+                  ))}
+                </div>
+                <div role="group" aria-label="Filter by role type" className="flex flex-wrap justify-center gap-2">
+                  <FilterChip active={!filters.type} onClick={() => updateFilters({ ...filters, type: null })}>
+                    All role types
+                  </FilterChip>
+                  {types.map((type) => (
+                    <FilterChip key={type} active={filters.type === type} onClick={() => updateFilters({ ...filters, type })}>
+                      {jobTypeLabels[type]}
+                    </FilterChip>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <ul aria-label="Open roles" className="max-w-4xl mx-auto space-y-4" aria-live="polite">
+              {visible.map((job) => (
+                <li key={job.slug}>
+                  <Link
+                    href={`/${locale}/careers/${job.slug}`}
+                    className="group bg-surface rounded-2xl p-6 md:p-8 shadow-lg hover:shadow-2xl transition-shadow duration-300 flex flex-col md:flex-row md:items-center gap-4"
+                  >
+                    <div className="flex-1">
+                      <div className="text-sm font-semibold text-fg-subtle mb-1">{job.team}</div>
+                      <h2 className="text-2xl font-bold text-fg mb-2 group-hover:text-brand-fg transition-colors">{job.title}</h2>
+                      <p className="text-fg-muted leading-relaxed mb-4">{job.summary}</p>
+                      <div className="flex flex-wrap gap-2">
+                        <span className="inline-flex items-center gap-1 bg-brand-soft text-brand-fg-strong px-3 py-1 rounded-full text-xs font-bold">
+                          <MapPin className="w-3.5 h-3.5" aria-hidden="true" />
+                          {job.location}
+                        </span>
+                        <span className="inline-flex items-center gap-1 bg-surface-sunken text-fg-soft px-3 py-1 rounded-full text-xs font-semibold">
+                          <Briefcase className="w-3.5 h-3.5" aria-hidden="true" />
+                          {jobTypeLabels[job.type]}
+                        </span>
+                      </div>
+                    </div>
+                    <span className="inline-flex items-center gap-2 font-semibold text-brand-fg">
+                      View role <ArrowRight className="w-5 h-5" aria-hidden="true" />
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {jobs.length === 0 && (
+              <p className="text-center text-fg-muted">There are no open roles right now. Check back soon.</p>
+            )}
+            {jobs.length > 0 && visible.length === 0 && (
+              <p className="text-center text-fg-muted">
+                No open roles match these filters.{' '}
+                <button type="button" onClick={() => updateFilters({ location: null, type: null })} className="text-brand-fg font-semibold underline cursor-pointer">
+                  Clear filters
+                </button>
+              </p>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default CareersLanding;
@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Flame, Minus, Plus, RotateCcw } from 'lucide-react';
+import sampleRetailers from '@/data/sample-retailers.json';
+import type { SiteContent } from '@/lib/content/types';
+import {
+  buildHeatGrid,
+  clusterPoints,
+  createProjection,
+  nigeriaBounds,
+  nigeriaOutline,
+  polygonPath,
+  stateCapitals,
+  type Retailer,
+  type ScreenPoint,
+} from '@/lib/geo';
+
+const MAP_WIDTH = 600;
+const ZOOM_LEVELS = [1, 2, 4, 8];
+const PAN_STEP = 40;
+// Pixels the pointer must move before a press becomes a drag, so clicks on
+// markers still reach them when zoomed in.
+const DRAG_THRESHOLD = 4;
+
+const retailers = sampleRetailers as Retailer[];
+const projection = createProjection(nigeriaBounds, MAP_WIDTH);
+const projectedRetailers = retailers.map((retailer) => ({ retailer, ...projection.project(retailer) }));
+const outlinePath = polygonPath(nigeriaOutline, projection);
+const statesCovered = new Set(retailers.map((retailer) => retailer.state)).size;
+
+type ProjectedRetailer = (typeof projectedRetailers)[number];
+
+const toScreen = (item: ProjectedRetailer): ScreenPoint => item;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Markers are SVG groups acting as buttons, so they need their own key handling.
+const activateOnKey = (event: React.KeyboardEvent<SVGGElement>, action: () => void) => {
+  if (event.key !== 'Enter' && event.key !== ' ') return;
+  event.preventDefault();
+  event.stopPropagation();
+  action();
+};
+
+// Renders a "{count} …" template with the number in bold.
+const CountLabel: React.FC<{ template: string; count: number }> = ({ template, count }) => {
+  const [before, after = ''] = template.split('{count}');
+  return (
+    <span>
+      {before}
+      <strong className="text-fg">{count.toLocaleString()}</strong>
+      {after}
+    </span>
+  );
+};
+
+interface CoverageMapProps {
+  copy: SiteContent['coverageMap'];
+}
+
+const CoverageMap: React.FC<CoverageMapProps> = ({ copy }) => {
+  const [zoomIndex, setZoomIndex] = useState<number>(0);
+  const [center, setCenter] = useState<ScreenPoint>({ x: MAP_WIDTH / 2, y: projection.height / 2 });
+  const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
+  const [selected, setSelected] = useState<Retailer | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; center: ScreenPoint; moved: boolean } | null>(null);
+  // Set when the last press was a drag, so the click that ends it is ignored.
+  const draggedRef = useRef<boolean>(false);
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const viewWidth = MAP_WIDTH / zoom;
+  const viewHeight = projection.height / zoom;
+
+  const clusters = useMemo(() => clusterPoints(projectedRetailers, toScreen, zoom), [zoom]);
+  const heatCells = useMemo(
+    () => buildHeatGrid(projectedRetailers, toScreen, (item) => item.retailer.monthlyOrders, 16 / zoom),
+    [zoom],
+  );
+
+  const moveTo = (next: ScreenPoint, nextZoom: number = zoom) => {
+    const halfWidth = MAP_WIDTH / nextZoom / 2;
+    const halfHeight = projection.height / nextZoom / 2;
+    setCenter({
+      x: clamp(next.x, halfWidth, MAP_WIDTH - halfWidth),
+      y: clamp(next.y, halfHeight, projection.height - halfHeight),
+    });
+  };
+
+  const changeZoom = (delta: number, focus: ScreenPoint = center) => {
+    const nextIndex = clamp(zoomIndex + delta, 0, ZOOM_LEVELS.length - 1);
+    setZoomIndex(nextIndex);
+    moveTo(focus, ZOOM_LEVELS[nextIndex]);
+  };
+
+  const reset = () => {
+    setZoomIndex(0);
+    setSelected(null);
+    moveTo({ x: MAP_WIDTH / 2, y: projection.height / 2 }, 1);
+  };
+
+  const zoomInto = (cluster: ScreenPoint) => {
+    changeZoom(1, cluster);
+    // The cluster is replaced by what it contained, so keep focus on the map.
+    svgRef.current?.focus();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    draggedRef.current = false;
+    if (zoom === 1) return;
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, center, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    if (!drag.moved) {
+      if (Math.hypot(event.clientX - drag.pointerX, event.clientY - drag.pointerY) < DRAG_THRESHOLD) return;
+      // Capture only once dragging, so the map keeps panning outside its bounds.
+      drag.moved = true;
+      draggedRef.current = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    const unitsPerPixel = viewWidth / svg.clientWidth;
+    moveTo({
+      x: drag.center.x - (event.clientX - drag.pointerX) * unitsPerPixel,
+      y: drag.center.y - (event.clientY - drag.pointerY) * unitsPerPixel,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // The click that ends a drag is not meant for the marker under the pointer.
+  const handleClickCapture = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (draggedRef.current) event.stopPropagation();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const step = PAN_STEP / zoom;
+    const moves: Record<string, ScreenPoint> = {
+      ArrowLeft: { x: center.x - step, y: center.y },
+      ArrowRight: { x: center.x + step, y: center.y },
+      ArrowUp: { x: center.x, y: center.y - step },
+      ArrowDown: { x: center.x, y: center.y + step },
+    };
+
+    if (moves[event.key]) {
+      event.preventDefault();
+      moveTo(moves[event.key]);
+    } else if (event.key === '+' || event.key === '=') {
+      event.preventDefault();
+      changeZoom(1);
+    } else if (event.key === '-') {
+      event.preventDefault();
+      changeZoom(-1);
+    }
+  };
+
+  // The focus ring goes on the marker's circle; SVG groups draw no outline.
+  const markerStyles =
+    'cursor-pointer focus:outline-none [&:focus-visible>circle]:stroke-fg [&:focus-visible>circle]:[stroke-width:3px] [&:focus-visible>circle]:[vector-effect:non-scaling-stroke]';
+  const controlStyles = 'w-10 h-10 rounded-full bg-surface shadow-md flex items-center justify-center text-fg-soft hover:text-brand-fg disabled:opacity-40 cursor-pointer';
+
+  return (
+    <div className="bg-surface rounded-2xl shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex gap-6 text-sm text-fg-muted">
+          <CountLabel template={copy.retailers} count={retailers.length} />
+          <CountLabel template={copy.states} count={statesCovered} />
+          <CountLabel template={copy.clusters} count={clusters.length} />
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowHeatmap(!showHeatmap)}
+          aria-pressed={showHeatmap}
+          className={`px-4 py-2 rounded-full text-sm font-semibold inline-flex items-center gap-2 border transition-colors cursor-pointer ${showHeatmap ? 'bg-brand text-white border-brand' : 'bg-surface text-fg-soft border-line-strong hover:border-brand-fg'
+            }`}
+        >
+          <Flame className="w-4 h-4" />
+          {copy.heatmap}
+        </button>
+      </div>
+
+      <div className="relative rounded-xl bg-sky-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`${center.x - viewWidth / 2} ${center.y - viewHeight / 2} ${viewWidth} ${viewHeight}`}
+          className={`w-full h-auto touch-none select-none focus:outline-none focus:ring-2 focus:ring-brand-fg ${zoom > 1 ? 'cursor-grab' : ''}`}
+          role="application"
+          aria-label={copy.mapLabel}
+          tabIndex={0}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onClickCapture={handleClickCapture}
+          onKeyDown={handleKeyDown}
+        >
+          <defs>
+            <filter id="coverage-heat-blur">
+              <feGaussianBlur stdDeviation={8 / zoom} />
+            </filter>
+          </defs>
+
+          <path d={outlinePath} className="fill-brand-subtle stroke-brand-fg" strokeWidth={1.5 / zoom} />
+
+          {stateCapitals.map((capital) => {
+            const { x, y } = projection.project(capital);
+            return (
+              <g key={capital.state} className="pointer-events-none">
+                <circle cx={x} cy={y} r={2 / zoom} className="fill-fg-subtle" />
+                {zoom >= 2 && (
+                  <text x={x + 4 / zoom} y={y - 4 / zoom} fontSize={10 / zoom} className="fill-fg-subtle">
+                    {capital.state}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {showHeatmap && (
+            <g filter="url(#coverage-heat-blur)" className="pointer-events-none">
+              {heatCells.map((cell) => (
+                <rect
+                  key={`${cell.x}:${cell.y}`}
+                  x={cell.x}
+                  y={cell.y}
+                  width={cell.size}
+                  height={cell.size}
+                  fill={cell.intensity > 0.6 ? '#dc2626' : cell.intensity > 0.25 ? '#f59e0b' : '#22c55e'}
+                  opacity={0.35 + cell.intensity * 0.55}
+                />
+              ))}
+            </g>
+          )}
+
+          {!showHeatmap &&
+            clusters.map((cluster) => {
+              if (cluster.items.length === 1) {
+                const { retailer } = cluster.items[0];
+                const select = () => setSelected(retailer);
+                return (
+                  <g
+                    key={retailer.id}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={copy.retailer.replace('{id}', retailer.id).replace('{state}', retailer.state)}
+                    className={markerStyles}
+                    onClick={select}
+                    onKeyDown={(event) => activateOnKey(event, select)}
+                  >
+                    <circle cx={cluster.x} cy={cluster.y} r={4 / zoom} className="fill-brand stroke-surface" strokeWidth={1 / zoom} />
+                    <title>{`${retailer.id} · ${retailer.state}`}</title>
+                  </g>
+                );
+              }
+
+              const radius = (8 + Math.sqrt(cluster.items.length) * 2) / zoom;
+              return (
+                <g
+                  key={`${cluster.items[0].retailer.id}-${cluster.items.length}`}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={copy.cluster.replace('{count}', String(cluster.items.length))}
+                  className={markerStyles}
+                  onClick={() => zoomInto(cluster)}
+                  onKeyDown={(event) => activateOnKey(event, () => zoomInto(cluster))}
+                >
+                  <circle cx={cluster.x} cy={cluster.y} r={radius} className="fill-brand/80 stroke-surface" strokeWidth={1.5 / zoom} />
+                  <text
+                    x={cluster.x}
+                    y={cluster.y}
+                    fontSize={10 / zoom}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="fill-white font-bold pointer-events-none"
+                  >
+                    {cluster.items.length}
+                  </text>
+                  <title>{copy.clusterTitle.replace('{count}', String(cluster.items.length))}</title>
+                </g>
+              );
+            })}
+        </svg>
+
+        <div className="absolute top-3 right-3 flex flex-col gap-2">
+          <button type="button" onClick={() => changeZoom(1)} disabled={zoomIndex === ZOOM_LEVELS.length - 1} aria-label={copy.zoomIn} className={controlStyles}>
+            <Plus className="w-5 h-5" />
+          </button>
+          <button type="button" onClick={() => changeZoom(-1)} disabled={zoomIndex === 0} aria-label={copy.zoomOut} className={controlStyles}>
+            <Minus className="w-5 h-5" />
+          </button>
+          <button type="button" onClick={reset} aria-label={copy.reset} className={controlStyles}>
+            <RotateCcw className="w-5 h-5" />
+          </button>
+        </div>
+
+        {selected && (
+          <div className="absolute bottom-3 left-3 bg-surface rounded-xl shadow-lg px-4 py-3 text-sm" role="status">
+            <div className="font-bold text-fg">{selected.id}</div>
+            <div className="text-fg-muted">{selected.state} · {copy.monthlyOrders.replace('{count}', String(selected.monthlyOrders))}</div>
+            <div className="text-fg-subtle">{selected.lat.toFixed(4)}, {selected.lng.toFixed(4)}</div>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-xs text-fg-subtle">
+        {copy.disclaimer}
+      </p>
+    </div>
+  );
+};
+
+export default CoverageMap;
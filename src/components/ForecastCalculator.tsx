@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Link2, TrendingUp } from 'lucide-react';
+import type { SiteContent } from '@/lib/content/types';
+import {
+  forecastTerritory,
+  parseForecastParams,
+  territoryTypes,
+  toForecastParams,
+  type ForecastInput,
+  type TerritoryType,
+} from '@/lib/forecast';
+import { replaceQueryParams, useSearchString } from '@/lib/query-string';
+
+const nairaFormatter = new Intl.NumberFormat('en-NG', {
+  style: 'currency',
+  currency: 'NGN',
+  maximumFractionDigits: 0,
+});
+
+const inputStyles = 'w-full rounded-xl border border-line-strong px-4 py-3 text-fg focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30';
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, min, step, onChange }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-semibold text-fg-soft mb-2">{label}</label>
+    <input
+      id={id}
+      type="number"
+      inputMode="decimal"
+      min={min}
+      step={step}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(event) => onChange(event.target.valueAsNumber)}
+      className={inputStyles}
+    />
+  </div>
+);
+
+interface ForecastCalculatorProps {
+  copy: SiteContent['forecast'];
+}
+
+const ForecastCalculator: React.FC<ForecastCalculatorProps> = ({ copy }) => {
+  const search = useSearchString();
+  // Null until the visitor changes a field; a shared calculation in the URL is
+  // shown until then.
+  const [edited, setEdited] = useState<ForecastInput | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  // Falls back to the defaults field by field, so a partial link still applies.
+  const shared = useMemo(() => parseForecastParams(new URLSearchParams(search)), [search]);
+  const input = edited ?? shared;
+
+  const result = useMemo(
+    () =>
+      forecastTerritory({
+        ...input,
+        retailerCount: input.retailerCount || 0,
+        averageOrderValue: input.averageOrderValue || 0,
+        ordersPerMonth: input.ordersPerMonth || 0,
+      }),
+    [input],
+  );
+
+  const update = (patch: Partial<ForecastInput>) => {
+    setCopied(false);
+    setEdited({ ...input, ...patch });
+  };
+
+  const handleShare = async () => {
+    replaceQueryParams(Object.fromEntries(toForecastParams(input)));
+    const link = new URL(window.location.href);
+    link.hash = 'forecast';
+    const url = link.toString();
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the address bar still holds the link.
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-8 bg-surface rounded-2xl shadow-lg p-8">
+      <div className="space-y-5">
+        <NumberField id="forecast-retailers" label={copy.retailerCount} value={input.retailerCount} min={0} step={1} onChange={(value) => update({ retailerCount: value })} />
+        <NumberField id="forecast-aov" label={copy.averageOrderValue} value={input.averageOrderValue} min={0} step={1000} onChange={(value) => update({ averageOrderValue: value })} />
+        <NumberField id="forecast-frequency" label={copy.ordersPerMonth} value={input.ordersPerMonth} min={0} step={0.5} onChange={(value) => update({ ordersPerMonth: value })} />
+        <div>
+          <label htmlFor="forecast-territory" className="block text-sm font-semibold text-fg-soft mb-2">{copy.territoryType}</label>
+          <select
+            id="forecast-territory"
+            value={input.territoryType}
+            onChange={(event) => update({ territoryType: event.target.value as TerritoryType })}
+            className={inputStyles}
+          >
+            {territoryTypes.map((type) => (
+              <option key={type} value={type}>{copy.territoryTypes[type]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="rounded-2xl bg-brand-subtle border border-brand-subtle-line p-6 flex flex-col" aria-live="polite">
+        <div className="flex items-center gap-3 mb-6">
+          <TrendingUp className="w-6 h-6 text-brand-fg" />
+          <h3 className="text-xl font-bold text-fg">{copy.result}</h3>
+        </div>
+        <div className="text-4xl font-bold text-brand-fg mb-1">{nairaFormatter.format(result.potentialMonthly)}</div>
+        <div className="text-sm text-fg-muted mb-6">
+          {copy.range
+            .replace('{low}', nairaFormatter.format(result.range.low))
+            .replace('{high}', nairaFormatter.format(result.range.high))}
+        </div>
+        <dl className="grid grid-cols-2 gap-4 mb-6">
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.currentMonthly}</dt>
+            <dd className="text-lg font-bold text-fg">{nairaFormatter.format(result.currentMonthly)}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.gap}</dt>
+            <dd className="text-lg font-bold text-fg">
+              {nairaFormatter.format(result.gapMonthly)} <span className="text-sm font-semibold text-fg-muted">({Math.round(result.gapShare * 100)}%)</span>
+            </dd>
+          </div>
+          <div className="col-span-2">
+            <dt className="text-sm text-fg-muted">{copy.reachableRetailers}</dt>
+            <dd className="text-lg font-bold text-fg">{result.reachableRetailers.toLocaleString()}</dd>
+          </div>
+        </dl>
+        <button
+          type="button"
+          onClick={handleShare}
+          className="mt-auto self-start px-5 py-2 rounded-full font-semibold text-sm inline-flex items-center gap-2 border-2 border-brand-fg text-brand-fg hover:bg-surface transition-colors cursor-pointer"
+        >
+          <Link2 className="w-4 h-4" />
+          {copied ? copy.copied : copy.share}
+        </button>
+        <p className="mt-4 text-xs text-fg-subtle">
+          {copy.disclaimer}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastCalculator;
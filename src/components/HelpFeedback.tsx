@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useSyncExternalStore } from 'react';
+import { Link2, ThumbsDown, ThumbsUp } from 'lucide-react';
+import type { HelpContent } from '@/lib/content/types';
+
+interface HelpFeedbackProps {
+  article: string;
+  labels: HelpContent['labels'];
+}
+
+type Vote = 'yes' | 'no';
+
+const storageKey = (article: string) => `raja:help-feedback:${article}`;
+
+const VOTE_EVENT = 'raja:help-feedback';
+
+// Votes cast on this page, for when localStorage is unavailable.
+const pageVotes = new Map<string, Vote>();
+
+const readVote = (article: string): Vote | null => {
+  try {
+    const value = window.localStorage.getItem(storageKey(article));
+    if (value === 'yes' || value === 'no') return value;
+  } catch {
+    // Fall back to this page's votes.
+  }
+  return pageVotes.get(article) ?? null;
+};
+
+const saveVote = (article: string, vote: Vote) => {
+  pageVotes.set(article, vote);
+  try {
+    window.localStorage.setItem(storageKey(article), vote);
+  } catch {
+    // Storage can be unavailable in private windows; the vote still counts.
+  }
+  window.dispatchEvent(new Event(VOTE_EVENT));
+};
+
+// Votes change from these buttons, or from another tab through localStorage.
+const onVoteChange = (listener: () => void) => {
+  window.addEventListener(VOTE_EVENT, listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    window.removeEventListener(VOTE_EVENT, listener);
+    window.removeEventListener('storage', listener);
+  };
+};
+
+// "Was this helpful?" buttons and a deep link under a help centre answer. The
+// vote is remembered in the browser so a visitor is only asked once.
+const HelpFeedback: React.FC<HelpFeedbackProps> = ({ article, labels }) => {
+  const vote = useSyncExternalStore(onVoteChange, () => readVote(article), () => null);
+
+  const send = (next: Vote) => {
+    saveVote(article, next);
+    // Best effort: a lost vote isn't worth interrupting the reader for.
+    fetch('/api/help/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ article, helpful: next === 'yes' }),
+    }).catch(() => undefined);
+  };
+
+  const buttonStyles = 'inline-flex items-center gap-1.5 px-4 py-1.5 rounded-full border border-line text-sm font-semibold text-fg-soft hover:border-brand-fg hover:text-brand-fg cursor-pointer';
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+      {vote ? (
+        <p role="status" className="text-fg-muted">{labels.thanks}</p>
+      ) : (
+        <div role="group" aria-label={labels.helpful} className="flex flex-wrap items-center gap-2">
+          <span aria-hidden="true" className="text-fg-muted mr-1">{labels.helpful}</span>
+          <button type="button" onClick={() => send('yes')} className={buttonStyles}>
+            <ThumbsUp className="w-4 h-4" aria-hidden="true" />
+            {labels.yes}
+          </button>
+          <button type="button" onClick={() => send('no')} className={buttonStyles}>
+            <ThumbsDown className="w-4 h-4" aria-hidden="true" />
+            {labels.no}
+          </button>
+        </div>
+      )}
+      <a href={`#${article}`} className="inline-flex items-center gap-1.5 font-semibold text-brand-fg">
+        <Link2 className="w-4 h-4" aria-hidden="true" />
+        {labels.copyLink}
+      </a>
+    </div>
+  );
+};
+
+export default HelpFeedback;
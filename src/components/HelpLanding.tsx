@@ -0,0 +1,133 @@
+'use client';
+
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import HelpFeedback from '@/components/HelpFeedback';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { FAQItem } from '@/components/ui';
+import type { HelpContent, SiteContent } from '@/lib/content/types';
+import { searchHelp, searchTerms } from '@/lib/help/search';
+import type { Locale } from '@/lib/i18n';
+import { replaceQueryParams, useSearchString } from '@/lib/query-string';
+
+interface HelpLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  content: HelpContent;
+}
+
+const HelpLanding: React.FC<HelpLandingProps> = ({ locale, site, content }) => {
+  const { hero, labels, categories } = content;
+  // The query lives in the query string so a search can be shared.
+  const query = new URLSearchParams(useSearchString()).get('q') ?? '';
+
+  const updateQuery = (next: string) => replaceQueryParams({ q: next.trim() ? next : null });
+
+  const terms = searchTerms(query);
+  const searching = terms.length > 0;
+  const results = searching ? searchHelp(categories, query) : [];
+  const summary = results.length > 0
+    ? labels.results.replace('{count}', String(results.length)).replace('{query}', query.trim())
+    : labels.noResults.replace('{query}', query.trim());
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+        <section className="pt-32 pb-20 px-6">
+          <div className="max-w-3xl mx-auto">
+            <div className="text-center mb-10">
+              <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+                {hero.badge}
+              </div>
+              <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">{hero.title}</h1>
+              <p className="text-xl text-fg-muted leading-relaxed">{hero.description}</p>
+            </div>
+
+            <form role="search" onSubmit={(event) => event.preventDefault()} className="relative mb-4">
+              <label htmlFor="help-search" className="sr-only">{labels.search}</label>
+              <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-5 h-5 text-fg-subtle pointer-events-none" aria-hidden="true" />
+              <input
+                id="help-search"
+                type="search"
+                value={query}
+                onChange={(event) => updateQuery(event.target.value)}
+                placeholder={labels.searchPlaceholder}
+                autoComplete="off"
+                className="w-full pl-14 pr-14 py-4 rounded-full bg-surface border border-line shadow-md text-fg placeholder:text-fg-subtle focus:outline-none focus:ring-2 focus:ring-brand-fg"
+              />
+              {query && (
+                <button
+                  type="button"
+                  onClick={() => updateQuery('')}
+                  aria-label={labels.clearSearch}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 p-1 text-fg-subtle hover:text-fg cursor-pointer"
+                >
+                  <X className="w-5 h-5" aria-hidden="true" />
+                </button>
+              )}
+            </form>
+            <p role="status" className="text-center text-sm text-fg-muted mb-10 min-h-5">
+              {searching ? summary : ''}
+            </p>
+
+            {searching ? (
+              results.length > 0 && (
+                <div className="bg-surface rounded-2xl shadow-lg p-8">
+                  {results.map(({ article }) => (
+                    <FAQItem
+                      key={article.slug}
+                      id={article.slug}
+                      question={article.question}
+                      answer={article.answer}
+                      highlight={terms}
+                      defaultOpen
+                    >
+                      <HelpFeedback article={article.slug} labels={labels} />
+                    </FAQItem>
+                  ))}
+                </div>
+              )
+            ) : (
+              <>
+                <nav aria-label={labels.categories} className="flex flex-wrap justify-center gap-2 mb-12">
+                  {categories.map((category) => (
+                    <a
+                      key={category.slug}
+                      href={`#${category.slug}`}
+                      className="px-4 py-2 rounded-full text-sm font-semibold bg-surface border border-line text-fg-soft hover:border-brand-fg hover:text-brand-fg"
+                    >
+                      {category.title}
+                    </a>
+                  ))}
+                </nav>
+
+                <div className="space-y-12">
+                  {categories.map((category) => (
+                    <section key={category.slug} id={category.slug} aria-labelledby={`${category.slug}-title`} className="scroll-mt-28">
+                      <h2 id={`${category.slug}-title`} className="text-3xl font-bold text-fg mb-2">{category.title}</h2>
+                      <p className="text-fg-muted mb-6">{category.description}</p>
+                      <div className="bg-surface rounded-2xl shadow-lg p-8">
+                        {category.articles.map((article) => (
+                          <FAQItem key={article.slug} id={article.slug} question={article.question} answer={article.answer}>
+                            <HelpFeedback article={article.slug} labels={labels} />
+                          </FAQItem>
+                        ))}
+                      </div>
+                    </section>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default HelpLanding;
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { SiteContent } from '@/lib/content/types';
+
+interface InstallPromptProps {
+  copy: SiteContent['install'];
+}
+
+// Chromium's install event; not in the DOM typings.
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+const DISMISSED_KEY = 'raja:install-dismissed';
+
+const wasDismissed = (): boolean => {
+  try {
+    return window.localStorage.getItem(DISMISSED_KEY) !== null;
+  } catch {
+    return false;
+  }
+};
+
+// Offers to add the site to the home screen once the browser says it can be
+// installed. Browsers without the install event (Safari, Firefox) never show it.
+const InstallPrompt: React.FC<InstallPromptProps> = ({ copy }) => {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const handleInstallable = (event: Event) => {
+      // Replaces the browser's own install banner with this prompt.
+      event.preventDefault();
+      if (!wasDismissed()) setInstallEvent(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallEvent(null);
+
+    window.addEventListener('beforeinstallprompt', handleInstallable);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleInstallable);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  if (!installEvent) return null;
+
+  const install = async () => {
+    await installEvent.prompt();
+    await installEvent.userChoice;
+    // The event can only be used once.
+    setInstallEvent(null);
+  };
+
+  const dismiss = () => {
+    try {
+      window.localStorage.setItem(DISMISSED_KEY, new Date().toISOString());
+    } catch {
+      // Storage can be unavailable in private windows; the prompt just comes back.
+    }
+    setInstallEvent(null);
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label={copy.title}
+      className="fixed bottom-4 left-4 right-24 md:right-auto md:max-w-sm z-40 bg-surface rounded-2xl shadow-2xl border border-line p-5"
+    >
+      <div className="flex items-start gap-4">
+        <Image src="/raja-logo.png" alt="" width={48} height={48} className="shrink-0 rounded-xl" />
+        <div>
+          <p className="font-bold text-fg mb-1">{copy.title}</p>
+          <p className="text-sm text-fg-muted leading-relaxed mb-4">{copy.description}</p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={install}
+              className="px-5 py-2 rounded-full font-semibold text-sm bg-brand text-white hover:bg-brand-strong transition-colors cursor-pointer"
+            >
+              {copy.action}
+            </button>
+            <button
+              type="button"
+              onClick={dismiss}
+              className="px-5 py-2 rounded-full font-semibold text-sm border-2 border-line-strong text-fg-soft hover:border-fg-subtle transition-colors cursor-pointer"
+            >
+              {copy.dismiss}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InstallPrompt;
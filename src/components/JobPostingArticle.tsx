@@ -0,0 +1,82 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Briefcase, MapPin } from 'lucide-react';
+import ApplicationForm from '@/components/ApplicationForm';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { jobTypeLabels } from '@/lib/careers/types';
+import type { JobPosting, SiteContent } from '@/lib/content/types';
+import { formatDate, type Locale } from '@/lib/i18n';
+
+interface JobPostingArticleProps {
+  locale: Locale;
+  site: SiteContent;
+  job: JobPosting;
+}
+
+interface JobListProps {
+  title: string;
+  items: string[];
+}
+
+const JobList: React.FC<JobListProps> = ({ title, items }) => (
+  <section className="mb-10">
+    <h2 className="text-2xl font-bold text-fg mb-4">{title}</h2>
+    <ul className="list-disc pl-6 space-y-2 text-lg text-fg-soft">
+      {items.map((item) => (
+        <li key={item}>{item}</li>
+      ))}
+    </ul>
+  </section>
+);
+
+// Rendered on the server; only the application form ships to the browser.
+const JobPostingArticle: React.FC<JobPostingArticleProps> = ({ locale, site, job }) => (
+  <div className="bg-surface-muted overflow-x-hidden">
+    <SiteHeader locale={locale} nav={site.nav} />
+
+    <main id="main-content" tabIndex={-1} className="outline-none">
+      <article className="pt-32 pb-20 px-6">
+        <div className="max-w-3xl mx-auto">
+          <Link href={`/${locale}/careers`} className="inline-flex items-center gap-2 text-brand-fg font-semibold mb-8 hover:text-brand-fg-strong">
+            <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+            All open roles
+          </Link>
+
+          <header className="mb-12">
+            <div className="flex flex-wrap gap-2 mb-6">
+              <Link
+                href={`/${locale}/careers?location=${encodeURIComponent(job.location)}`}
+                className="inline-flex items-center gap-1 bg-brand-soft text-brand-fg-strong px-3 py-1 rounded-full text-sm font-bold hover:bg-brand-soft-line"
+              >
+                <MapPin className="w-4 h-4" aria-hidden="true" />
+                {job.location}
+              </Link>
+              <span className="inline-flex items-center gap-1 bg-surface text-fg-soft px-3 py-1 rounded-full text-sm font-semibold border border-line">
+                <Briefcase className="w-4 h-4" aria-hidden="true" />
+                {jobTypeLabels[job.type]}
+              </span>
+            </div>
+            <h1 className="text-4xl md:text-5xl font-bold text-fg mb-4 leading-tight">{job.title}</h1>
+            <p className="text-fg-subtle">
+              {job.team} · Posted <time dateTime={job.posted}>{formatDate(job.posted, locale)}</time>
+            </p>
+          </header>
+
+          <p className="text-lg text-fg-soft leading-relaxed mb-10">{job.description}</p>
+          <JobList title="What you will do" items={job.responsibilities} />
+          <JobList title="What we are looking for" items={job.requirements} />
+
+          <section id="apply" aria-labelledby="apply-title" className="mt-12 pt-12 border-t border-line">
+            <h2 id="apply-title" className="text-3xl font-bold text-fg mb-6">Apply for this role</h2>
+            <ApplicationForm jobSlug={job.slug} jobTitle={job.title} />
+          </section>
+        </div>
+      </article>
+    </main>
+
+    <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+  </div>
+);
+
+export default JobPostingArticle;
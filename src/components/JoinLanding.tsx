@@ -0,0 +1,471 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, CheckCircle, Store, UserRound, WifiOff } from 'lucide-react';
+import LocationPicker from '@/components/LocationPicker';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import type { JoinContent, SiteContent } from '@/lib/content/types';
+import { nearestStateCapital } from '@/lib/geo/nigeria';
+import type { Locale } from '@/lib/i18n';
+import { HONEYPOT_FIELD } from '@/lib/leads/validate';
+import {
+  joinRoleLabels,
+  joinRoles,
+  productCategories,
+  productCategoryLabels,
+  type JoinRole,
+  type ProductCategory,
+  type ShopLocation,
+} from '@/lib/onboarding/types';
+import { joinStates, joinStepFields, validateRegistration } from '@/lib/onboarding/validate';
+import { useOnline } from '@/lib/pwa/client';
+
+interface JoinLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  content: JoinContent;
+}
+
+type Step = keyof typeof joinStepFields | 'verify';
+
+type Status = 'idle' | 'submitting' | 'success';
+
+interface Draft {
+  role: JoinRole | null;
+  name: string;
+  businessName: string;
+  phone: string;
+  state: string;
+  area: string;
+  location: ShopLocation | null;
+  categories: ProductCategory[];
+}
+
+interface JoinFieldProps {
+  name: string;
+  label: string;
+  error?: string;
+  children: React.ReactNode;
+}
+
+const emptyDraft: Draft = {
+  role: null,
+  name: '',
+  businessName: '',
+  phone: '',
+  state: '',
+  area: '',
+  location: null,
+  categories: [],
+};
+
+const stepTitles: Record<Step, string> = {
+  role: 'How do you want to join?',
+  details: 'Your details',
+  location: 'Where is your shop?',
+  categories: 'What do you stock?',
+  verify: 'Verify your phone number',
+};
+
+const roleDescriptions: Record<JoinRole, string> = {
+  retailer: 'I run a shop, kiosk or market stall and want dealers and distributors to find me.',
+  agent: 'I want to map and verify retailers in my area as a RAJA field agent.',
+};
+
+const roleIcons = { retailer: Store, agent: UserRound } satisfies Record<JoinRole, React.ElementType>;
+
+// Agents are not asked what they stock.
+const stepsFor = (role: JoinRole | null): Step[] =>
+  role === 'agent' ? ['role', 'details', 'location', 'verify'] : ['role', 'details', 'location', 'categories', 'verify'];
+
+const inputStyles = 'w-full rounded-xl border border-line-strong bg-surface px-4 py-3 text-fg focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30';
+
+const JoinField: React.FC<JoinFieldProps> = ({ name, label, error, children }) => (
+  <div>
+    <label htmlFor={`join-${name}`} className="block text-sm font-semibold text-fg-soft mb-2">
+      {label}
+    </label>
+    {children}
+    {error && (
+      <p id={`join-${name}-error`} className="mt-1 text-sm text-danger">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+const withoutErrors = (errors: Record<string, string>, ...fields: string[]) =>
+  Object.fromEntries(Object.entries(errors).filter(([field]) => !fields.includes(field)));
+
+const errorId = (name: string, errors: Record<string, string>) => (errors[name] ? `join-${name}-error` : undefined);
+
+// A step-by-step registration form. Each step is checked with the same
+// validator the route handler uses before the visitor can move on; the phone
+// number is verified with a one-time code just before the final submit.
+const JoinLanding: React.FC<JoinLandingProps> = ({ locale, site, content }) => {
+  const { hero } = content;
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [step, setStep] = useState<Step>('role');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string>('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [codeHint, setCodeHint] = useState<string>('');
+  const [code, setCode] = useState<string>('');
+  const formRef = useRef<HTMLFormElement>(null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const movedRef = useRef<boolean>(false);
+  // The service worker does not queue registrations, see public/sw.js.
+  const online = useOnline();
+
+  const steps = stepsFor(draft.role);
+  const stepIndex = steps.indexOf(step);
+
+  // Move focus to the new step's heading, but not on first render.
+  useEffect(() => {
+    if (movedRef.current) headingRef.current?.focus();
+    movedRef.current = true;
+  }, [step]);
+
+  const update = <K extends keyof Draft>(key: K, value: Draft[K]) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+    setErrors((current) => withoutErrors(current, key));
+    // A code sent to the old number no longer applies.
+    if (key === 'phone') setCodeSentTo(null);
+  };
+
+  const updateLocation = (location: ShopLocation) => {
+    // Suggest a state from the pin until the visitor picks one themselves.
+    setDraft((current) => ({ ...current, location, state: current.state || nearestStateCapital(location).state }));
+    setErrors((current) => withoutErrors(current, 'location', 'state'));
+  };
+
+  const toggleCategory = (category: ProductCategory) =>
+    update(
+      'categories',
+      draft.categories.includes(category)
+        ? draft.categories.filter((selected) => selected !== category)
+        : [...draft.categories, category],
+    );
+
+  const goTo = (next: Step) => {
+    setStep(next);
+    setMessage('');
+  };
+
+  // Errors for the fields collected on this step, if any.
+  const stepErrors = (current: Step): Record<string, string> => {
+    if (current === 'verify') return {};
+    const result = validateRegistration(draft);
+    if (result.ok) return {};
+    const fields: readonly string[] = joinStepFields[current];
+    return Object.fromEntries(Object.entries(result.errors).filter(([field]) => fields.includes(field)));
+  };
+
+  const handleContinue = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const found = stepErrors(step);
+    setErrors(found);
+    if (Object.keys(found).length > 0) {
+      setMessage('Please correct the highlighted fields.');
+      return;
+    }
+    goTo(steps[stepIndex + 1]);
+  };
+
+  const post = async (url: string, payload: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    return { response, body: await response.json().catch(() => ({})) };
+  };
+
+  const sendCode = async () => {
+    setStatus('submitting');
+    setMessage('');
+    try {
+      const { response, body } = await post('/api/join/verification', { phone: draft.phone });
+      if (!response.ok) {
+        setErrors(body.fields ?? {});
+        setMessage(body.error ?? 'Something went wrong. Please try again.');
+      } else {
+        setCodeSentTo(body.phone);
+        setCodeHint(body.hint ?? '');
+        setCode('');
+      }
+    } catch {
+      setMessage('We could not reach the server. Check your connection and try again.');
+    }
+    setStatus('idle');
+  };
+
+  const register = async () => {
+    setStatus('submitting');
+    setMessage('');
+    try {
+      const confirmed = await post('/api/join/verification/confirm', { phone: draft.phone, code });
+      if (!confirmed.response.ok) {
+        setErrors(confirmed.body.fields ?? {});
+        setMessage(confirmed.body.error ?? 'Something went wrong. Please try again.');
+        setStatus('idle');
+        return;
+      }
+
+      const honeypot = formRef.current ? new FormData(formRef.current).get(HONEYPOT_FIELD) : null;
+      const { response, body } = await post('/api/join', {
+        ...draft,
+        verificationToken: confirmed.body.token,
+        [HONEYPOT_FIELD]: honeypot ?? '',
+      });
+
+      if (!response.ok) {
+        const fields: Record<string, string> = body.fields ?? {};
+        setErrors(fields);
+        setMessage(body.error ?? 'Something went wrong. Please try again.');
+        // Send the visitor back to the first step with a problem on it.
+        const failed = steps.find((candidate) =>
+          candidate !== 'verify' && joinStepFields[candidate].some((field) => field in fields),
+        );
+        if (failed) setStep(failed);
+        setStatus('idle');
+        return;
+      }
+
+      setStatus('success');
+    } catch {
+      setMessage('We could not reach the server. Check your connection and try again.');
+      setStatus('idle');
+    }
+  };
+
+  const chipStyles = (active: boolean) =>
+    `flex items-center gap-3 rounded-xl border-2 px-4 py-3 text-left font-semibold cursor-pointer transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-brand-fg/30 ${active ? 'border-brand-fg bg-brand-soft text-brand-fg-strong' : 'border-line-strong bg-surface text-fg-soft hover:border-brand-fg'
+    }`;
+
+  const primaryStyles = 'px-10 py-4 rounded-full font-semibold text-lg transition-all duration-300 bg-brand text-white hover:bg-brand-strong shadow-lg hover:shadow-xl disabled:opacity-60 cursor-pointer';
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+        <section className="pt-32 pb-20 px-6">
+          <div className="max-w-3xl mx-auto">
+            <div className="text-center mb-12">
+              <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+                {hero.badge}
+              </div>
+              <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">{hero.title}</h1>
+              <p className="text-xl text-fg-muted leading-relaxed">{hero.description}</p>
+            </div>
+
+            {status === 'success' ? (
+              <div role="status" className="bg-surface rounded-2xl shadow-lg p-8 text-center">
+                <CheckCircle className="w-12 h-12 text-brand-fg mx-auto mb-4" aria-hidden="true" />
+                <h2 className="text-2xl font-bold text-fg mb-2">You are registered</h2>
+                <p className="text-fg-muted">
+                  {draft.role === 'agent'
+                    ? 'Thank you for signing up. Our field operations team will call you about agent training in your area.'
+                    : `Thank you. ${draft.businessName} is now on the RAJA map, and a field agent may visit to confirm your details.`}
+                </p>
+              </div>
+            ) : (
+              <form ref={formRef} onSubmit={handleContinue} noValidate className="relative bg-surface rounded-2xl shadow-lg p-8">
+                {!online && (
+                  <p role="status" className="mb-6 flex items-start gap-3 rounded-xl bg-surface-sunken px-4 py-3 text-sm text-fg-soft">
+                    <WifiOff className="w-5 h-5 shrink-0" aria-hidden="true" />
+                    You are offline. You can keep filling in the form, but sending a code and registering need a connection, so nothing is sent until you are back online.
+                  </p>
+                )}
+                <ol aria-label="Registration progress" className="flex flex-wrap gap-2 mb-8 text-sm">
+                  {steps.map((candidate, index) => (
+                    <li
+                      key={candidate}
+                      aria-current={candidate === step ? 'step' : undefined}
+                      className={`inline-flex items-center gap-2 rounded-full px-3 py-1 font-semibold ${candidate === step ? 'bg-brand text-white' : index < stepIndex ? 'bg-brand-soft text-brand-fg-strong' : 'bg-surface-sunken text-fg-muted'
+                        }`}
+                    >
+                      {index < stepIndex && <Check className="w-4 h-4" aria-hidden="true" />}
+                      <span>
+                        <span className="sr-only">Step {index + 1}: </span>
+                        {stepTitles[candidate]}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+
+                <h2 ref={headingRef} tabIndex={-1} className="text-3xl font-bold text-fg mb-6 outline-none">
+                  {stepTitles[step]}
+                </h2>
+
+                {step === 'role' && (
+                  <fieldset aria-describedby={errorId('role', errors)}>
+                    <legend className="sr-only">{stepTitles.role}</legend>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      {joinRoles.map((role) => {
+                        const Icon = roleIcons[role];
+                        return (
+                          <label key={role} className={`${chipStyles(draft.role === role)} flex-col items-start`}>
+                            <input type="radio" name="role" value={role} checked={draft.role === role} onChange={() => update('role', role)} className="sr-only" />
+                            <Icon className="w-8 h-8" aria-hidden="true" />
+                            <span className="text-lg text-fg">{joinRoleLabels[role]}</span>
+                            <span className="text-sm font-normal text-fg-muted">{roleDescriptions[role]}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    {errors.role && <p id="join-role-error" className="mt-2 text-sm text-danger">{errors.role}</p>}
+                  </fieldset>
+                )}
+
+                {step === 'details' && (
+                  <div className="grid gap-6">
+                    <JoinField name="name" label="Your full name" error={errors.name}>
+                      <input id="join-name" value={draft.name} onChange={(event) => update('name', event.target.value)} autoComplete="name" required maxLength={120} aria-invalid={!!errors.name} aria-describedby={errorId('name', errors)} className={inputStyles} />
+                    </JoinField>
+                    {draft.role === 'retailer' && (
+                      <JoinField name="businessName" label="Shop name" error={errors.businessName}>
+                        <input id="join-businessName" value={draft.businessName} onChange={(event) => update('businessName', event.target.value)} autoComplete="organization" required maxLength={160} aria-invalid={!!errors.businessName} aria-describedby={errorId('businessName', errors)} className={inputStyles} />
+                      </JoinField>
+                    )}
+                    <JoinField name="phone" label="Phone number" error={errors.phone}>
+                      <input id="join-phone" type="tel" value={draft.phone} onChange={(event) => update('phone', event.target.value)} autoComplete="tel" required placeholder="0812 345 6789" aria-invalid={!!errors.phone} aria-describedby={errorId('phone', errors)} className={inputStyles} />
+                    </JoinField>
+                  </div>
+                )}
+
+                {step === 'location' && (
+                  <div className="grid gap-6">
+                    <div>
+                      <p id="join-location-hint" className="text-fg-muted mb-4">
+                        Stand in or near your {draft.role === 'agent' ? 'area' : 'shop'} and use your current location, or tap the map to drop a pin.
+                      </p>
+                      <LocationPicker
+                        value={draft.location}
+                        onChange={updateLocation}
+                        invalid={!!errors.location}
+                        describedBy={['join-location-hint', errorId('location', errors)].filter(Boolean).join(' ')}
+                      />
+                      {errors.location && <p id="join-location-error" className="mt-1 text-sm text-danger">{errors.location}</p>}
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-6">
+                      <JoinField name="state" label="State" error={errors.state}>
+                        <select id="join-state" value={draft.state} onChange={(event) => update('state', event.target.value)} required aria-invalid={!!errors.state} aria-describedby={errorId('state', errors)} className={inputStyles}>
+                          <option value="">Choose a state</option>
+                          {joinStates.map((state) => (
+                            <option key={state} value={state}>{state}</option>
+                          ))}
+                        </select>
+                      </JoinField>
+                      <JoinField name="area" label="Market, street or area" error={errors.area}>
+                        <input id="join-area" value={draft.area} onChange={(event) => update('area', event.target.value)} required maxLength={160} placeholder="e.g. Balogun Market" aria-invalid={!!errors.area} aria-describedby={errorId('area', errors)} className={inputStyles} />
+                      </JoinField>
+                    </div>
+                  </div>
+                )}
+
+                {step === 'categories' && (
+                  <fieldset aria-describedby={['join-categories-hint', errorId('categories', errors)].filter(Boolean).join(' ')}>
+                    <legend id="join-categories-hint" className="text-fg-muted mb-4">Choose everything you regularly sell.</legend>
+                    <div className="grid sm:grid-cols-2 gap-3">
+                      {productCategories.map((category) => (
+                        <label key={category} className={chipStyles(draft.categories.includes(category))}>
+                          <input
+                            type="checkbox"
+                            checked={draft.categories.includes(category)}
+                            onChange={() => toggleCategory(category)}
+                            className="w-5 h-5 accent-brand"
+                          />
+                          {productCategoryLabels[category]}
+                        </label>
+                      ))}
+                    </div>
+                    {errors.categories && <p id="join-categories-error" className="mt-2 text-sm text-danger">{errors.categories}</p>}
+                  </fieldset>
+                )}
+
+                {step === 'verify' && (
+                  <div className="grid gap-6">
+                    {codeSentTo ? (
+                      <>
+                        <p className="text-fg-muted">
+                          We sent a six-digit code to <strong className="text-fg">{codeSentTo}</strong>.{' '}
+                          {codeHint && <span className="block mt-2 text-sm text-fg-subtle">{codeHint}</span>}
+                        </p>
+                        <JoinField name="code" label="Verification code" error={errors.code}>
+                          <input
+                            id="join-code"
+                            value={code}
+                            onChange={(event) => setCode(event.target.value.replace(/\D/g, ''))}
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            aria-invalid={!!errors.code}
+                            aria-describedby={errorId('code', errors)}
+                            className={`${inputStyles} max-w-48 tracking-[0.5em]`}
+                          />
+                        </JoinField>
+                        <div className="flex flex-wrap items-center gap-4">
+                          <button type="button" onClick={register} disabled={!online || status === 'submitting' || code.length !== 6} className={primaryStyles}>
+                            {status === 'submitting' ? 'Registering…' : 'Verify and register'}
+                          </button>
+                          <button type="button" onClick={sendCode} disabled={!online || status === 'submitting'} className="text-brand-fg font-semibold underline cursor-pointer">
+                            Send a new code
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-fg-muted">
+                          We will send a code by SMS to <strong className="text-fg">{draft.phone}</strong> to check that the number is yours.
+                        </p>
+                        {errors.phone && <p className="text-sm text-danger">{errors.phone}</p>}
+                        <div>
+                          <button type="button" onClick={sendCode} disabled={!online || status === 'submitting'} className={primaryStyles}>
+                            {status === 'submitting' ? 'Sending…' : 'Send code'}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Honeypot: hidden from people and assistive tech, but bots fill it in. */}
+                <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                  <label htmlFor={`join-${HONEYPOT_FIELD}`}>Website</label>
+                  <input id={`join-${HONEYPOT_FIELD}`} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+                </div>
+
+                {message && (
+                  <p role="alert" className="mt-6 text-sm text-danger">{message}</p>
+                )}
+
+                <div className="mt-8 flex items-center justify-between gap-4">
+                  {stepIndex > 0 ? (
+                    <button type="button" onClick={() => goTo(steps[stepIndex - 1])} className="font-semibold text-fg-soft hover:text-brand-fg cursor-pointer">
+                      Back
+                    </button>
+                  ) : (
+                    <span />
+                  )}
+                  {step !== 'verify' && (
+                    <button type="submit" className={primaryStyles}>
+                      Continue
+                    </button>
+                  )}
+                </div>
+              </form>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default JoinLanding;
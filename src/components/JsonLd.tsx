@@ -0,0 +1,16 @@
+import React from 'react';
+
+interface JsonLdProps {
+  data: object | object[];
+}
+
+// Serialises structured data into a script tag. "<" is escaped so content
+// strings can never close the script element early.
+const JsonLd: React.FC<JsonLdProps> = ({ data }) => (
+  <script
+    type="application/ld+json"
+    dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+  />
+);
+
+export default JsonLd;
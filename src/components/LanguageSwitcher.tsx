@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Globe } from 'lucide-react';
+import { LOCALE_COOKIE, localeNames, locales, type Locale } from '@/lib/i18n';
+import { switchLocalePath } from '@/lib/navigation';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+  label: string;
+  className?: string;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale, label, className = '' }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = event.target.value as Locale;
+    // Remember the choice so the locale redirect doesn't override it on the next visit.
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+    // Stay on the same page, keeping any calculator query and section anchor.
+    router.push(`${switchLocalePath(pathname, next)}${window.location.search}${window.location.hash}`);
+  };
+
+  return (
+    <label className={`inline-flex items-center gap-2 text-fg-soft font-medium ${className}`}>
+      <Globe className="w-5 h-5" aria-hidden="true" />
+      <span className="sr-only">{label}</span>
+      <select
+        value={locale}
+        onChange={handleChange}
+        className="bg-transparent border border-line-strong rounded-full px-3 py-2 text-sm focus:border-brand-fg focus:outline-none cursor-pointer"
+      >
+        {locales.map((entry) => (
+          <option key={entry} value={entry} lang={entry}>
+            {localeNames[entry]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,13 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// The map is purely interactive and depends on layout measurements, so it is
+// rendered on the client only. Server components can't opt out of SSR
+// themselves, hence this wrapper.
+const LazyCoverageMap = dynamic(() => import('@/components/CoverageMap'), {
+  ssr: false,
+  loading: () => <div className="bg-surface rounded-2xl shadow-lg h-[520px] animate-pulse" />,
+});
+
+export default LazyCoverageMap;
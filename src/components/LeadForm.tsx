@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle, CloudOff } from 'lucide-react';
+import type { SiteContent } from '@/lib/content/types';
+import type { LeadInput } from '@/lib/leads/types';
+import { HONEYPOT_FIELD, leadRoles, validateLead } from '@/lib/leads/validate';
+
+// "queued": saved by the service worker while offline, sent once back online.
+type FormStatus = 'idle' | 'submitting' | 'success' | 'queued' | 'error';
+
+interface LeadFormProps {
+  copy: SiteContent['leadForm'];
+  // Preselects the "I am a…" option, e.g. on a segment's solutions page.
+  defaultRole?: string;
+}
+
+interface LeadFormFieldProps {
+  name: string;
+  label: string;
+  error?: string;
+  children: React.ReactNode;
+}
+
+const inputStyles = 'w-full rounded-xl border border-line-strong px-4 py-3 text-fg focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30';
+
+const LeadFormField: React.FC<LeadFormFieldProps> = ({ name, label, error, children }) => (
+  <div className="text-left">
+    <label htmlFor={`lead-${name}`} className="block text-sm font-semibold text-fg-soft mb-2">
+      {label}
+    </label>
+    {children}
+    {error && (
+      <p id={`lead-${name}-error`} className="mt-1 text-sm text-danger">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+const LeadForm: React.FC<LeadFormProps> = ({ copy, defaultRole = '' }) => {
+  const [status, setStatus] = useState<FormStatus>('idle');
+  const [message, setMessage] = useState<string>('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const payload = Object.fromEntries(new FormData(form).entries());
+
+    // Checked here as well as on the server: offline, the service worker queues
+    // whatever is posted, and a request it replays later can no longer be fixed.
+    const result = validateLead(payload);
+    if (!result.ok) {
+      setErrors(result.errors);
+      setMessage(copy.errors.invalid);
+      setStatus('error');
+      return;
+    }
+
+    setStatus('submitting');
+    setErrors({});
+
+    try {
+      const response = await fetch('/api/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors(body.fields ?? {});
+        setMessage(body.fields ? copy.errors.invalid : copy.errors.failed);
+        setStatus('error');
+        return;
+      }
+
+      form.reset();
+      setStatus(body.queued ? 'queued' : 'success');
+    } catch {
+      setMessage(copy.errors.unreachable);
+      setStatus('error');
+    }
+  };
+
+  if (status === 'success') {
+    return (
+      <div className="bg-surface rounded-2xl shadow-2xl p-8 text-center">
+        <CheckCircle className="w-12 h-12 text-brand-fg mx-auto mb-4" />
+        <h3 className="text-2xl font-bold text-fg mb-2">{copy.success.title}</h3>
+        <p className="text-fg-muted">{copy.success.description}</p>
+      </div>
+    );
+  }
+
+  if (status === 'queued') {
+    return (
+      <div role="status" className="bg-surface rounded-2xl shadow-2xl p-8 text-center">
+        <CloudOff className="w-12 h-12 text-brand-fg mx-auto mb-4" aria-hidden="true" />
+        <h3 className="text-2xl font-bold text-fg mb-2">{copy.queued.title}</h3>
+        <p className="text-fg-muted">{copy.queued.description}</p>
+      </div>
+    );
+  }
+
+  const describedBy = (name: string) => (errors[name] ? `lead-${name}-error` : undefined);
+  // The message for a field in the visitor's language, whichever check flagged it.
+  const errorFor = (name: keyof LeadInput) => (errors[name] ? copy.fieldErrors[name] : undefined);
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="relative bg-surface rounded-2xl shadow-2xl p-8 grid md:grid-cols-2 gap-6">
+      <LeadFormField name="name" label={copy.labels.name} error={errorFor('name')}>
+        <input id="lead-name" name="name" autoComplete="name" required maxLength={120} aria-invalid={!!errors.name} aria-describedby={describedBy('name')} className={inputStyles} />
+      </LeadFormField>
+      <LeadFormField name="company" label={copy.labels.company} error={errorFor('company')}>
+        <input id="lead-company" name="company" autoComplete="organization" required maxLength={160} aria-invalid={!!errors.company} aria-describedby={describedBy('company')} className={inputStyles} />
+      </LeadFormField>
+      <LeadFormField name="role" label={copy.labels.role} error={errorFor('role')}>
+        <select id="lead-role" name="role" required defaultValue={defaultRole} aria-invalid={!!errors.role} aria-describedby={describedBy('role')} className={inputStyles}>
+          <option value="" disabled>{copy.rolePlaceholder}</option>
+          {leadRoles.map((role) => (
+            <option key={role} value={role}>{role}</option>
+          ))}
+        </select>
+      </LeadFormField>
+      <LeadFormField name="phone" label={copy.labels.phone} error={errorFor('phone')}>
+        <input id="lead-phone" name="phone" type="tel" autoComplete="tel" required placeholder={copy.phonePlaceholder} aria-invalid={!!errors.phone} aria-describedby={describedBy('phone')} className={inputStyles} />
+      </LeadFormField>
+      <LeadFormField name="territory" label={copy.labels.territory} error={errorFor('territory')}>
+        <input id="lead-territory" name="territory" required maxLength={120} placeholder={copy.territoryPlaceholder} aria-invalid={!!errors.territory} aria-describedby={describedBy('territory')} className={inputStyles} />
+      </LeadFormField>
+      <LeadFormField name="retailerCount" label={copy.labels.retailerCount} error={errorFor('retailerCount')}>
+        <input id="lead-retailerCount" name="retailerCount" type="number" inputMode="numeric" min={1} required aria-invalid={!!errors.retailerCount} aria-describedby={describedBy('retailerCount')} className={inputStyles} />
+      </LeadFormField>
+
+      {/* Honeypot: hidden from people and assistive tech, but bots fill it in. */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label htmlFor={`lead-${HONEYPOT_FIELD}`}>Website</label>
+        <input id={`lead-${HONEYPOT_FIELD}`} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      <div className="md:col-span-2 flex flex-col items-center gap-3">
+        <button
+          type="submit"
+          disabled={status === 'submitting'}
+          className="px-12 py-4 rounded-full font-semibold text-lg transition-all duration-300 bg-brand text-white hover:bg-brand-strong shadow-lg hover:shadow-xl disabled:opacity-60 cursor-pointer"
+        >
+          {status === 'submitting' ? copy.submitting : copy.submit}
+        </button>
+        {status === 'error' && (
+          <p role="alert" className="text-sm text-danger">{message}</p>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default LeadForm;
@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useInView } from 'framer-motion';
+import { useTrackView } from '@/components/TrackedSection';
+import { Counter, StatPill } from '@/components/ui';
+import type { SiteContent } from '@/lib/content/types';
+import { formatStat, type Locale } from '@/lib/i18n';
+import type { StatsResponse } from '@/lib/stats/types';
+
+interface LiveStatsProps {
+  locale: Locale;
+  stats: SiteContent['stats'];
+  initialStats: StatsResponse;
+}
+
+// The social-proof figures. They count up on screen and are refreshed from the
+// stats endpoint, so this section is a client island on the home page.
+const LiveStats: React.FC<LiveStatsProps> = ({ locale, stats, initialStats }) => {
+  const [liveStats, setLiveStats] = useState<StatsResponse>(initialStats);
+  const statsRef = useRef<HTMLElement>(null);
+  const statsInView = useInView(statsRef, { once: true });
+  useTrackView(statsRef, 'stats');
+
+  // The prerendered figures can be up to one revalidation period old, so refresh
+  // them from the stats endpoint once the section is on screen. On failure we
+  // simply keep showing the last known values.
+  useEffect(() => {
+    if (!statsInView) return;
+    const controller = new AbortController();
+
+    fetch('/api/stats', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(response)))
+      .then((next: StatsResponse) => {
+        if (!next.stale) setLiveStats(next);
+      })
+      .catch(() => undefined);
+
+    return () => controller.abort();
+  }, [statsInView]);
+
+  return (
+    <section ref={statsRef} className="py-16 px-6 bg-surface border-t border-b border-line">
+      <div className="max-w-screen-xl mx-auto">
+        <div className="flex flex-wrap justify-center gap-6">
+          {stats.map((stat, index) => (
+            <StatPill
+              key={stat.key}
+              label={stat.label}
+              value={
+                <Counter
+                  end={liveStats.figures[stat.key]}
+                  locale={locale}
+                  format={(value) => formatStat(stat, locale, value)}
+                />
+              }
+              delay={index * 0.1}
+            />
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default LiveStats;
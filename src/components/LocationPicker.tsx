@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState } from 'react';
+import { LocateFixed, Minus, Plus } from 'lucide-react';
+import { createProjection, isWithinBounds, nigeriaBounds, nigeriaOutline, polygonPath, type ScreenPoint } from '@/lib/geo';
+import type { ShopLocation } from '@/lib/onboarding/types';
+
+interface LocationPickerProps {
+  value: ShopLocation | null;
+  onChange: (location: ShopLocation) => void;
+  // Ids of hint or error text describing the map.
+  describedBy?: string;
+  invalid?: boolean;
+}
+
+type LocateStatus = 'idle' | 'locating' | 'error';
+
+const MAP_WIDTH = 600;
+const ZOOM_LEVELS = [1, 4, 16];
+const NUDGE_STEP = 8;
+
+const projection = createProjection(nigeriaBounds, MAP_WIDTH);
+const outlinePath = polygonPath(nigeriaOutline, projection);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const geolocationErrors: Record<number, string> = {
+  1: 'Location access was blocked. Allow it in your browser settings, or tap the map to drop a pin.',
+  2: 'Your device could not work out where you are. Tap the map to drop a pin instead.',
+  3: 'Finding your location took too long. Try again outdoors, or tap the map to drop a pin.',
+};
+
+// Pick a shop location with the device's GPS or by placing a pin on a map of
+// Nigeria. The view follows the pin and zooms in so it can be placed precisely.
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange, describedBy, invalid }) => {
+  const [zoomIndex, setZoomIndex] = useState<number>(0);
+  const [status, setStatus] = useState<LocateStatus>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const viewWidth = MAP_WIDTH / zoom;
+  const viewHeight = projection.height / zoom;
+  const pin = value ? projection.project(value) : null;
+  const focus = pin ?? { x: MAP_WIDTH / 2, y: projection.height / 2 };
+  const viewX = clamp(focus.x - viewWidth / 2, 0, MAP_WIDTH - viewWidth);
+  const viewY = clamp(focus.y - viewHeight / 2, 0, projection.height - viewHeight);
+
+  const placePin = (point: ScreenPoint) => {
+    const { lat, lng } = projection.unproject({
+      x: clamp(point.x, 0, MAP_WIDTH),
+      y: clamp(point.y, 0, projection.height),
+    });
+    onChange({ lat: Number(lat.toFixed(6)), lng: Number(lng.toFixed(6)), source: 'pin' });
+  };
+
+  const locate = () => {
+    if (!('geolocation' in navigator)) {
+      setStatus('error');
+      setMessage('This browser cannot share your location. Tap the map to drop a pin instead.');
+      return;
+    }
+
+    setStatus('locating');
+    setMessage('');
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const point = { lat: coords.latitude, lng: coords.longitude };
+        if (!isWithinBounds(point, nigeriaBounds)) {
+          setStatus('error');
+          setMessage('That location is outside Nigeria. Tap the map to drop a pin on your shop instead.');
+          return;
+        }
+        onChange({ ...point, accuracy: Math.round(coords.accuracy), source: 'gps' });
+        setZoomIndex(ZOOM_LEVELS.length - 1);
+        setStatus('idle');
+      },
+      (error) => {
+        setStatus('error');
+        setMessage(geolocationErrors[error.code] ?? geolocationErrors[2]);
+      },
+      { enableHighAccuracy: true, timeout: 15_000, maximumAge: 60_000 },
+    );
+  };
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    placePin({
+      x: viewX + ((event.clientX - rect.left) / rect.width) * viewWidth,
+      y: viewY + ((event.clientY - rect.top) / rect.height) * viewHeight,
+    });
+    if (!pin) setZoomIndex(1);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const step = NUDGE_STEP / zoom;
+    const moves: Record<string, ScreenPoint> = {
+      ArrowLeft: { x: focus.x - step, y: focus.y },
+      ArrowRight: { x: focus.x + step, y: focus.y },
+      ArrowUp: { x: focus.x, y: focus.y - step },
+      ArrowDown: { x: focus.x, y: focus.y + step },
+    };
+
+    if (moves[event.key]) {
+      event.preventDefault();
+      placePin(moves[event.key]);
+    } else if (event.key === '+' || event.key === '=') {
+      event.preventDefault();
+      setZoomIndex(Math.min(zoomIndex + 1, ZOOM_LEVELS.length - 1));
+    } else if (event.key === '-') {
+      event.preventDefault();
+      setZoomIndex(Math.max(zoomIndex - 1, 0));
+    }
+  };
+
+  const controlStyles = 'w-10 h-10 rounded-full bg-surface shadow-md flex items-center justify-center text-fg-soft hover:text-brand-fg disabled:opacity-40 cursor-pointer';
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={locate}
+        disabled={status === 'locating'}
+        className="mb-4 px-6 py-3 rounded-full font-semibold inline-flex items-center gap-2 border-2 border-brand-fg text-brand-fg hover:bg-brand-soft disabled:opacity-60 cursor-pointer"
+      >
+        <LocateFixed className="w-5 h-5" aria-hidden="true" />
+        {status === 'locating' ? 'Finding your location…' : 'Use my current location'}
+      </button>
+      {status === 'error' && (
+        <p role="alert" className="mb-4 text-sm text-danger">{message}</p>
+      )}
+
+      <div className="relative rounded-xl bg-sky-50 overflow-hidden">
+        <svg
+          viewBox={`${viewX} ${viewY} ${viewWidth} ${viewHeight}`}
+          className="w-full h-auto touch-none select-none cursor-crosshair focus:outline-none focus:ring-2 focus:ring-brand-fg"
+          role="application"
+          aria-label="Map of Nigeria. Tap to place a pin on your shop, use arrow keys to move the pin and plus or minus to zoom."
+          aria-describedby={describedBy}
+          aria-invalid={invalid}
+          tabIndex={0}
+          onClick={handleClick}
+          onKeyDown={handleKeyDown}
+        >
+          <path d={outlinePath} className="fill-brand-subtle stroke-brand-fg" strokeWidth={1.5 / zoom} />
+          {pin && (
+            <g transform={`translate(${pin.x} ${pin.y}) scale(${1 / zoom})`} className="pointer-events-none">
+              <path d="M0 0 C-3 -8 -9 -11 -9 -17 A9 9 0 1 1 9 -17 C9 -11 3 -8 0 0 Z" className="fill-danger stroke-surface" strokeWidth={1.5} />
+              <circle cx={0} cy={-17} r={3.5} className="fill-surface" />
+            </g>
+          )}
+        </svg>
+
+        <div className="absolute top-3 right-3 flex flex-col gap-2">
+          <button type="button" onClick={() => setZoomIndex(zoomIndex + 1)} disabled={zoomIndex === ZOOM_LEVELS.length - 1} aria-label="Zoom in" className={controlStyles}>
+            <Plus className="w-5 h-5" />
+          </button>
+          <button type="button" onClick={() => setZoomIndex(zoomIndex - 1)} disabled={zoomIndex === 0} aria-label="Zoom out" className={controlStyles}>
+            <Minus className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <p role="status" className="mt-2 text-sm text-fg-muted">
+        {value
+          ? `Pin at ${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}${value.source === 'gps' && value.accuracy !== undefined ? `, accurate to about ${value.accuracy} m` : ''}.`
+          : 'No location set yet.'}
+      </p>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { MDXRemoteProps } from 'next-mdx-remote/rsc';
+import MdxFeatureCard from '@/components/MdxFeatureCard';
+import { StatPill } from '@/components/ui';
+
+interface GridProps {
+  children: React.ReactNode;
+}
+
+// Lays out a row of StatPills, e.g. the headline results of a case study.
+const StatGrid: React.FC<GridProps> = ({ children }) => (
+  <div className="my-10 flex flex-wrap justify-center gap-6">{children}</div>
+);
+
+const FeatureGrid: React.FC<GridProps> = ({ children }) => (
+  <div className="my-10 grid md:grid-cols-2 gap-6">{children}</div>
+);
+
+// Components and element styles available to every post. Anything added here
+// can be used by name in content/blog and content/case-studies.
+export const mdxComponents: MDXRemoteProps['components'] = {
+  h2: (props) => <h2 className="text-3xl font-bold text-fg mt-12 mb-4" {...props} />,
+  h3: (props) => <h3 className="text-2xl font-bold text-fg mt-8 mb-3" {...props} />,
+  p: (props) => <p className="text-lg text-fg-soft leading-relaxed mb-6" {...props} />,
+  ul: (props) => <ul className="list-disc pl-6 mb-6 space-y-2 text-lg text-fg-soft" {...props} />,
+  ol: (props) => <ol className="list-decimal pl-6 mb-6 space-y-2 text-lg text-fg-soft" {...props} />,
+  a: (props) => <a className="text-brand-fg font-semibold underline underline-offset-2 hover:text-brand-fg-strong" {...props} />,
+  blockquote: (props) => (
+    <blockquote className="border-l-4 border-brand-fg bg-brand-subtle rounded-r-xl px-6 py-4 my-8 text-xl italic text-fg" {...props} />
+  ),
+  StatPill,
+  StatGrid,
+  FeatureCard: MdxFeatureCard,
+  FeatureGrid,
+};
@@ -0,0 +1,19 @@
+'use client';
+
+import React from 'react';
+import { FeatureCard } from '@/components/ui';
+import { contentIcons, type IconName } from '@/lib/content/icons';
+
+interface MdxFeatureCardProps {
+  icon: IconName;
+  title: string;
+  description: string;
+}
+
+// MDX can only pass serialisable props, so posts name the icon and it is
+// resolved here on the client.
+const MdxFeatureCard: React.FC<MdxFeatureCardProps> = ({ icon, title, description }) => (
+  <FeatureCard icon={contentIcons[icon] ?? contentIcons.Zap} title={title} description={description} />
+);
+
+export default MdxFeatureCard;
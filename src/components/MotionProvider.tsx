@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import { MotionConfig } from 'framer-motion';
+
+interface MotionProviderProps {
+  children: React.ReactNode;
+  // CSP nonce for the <style> tags framer-motion injects.
+  nonce?: string;
+}
+
+// Honours the visitor's "reduce motion" setting in every framer-motion
+// animation: movement is skipped and only opacity fades remain.
+const MotionProvider: React.FC<MotionProviderProps> = ({ children, nonce }) => (
+  <MotionConfig reducedMotion="user" nonce={nonce}>{children}</MotionConfig>
+);
+
+export default MotionProvider;
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useId, useState } from 'react';
+import { CloudOff, MailCheck } from 'lucide-react';
+import type { SiteContent } from '@/lib/content/types';
+import { useCases } from '@/lib/content/use-cases';
+import type { Locale } from '@/lib/i18n';
+import { HONEYPOT_FIELD } from '@/lib/leads/validate';
+import { validateSubscription } from '@/lib/newsletter/validate';
+
+// "queued": saved by the service worker while offline, sent once back online.
+type FormStatus = 'idle' | 'submitting' | 'success' | 'queued' | 'error';
+
+interface NewsletterSignupProps {
+  locale: Locale;
+  copy: SiteContent['newsletter'];
+  // "footer" sits on the dark footer; "card" is a light panel for page sections.
+  variant?: 'footer' | 'card';
+  // Level of the form's heading in the page outline.
+  headingLevel?: 2 | 3;
+}
+
+const variantStyles = {
+  footer: {
+    container: 'relative',
+    title: 'font-semibold mb-2',
+    text: 'text-gray-400',
+    input: 'bg-gray-800 border-gray-700 text-white placeholder:text-gray-500',
+    error: 'text-red-300',
+  },
+  card: {
+    container: 'relative bg-surface rounded-2xl shadow-2xl p-8 text-left',
+    title: 'text-2xl font-bold text-fg mb-2',
+    text: 'text-fg-muted',
+    input: 'bg-surface border-line-strong text-fg placeholder:text-fg-subtle',
+    error: 'text-danger',
+  },
+};
+
+// Signs visitors up for the market insights newsletter. Subscribing only sends
+// a confirmation email; nobody is added until they open the link in it.
+const NewsletterSignup: React.FC<NewsletterSignupProps> = ({ locale, copy, variant = 'footer', headingLevel = variant === 'footer' ? 2 : 3 }) => {
+  const id = useId();
+  const [status, setStatus] = useState<FormStatus>('idle');
+  const [message, setMessage] = useState<string>('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const styles = variantStyles[variant];
+  const Title = headingLevel === 2 ? 'h2' : 'h3';
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const data = new FormData(form);
+    const payload = {
+      email: data.get('email'),
+      interests: data.getAll('interests'),
+      locale,
+      [HONEYPOT_FIELD]: data.get(HONEYPOT_FIELD),
+    };
+
+    // Checked here as well as on the server, so the service worker only ever
+    // queues a signup the server will accept once the visitor is back online.
+    const result = validateSubscription(payload);
+    if (!result.ok) {
+      setErrors(result.errors);
+      setMessage('Please correct the highlighted fields.');
+      setStatus('error');
+      return;
+    }
+
+    setStatus('submitting');
+    setErrors({});
+
+    try {
+      const response = await fetch('/api/newsletter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors(body.fields ?? {});
+        setMessage(body.error ?? 'Something went wrong. Please try again.');
+        setStatus('error');
+        return;
+      }
+
+      form.reset();
+      setStatus(body.queued ? 'queued' : 'success');
+    } catch {
+      setMessage('We could not reach the server. Check your connection and try again.');
+      setStatus('error');
+    }
+  };
+
+  if (status === 'success' || status === 'queued') {
+    const Icon = status === 'queued' ? CloudOff : MailCheck;
+    return (
+      <div className={styles.container}>
+        <Title className={styles.title}>{copy.title}</Title>
+        <p role="status" className={`flex items-start gap-2 ${styles.text}`}>
+          <Icon className="w-5 h-5 shrink-0 mt-0.5" aria-hidden="true" />
+          {status === 'queued' ? copy.queued : copy.success}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className={styles.container}>
+      <Title className={styles.title}>{copy.title}</Title>
+      <p className={`${styles.text} mb-4`}>{copy.description}</p>
+
+      <label htmlFor={`${id}-email`} className="sr-only">{copy.emailLabel}</label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          id={`${id}-email`}
+          name="email"
+          type="email"
+          autoComplete="email"
+          required
+          maxLength={254}
+          placeholder={copy.emailPlaceholder}
+          aria-invalid={!!errors.email}
+          aria-describedby={errors.email ? `${id}-email-error` : undefined}
+          className={`flex-1 min-w-0 rounded-full border px-4 py-2.5 focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30 ${styles.input}`}
+        />
+        <button
+          type="submit"
+          disabled={status === 'submitting'}
+          className="px-6 py-2.5 rounded-full font-semibold bg-brand text-white hover:bg-brand-strong disabled:opacity-60 cursor-pointer"
+        >
+          {status === 'submitting' ? copy.submitting : copy.submit}
+        </button>
+      </div>
+      {errors.email && (
+        <p id={`${id}-email-error`} className={`mt-1 text-sm ${styles.error}`}>{errors.email}</p>
+      )}
+
+      <fieldset className="mt-4" aria-describedby={errors.interests ? `${id}-interests-error` : undefined}>
+        <legend className={`text-sm mb-2 ${styles.text}`}>{copy.interestsLabel}</legend>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {useCases.map((useCase) => (
+            <label key={useCase.slug} className={`inline-flex items-center gap-2 text-sm ${styles.text}`}>
+              <input type="checkbox" name="interests" value={useCase.slug} defaultChecked className="w-4 h-4 accent-brand" />
+              {useCase.title}
+            </label>
+          ))}
+        </div>
+        {errors.interests && (
+          <p id={`${id}-interests-error`} className={`mt-1 text-sm ${styles.error}`}>{errors.interests}</p>
+        )}
+      </fieldset>
+
+      {/* Honeypot: hidden from people and assistive tech, but bots fill it in. */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label htmlFor={`${id}-${HONEYPOT_FIELD}`}>Website</label>
+        <input id={`${id}-${HONEYPOT_FIELD}`} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      {status === 'error' && (
+        <p role="alert" className={`mt-3 text-sm ${styles.error}`}>{message}</p>
+      )}
+    </form>
+  );
+};
+
+export default NewsletterSignup;
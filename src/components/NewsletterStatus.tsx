@@ -0,0 +1,76 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CircleAlert, Mail, MailCheck, MailMinus, MailX } from 'lucide-react';
+import NewsletterSignup from '@/components/NewsletterSignup';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import type { SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import type { NewsletterAction, NewsletterPage } from '@/lib/newsletter/types';
+
+interface NewsletterStatusProps {
+  locale: Locale;
+  site: SiteContent;
+  page: NewsletterPage | NewsletterAction;
+  // The emailed link's token, posted by the confirm and unsubscribe buttons.
+  token?: string;
+}
+
+const icons: Record<NewsletterPage | NewsletterAction, React.ElementType> = {
+  confirm: Mail,
+  confirmed: MailCheck,
+  unsubscribe: MailMinus,
+  unsubscribed: MailX,
+  invalid: CircleAlert,
+};
+
+const isAction = (page: NewsletterPage | NewsletterAction): page is NewsletterAction => page === 'confirm' || page === 'unsubscribe';
+
+// Where the links in newsletter emails land. Rendered on the server; only the
+// signup form, offered again when someone isn't subscribed, ships to the browser.
+// The confirm and unsubscribe buttons are plain form posts, so they work
+// without JavaScript.
+const NewsletterStatus: React.FC<NewsletterStatusProps> = ({ locale, site, page, token }) => {
+  const { title, description } = isAction(page) ? site.newsletter.actions[page] : site.newsletter.pages[page];
+  const Icon = icons[page];
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+        <section className="pt-32 pb-20 px-6">
+          <div className="max-w-2xl mx-auto text-center">
+            <Icon className="w-14 h-14 text-brand-fg mx-auto mb-6" aria-hidden="true" />
+            <h1 className="text-4xl md:text-5xl font-bold text-fg mb-6 leading-tight">{title}</h1>
+            <p className="text-xl text-fg-muted leading-relaxed mb-10">{description}</p>
+            {isAction(page) && (
+              <form method="post" action={`/api/newsletter/${page}`} className="mb-10">
+                <input type="hidden" name="token" value={token} />
+                <button
+                  type="submit"
+                  className="px-6 py-3 rounded-full font-semibold text-lg bg-brand text-white hover:bg-brand-strong shadow-lg transition-colors cursor-pointer"
+                >
+                  {site.newsletter.actions[page].submit}
+                </button>
+              </form>
+            )}
+            {(page === 'unsubscribed' || page === 'invalid') && (
+              <div className="mb-10">
+                <NewsletterSignup locale={locale} copy={site.newsletter} variant="card" headingLevel={2} />
+              </div>
+            )}
+            <Link href={`/${locale}`} className="inline-flex items-center gap-2 font-semibold text-brand-fg">
+              <ArrowLeft className="w-5 h-5" aria-hidden="true" />
+              {site.newsletter.backHome}
+            </Link>
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default NewsletterStatus;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Mail, MessageCircle, RotateCw, WifiOff } from 'lucide-react';
+import LeadForm from '@/components/LeadForm';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import type { SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import { formatWhatsAppNumber, pickContact, whatsAppConfig, whatsAppUrl } from '@/lib/whatsapp';
+
+interface OfflineLandingProps {
+  locale: Locale;
+  site: SiteContent;
+}
+
+// Shown by the service worker in place of pages that weren't saved on the
+// device. Everything here works offline: the contact links open the phone's
+// own apps, and the forms queue their submissions until the connection returns.
+const OfflineLanding: React.FC<OfflineLandingProps> = ({ locale, site }) => {
+  const { offline, footer } = site;
+  const whatsApp = pickContact(whatsAppConfig.contacts, 'sales', locale);
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+        <section className="pt-32 pb-20 px-6">
+          <div className="max-w-3xl mx-auto">
+            <div className="text-center mb-12">
+              <WifiOff className="w-14 h-14 text-brand-fg mx-auto mb-6" aria-hidden="true" />
+              <h1 className="text-4xl md:text-5xl font-bold text-fg mb-6 leading-tight">{offline.title}</h1>
+              <p className="text-xl text-fg-muted leading-relaxed mb-8">{offline.description}</p>
+              {/* An empty href reloads the page the visitor was trying to open. */}
+              <a href="" className="inline-flex items-center gap-2 font-semibold text-brand-fg">
+                <RotateCw className="w-5 h-5" aria-hidden="true" />
+                {offline.retry}
+              </a>
+            </div>
+
+            <div className="bg-surface rounded-2xl shadow-lg p-8 mb-12">
+              <h2 className="text-2xl font-bold text-fg mb-6">{offline.contactTitle}</h2>
+              <ul className="grid sm:grid-cols-2 gap-6">
+                <li className="flex items-start gap-3">
+                  <Mail className="w-6 h-6 text-brand-fg shrink-0 mt-0.5" aria-hidden="true" />
+                  <div>
+                    <p className="text-sm text-fg-muted">{offline.emailLabel}</p>
+                    <a href={`mailto:${footer.email}`} className="font-semibold text-fg hover:text-brand-fg">{footer.email}</a>
+                  </div>
+                </li>
+                <li className="flex items-start gap-3">
+                  <MessageCircle className="w-6 h-6 text-brand-fg shrink-0 mt-0.5" aria-hidden="true" />
+                  <div>
+                    <p className="text-sm text-fg-muted">{offline.whatsAppLabel}</p>
+                    <p className="flex flex-wrap gap-x-3">
+                      <a href={whatsAppUrl(whatsApp.number)} className="font-semibold text-fg hover:text-brand-fg">
+                        {formatWhatsAppNumber(whatsApp.number)}
+                      </a>
+                      <a href={`tel:+${whatsApp.number}`} className="text-brand-fg hover:underline">
+                        {offline.callLabel}
+                      </a>
+                    </p>
+                  </div>
+                </li>
+              </ul>
+            </div>
+
+            <h2 className="text-2xl font-bold text-fg mb-6 text-center">{offline.formTitle}</h2>
+            <LeadForm copy={site.leadForm} />
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default OfflineLanding;
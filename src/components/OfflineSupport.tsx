@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect } from 'react';
+import { registerServiceWorker } from '@/lib/pwa/client';
+
+// Installs the service worker that keeps pages and queued form submissions
+// available offline. Production only: in development it would serve stale
+// bundles over hot reloading.
+const OfflineSupport: React.FC = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production') return;
+    return registerServiceWorker();
+  }, []);
+
+  return null;
+};
+
+export default OfflineSupport;
@@ -0,0 +1,103 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ArrowRight, Clock, MapPin } from 'lucide-react';
+import { MDXRemote } from 'next-mdx-remote/rsc';
+import { mdxComponents } from '@/components/MdxComponents';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { Button } from '@/components/ui';
+import type { SiteContent } from '@/lib/content/types';
+import { formatDate, type Locale } from '@/lib/i18n';
+import type { Post } from '@/lib/posts/types';
+
+interface PostArticleProps {
+  locale: Locale;
+  site: SiteContent;
+  post: Post;
+  // Localised title of the post's segment, when it has one.
+  segmentTitle?: string;
+}
+
+const backLabels: Record<Post['collection'], string> = { blog: 'All posts', 'case-studies': 'All case studies' };
+
+// Rendered on the server: the MDX body is compiled here and only the
+// interactive components it uses ship to the browser.
+const PostArticle: React.FC<PostArticleProps> = ({ locale, site, post, segmentTitle }) => {
+  const listing = `/${locale}/${post.collection}`;
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="outline-none">
+        <article className="pt-32 pb-20 px-6">
+          <div className="max-w-3xl mx-auto">
+            <Link href={listing} className="inline-flex items-center gap-2 text-brand-fg font-semibold mb-8 hover:text-brand-fg-strong">
+              <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+              {backLabels[post.collection]}
+            </Link>
+
+            <header className="mb-12">
+              <div className="flex flex-wrap gap-2 mb-6">
+                {post.segment && (
+                  <Link
+                    href={`/${locale}/solutions/${post.segment}`}
+                    className="bg-brand-soft text-brand-fg-strong px-3 py-1 rounded-full text-sm font-bold hover:bg-brand-soft-line"
+                  >
+                    {segmentTitle ?? post.segment}
+                  </Link>
+                )}
+                {post.territory && (
+                  <span className="inline-flex items-center gap-1 bg-surface text-fg-soft px-3 py-1 rounded-full text-sm font-semibold border border-line">
+                    <MapPin className="w-4 h-4" aria-hidden="true" />
+                    {post.territory}
+                  </span>
+                )}
+              </div>
+              <h1 className="text-4xl md:text-5xl font-bold text-fg mb-6 leading-tight">{post.title}</h1>
+              <p className="text-xl text-fg-muted leading-relaxed mb-6">{post.description}</p>
+              <div className="flex flex-wrap items-center gap-2 text-fg-subtle">
+                <span className="font-semibold text-fg-soft">{post.author}</span>
+                <span aria-hidden="true">·</span>
+                <time dateTime={post.date}>{formatDate(post.date, locale)}</time>
+                <span aria-hidden="true">·</span>
+                <span className="inline-flex items-center gap-1">
+                  <Clock className="w-4 h-4" aria-hidden="true" />
+                  {post.readingMinutes} min read
+                </span>
+              </div>
+            </header>
+
+            <MDXRemote source={post.body} components={mdxComponents} />
+
+            {post.tags.length > 0 && (
+              <ul aria-label="Topics" className="flex flex-wrap gap-2 mt-12 pt-8 border-t border-line">
+                {post.tags.map((tag) => (
+                  <li key={tag}>
+                    <Link
+                      href={`${listing}?tag=${encodeURIComponent(tag)}`}
+                      className="inline-block bg-surface text-fg-soft px-4 py-2 rounded-full text-sm font-semibold border border-line-strong hover:border-brand-fg"
+                    >
+                      #{tag}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-12 bg-gradient-to-br from-brand via-brand-strong to-brand-deep rounded-2xl p-10 text-center">
+              <h2 className="text-3xl font-bold text-white mb-6">See what RAJA finds in your territory</h2>
+              <Button href={`/${locale}#walkthrough`} variant="secondary" trackingId={`${post.collection}-${post.slug}`}>
+                Request a walkthrough <ArrowRight className="w-5 h-5" />
+              </Button>
+            </div>
+          </div>
+        </article>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default PostArticle;
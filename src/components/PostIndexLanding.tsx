@@ -0,0 +1,60 @@
+import React from 'react';
+import Link from 'next/link';
+import PostList from '@/components/PostList';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import type { PostIndexCopy, SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import type { Collection, PostSummary } from '@/lib/posts/types';
+
+interface PostIndexLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  copy: PostIndexCopy;
+  collection: Collection;
+  posts: PostSummary[];
+  // Use-case titles by slug, for the segment filter.
+  segments: Record<string, string>;
+}
+
+const collectionLabels: Record<Collection, string> = { blog: 'Blog', 'case-studies': 'Case studies' };
+
+// Rendered on the server; only the filtered post list ships to the browser.
+const PostIndexLanding: React.FC<PostIndexLandingProps> = ({ locale, site, copy, collection, posts, segments }) => (
+  <div className="bg-surface-muted overflow-x-hidden min-h-screen flex flex-col">
+    <SiteHeader locale={locale} nav={site.nav} />
+
+    <main id="main-content" tabIndex={-1} className="flex-1 outline-none">
+      <section className="pt-32 pb-20 px-6">
+        <div className="max-w-screen-xl mx-auto">
+          <div className="max-w-3xl mx-auto text-center mb-12">
+            <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+              {copy.hero.badge}
+            </div>
+            <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">{copy.hero.title}</h1>
+            <p className="text-xl text-fg-muted leading-relaxed">{copy.hero.description}</p>
+          </div>
+
+          <nav aria-label="Collections" className="flex justify-center gap-6 mb-10 border-b border-line">
+            {(Object.keys(collectionLabels) as Collection[]).map((entry) => (
+              <Link
+                key={entry}
+                href={`/${locale}/${entry}`}
+                aria-current={entry === collection ? 'page' : undefined}
+                className={`pb-3 font-semibold border-b-2 -mb-px ${entry === collection ? 'border-brand-fg text-brand-fg' : 'border-transparent text-fg-muted hover:text-brand-fg'}`}
+              >
+                {collectionLabels[entry]}
+              </Link>
+            ))}
+          </nav>
+
+          <PostList locale={locale} collection={collection} posts={posts} segments={segments} />
+        </div>
+      </section>
+    </main>
+
+    <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+  </div>
+);
+
+export default PostIndexLanding;
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { Clock } from 'lucide-react';
+import { FilterChip } from '@/components/ui';
+import { formatDate, type Locale } from '@/lib/i18n';
+import type { Collection, PostSummary } from '@/lib/posts/types';
+import { replaceQueryParams, useSearchString } from '@/lib/query-string';
+
+interface PostListProps {
+  locale: Locale;
+  collection: Collection;
+  posts: PostSummary[];
+  // Use-case titles by slug, for the segment filter.
+  segments: Record<string, string>;
+}
+
+// The post grid and its segment and topic filters: the only part of a listing
+// page that runs in the browser. Without JavaScript every post is listed.
+const PostList: React.FC<PostListProps> = ({ locale, collection, posts, segments }) => {
+  // Filters live in the query string so a filtered list can be shared.
+  const params = new URLSearchParams(useSearchString());
+  const tag = params.get('tag');
+  const segment = params.get('segment');
+
+  const tags = useMemo(() => [...new Set(posts.flatMap((post) => post.tags))].sort(), [posts]);
+  const postSegments = useMemo(
+    () => [...new Set(posts.flatMap((post) => (post.segment ? [post.segment] : [])))],
+    [posts],
+  );
+  const visible = posts.filter(
+    (post) => (!tag || post.tags.includes(tag)) && (!segment || post.segment === segment),
+  );
+
+  return (
+    <>
+      <div className="space-y-4 mb-10">
+        {postSegments.length > 0 && (
+          <div role="group" aria-label="Filter by segment" className="flex flex-wrap justify-center gap-2">
+            <FilterChip active={!segment} onClick={() => replaceQueryParams({ tag, segment: null })}>All segments</FilterChip>
+            {postSegments.map((entry) => (
+              <FilterChip key={entry} active={segment === entry} onClick={() => replaceQueryParams({ tag, segment: entry })}>
+                {segments[entry] ?? entry}
+              </FilterChip>
+            ))}
+          </div>
+        )}
+        {tags.length > 0 && (
+          <div role="group" aria-label="Filter by topic" className="flex flex-wrap justify-center gap-2">
+            <FilterChip active={!tag} onClick={() => replaceQueryParams({ tag: null, segment })}>All topics</FilterChip>
+            {tags.map((entry) => (
+              <FilterChip key={entry} active={tag === entry} onClick={() => replaceQueryParams({ tag: entry, segment })}>
+                #{entry}
+              </FilterChip>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8" aria-live="polite">
+        {visible.map((post) => (
+          <Link
+            key={post.slug}
+            href={`/${locale}/${collection}/${post.slug}`}
+            className="group bg-surface rounded-2xl p-8 shadow-lg hover:shadow-2xl transition-shadow duration-300 flex flex-col"
+          >
+            <div className="flex flex-wrap items-center gap-2 text-sm text-fg-subtle mb-4">
+              <time dateTime={post.date}>{formatDate(post.date, locale)}</time>
+              <span aria-hidden="true">·</span>
+              <span className="inline-flex items-center gap-1">
+                <Clock className="w-4 h-4" aria-hidden="true" />
+                {post.readingMinutes} min read
+              </span>
+            </div>
+            <h2 className="text-2xl font-bold text-fg mb-3 group-hover:text-brand-fg transition-colors">{post.title}</h2>
+            <p className="text-fg-muted leading-relaxed mb-6">{post.description}</p>
+            <div className="mt-auto flex flex-wrap gap-2">
+              {post.segment && (
+                <span className="bg-brand-soft text-brand-fg-strong px-3 py-1 rounded-full text-xs font-bold">
+                  {segments[post.segment] ?? post.segment}
+                </span>
+              )}
+              {post.territory && (
+                <span className="bg-surface-sunken text-fg-soft px-3 py-1 rounded-full text-xs font-semibold">{post.territory}</span>
+              )}
+            </div>
+          </Link>
+        ))}
+      </div>
+      {visible.length === 0 && (
+        <p className="text-center text-fg-muted">
+          Nothing matches these filters yet.{' '}
+          <button type="button" onClick={() => replaceQueryParams({ tag: null, segment: null })} className="text-brand-fg font-semibold underline cursor-pointer">
+            Clear filters
+          </button>
+        </p>
+      )}
+    </>
+  );
+};
+
+export default PostList;
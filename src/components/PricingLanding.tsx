@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState } from 'react';
+import LeadForm from '@/components/LeadForm';
+import PricingTable from '@/components/PricingTable';
+import RoiEstimator from '@/components/RoiEstimator';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { SectionHeader } from '@/components/ui';
+import type { PricingContent, SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import { billingPeriods, currencies, type BillingPeriod, type Currency, type FeatureMatrixRow } from '@/lib/pricing';
+
+interface PricingLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  content: PricingContent;
+  matrix: FeatureMatrixRow[];
+  efficiencyGain: number;
+}
+
+interface ToggleProps<T extends string> {
+  label: string;
+  options: readonly T[];
+  value: T;
+  format: (option: T) => string;
+  onChange: (option: T) => void;
+}
+
+const Toggle = <T extends string>({ label, options, value, format, onChange }: ToggleProps<T>) => (
+  <div role="group" aria-label={label} className="inline-flex bg-surface rounded-full p-1 shadow-md">
+    {options.map((option) => (
+      <button
+        key={option}
+        type="button"
+        aria-pressed={option === value}
+        onClick={() => onChange(option)}
+        className={`px-5 py-2 rounded-full font-semibold text-sm transition-colors cursor-pointer ${option === value ? 'bg-brand text-white' : 'text-fg-soft hover:text-brand-fg'
+          }`}
+      >
+        {format(option)}
+      </button>
+    ))}
+  </div>
+);
+
+const currencyLabels: Record<Currency, string> = { NGN: '₦ NGN', USD: '$ USD' };
+
+const PricingLanding: React.FC<PricingLandingProps> = ({ locale, site, content, matrix, efficiencyGain }) => {
+  const [billing, setBilling] = useState<BillingPeriod>('monthly');
+  const [currency, setCurrency] = useState<Currency>('NGN');
+  const { hero, sections, labels } = content;
+  const gainLabel = site.stats.find((stat) => stat.key === 'efficiencyGain')?.label ?? 'Distribution Efficiency Gain';
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="outline-none">
+        {/* Hero and Plans */}
+        <section className="pt-32 pb-20 px-6 bg-gradient-to-b from-surface-muted to-surface">
+          <div className="max-w-screen-xl mx-auto">
+            <div className="max-w-3xl mx-auto text-center mb-12">
+              <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+                {hero.badge}
+              </div>
+              <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">{hero.title}</h1>
+              <p className="text-xl text-fg-muted mb-8 leading-relaxed">{hero.description}</p>
+              <div className="flex flex-wrap justify-center gap-4">
+                <Toggle label={labels.billingPeriod} options={billingPeriods} value={billing} format={(option) => labels.billing[option]} onChange={setBilling} />
+                <Toggle label={labels.currency} options={currencies} value={currency} format={(option) => currencyLabels[option]} onChange={setCurrency} />
+              </div>
+              {currency === 'USD' && (
+                <p className="mt-3 text-xs text-fg-subtle">{labels.usdNote}</p>
+              )}
+            </div>
+            <SectionHeader title={sections.matrix.title} subtitle={sections.matrix.subtitle} />
+            <PricingTable locale={locale} billing={billing} currency={currency} matrix={matrix} matrixTitle={sections.matrix.title} plansCopy={content.plans} labels={labels} />
+          </div>
+        </section>
+
+        {/* ROI Estimator */}
+        <section id="roi" className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.roi.title} subtitle={sections.roi.subtitle} />
+            <div className="max-w-5xl mx-auto">
+              <RoiEstimator locale={locale} billing={billing} currency={currency} efficiencyGain={efficiencyGain} gainLabel={gainLabel} copy={content.estimator} />
+            </div>
+          </div>
+        </section>
+
+        {/* Final CTA */}
+        <section id="walkthrough" className="py-20 px-6 bg-gradient-to-br from-brand via-brand-strong to-brand-deep">
+          <div className="max-w-4xl mx-auto text-center">
+            <h2 className="text-5xl font-bold text-white mb-6">{sections.cta.title}</h2>
+            {sections.cta.subtitle && <p className="text-xl text-green-100 mb-8">{sections.cta.subtitle}</p>}
+            <LeadForm copy={site.leadForm} />
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default PricingLanding;
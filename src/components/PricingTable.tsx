@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import { Check, Minus } from 'lucide-react';
+import { Button } from '@/components/ui';
+import type { PricingContent } from '@/lib/content/types';
+import { formatNumber, type Locale } from '@/lib/i18n';
+import {
+  ANNUAL_MONTHS_CHARGED,
+  planPrice,
+  plans,
+  type BillingPeriod,
+  type Currency,
+  type FeatureMatrixRow,
+  type PlanLimits,
+} from '@/lib/pricing';
+import { setChatContext } from '@/lib/whatsapp';
+
+interface PricingTableProps {
+  locale: Locale;
+  billing: BillingPeriod;
+  currency: Currency;
+  matrix: FeatureMatrixRow[];
+  matrixTitle: string;
+  plansCopy: PricingContent['plans'];
+  labels: PricingContent['labels'];
+}
+
+const limitKeys: (keyof PlanLimits)[] = ['retailers', 'territories', 'seats'];
+
+const PricingTable: React.FC<PricingTableProps> = ({ locale, billing, currency, matrix, matrixTitle, plansCopy, labels }) => {
+  const money = (value: number) =>
+    formatNumber(value, locale, { style: 'currency', currency, maximumFractionDigits: 0 });
+  const limit = (value: number | null) => (value === null ? labels.unlimited : formatNumber(value, locale));
+
+  return (
+    <div className="space-y-16">
+      <div className="grid md:grid-cols-3 gap-8">
+        {plans.map((plan) => {
+          const price = planPrice(plan, billing, currency);
+          return (
+            <div
+              key={plan.id}
+              // The WhatsApp widget asks about the plan the visitor is looking at.
+              onPointerEnter={() => setChatContext({ plan: plan.name })}
+              onFocus={() => setChatContext({ plan: plan.name })}
+              className={`relative bg-surface rounded-2xl p-8 shadow-lg flex flex-col ${plan.highlighted ? 'ring-2 ring-brand-fg' : ''}`}
+            >
+              {plan.highlighted && (
+                <span className="absolute -top-3 left-8 bg-brand text-white text-xs font-bold px-3 py-1 rounded-full">
+                  {labels.mostPopular}
+                </span>
+              )}
+              <h3 className="text-2xl font-bold text-fg mb-2">{plan.name}</h3>
+              <p className="text-fg-muted mb-6">{plansCopy[plan.id].description}</p>
+              <div className="mb-6 min-h-[5rem]">
+                {price ? (
+                  <>
+                    <div className="text-4xl font-bold text-fg">
+                      {money(price.perMonth)}
+                      <span className="text-base font-semibold text-fg-subtle"> {labels.perMonth}</span>
+                    </div>
+                    <div className="text-sm text-fg-subtle mt-1">
+                      {billing === 'annual'
+                        ? labels.billedYearly
+                            .replace('{amount}', money(price.billed))
+                            .replace('{free}', formatNumber(12 - ANNUAL_MONTHS_CHARGED, locale))
+                        : labels.billedMonthly}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-4xl font-bold text-fg">{labels.custom}</div>
+                )}
+              </div>
+              <ul className="space-y-2 mb-8 text-fg-soft">
+                {limitKeys.map((key) => (
+                  <li key={key} className="flex items-center gap-2">
+                    <Check className="w-5 h-5 text-brand-fg" aria-hidden="true" />
+                    {limit(plan.limits[key])} {labels.limits[key].toLowerCase()}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                href="#walkthrough"
+                variant={plan.highlighted ? 'primary' : 'secondary'}
+                className="mt-auto justify-center"
+                trackingId={`pricing-${plan.id}`}
+              >
+                {price ? labels.requestWalkthrough : labels.talkToSales}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-surface rounded-2xl shadow-lg overflow-x-auto">
+        <table className="w-full text-left">
+          <caption className="sr-only">{matrixTitle}</caption>
+          <thead>
+            <tr className="border-b border-line">
+              <th scope="col" className="p-4 text-fg-subtle font-semibold">{labels.plan}</th>
+              {plans.map((plan) => (
+                <th key={plan.id} scope="col" className="p-4 text-fg font-bold text-center">{plan.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {limitKeys.map((key) => (
+              <tr key={key} className="border-b border-line-subtle">
+                <th scope="row" className="p-4 font-semibold text-fg-soft">{labels.limits[key]}</th>
+                {plans.map((plan) => (
+                  <td key={plan.id} className="p-4 text-center text-fg">{limit(plan.limits[key])}</td>
+                ))}
+              </tr>
+            ))}
+            {matrix.map((row) => (
+              <tr key={row.feature.id} className="border-b border-line-subtle last:border-0">
+                <th scope="row" className="p-4 font-semibold text-fg-soft">{row.feature.title}</th>
+                {plans.map((plan) => (
+                  <td key={plan.id} className="p-4">
+                    {row.included[plan.id] ? (
+                      <Check className="w-5 h-5 mx-auto text-brand-fg" aria-label={labels.included} />
+                    ) : (
+                      <Minus className="w-5 h-5 mx-auto text-line-strong" aria-label={labels.notIncluded} />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PricingTable;
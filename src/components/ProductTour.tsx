@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { ChevronLeft, ChevronRight, Maximize2, X } from 'lucide-react';
+import { trapTabKey } from '@/lib/a11y/focus';
+import type { ProductTourTab, SiteContent } from '@/lib/content/types';
+
+interface ProductTourProps {
+  tabs: ProductTourTab[];
+  copy: SiteContent['tour'];
+}
+
+interface ScreenshotProps {
+  tab: ProductTourTab;
+  sizes: string;
+  activeHotspot: number | null;
+  onSelectHotspot: (index: number) => void;
+  idPrefix: string;
+}
+
+// Renders a screenshot with numbered markers laid over it. Marker positions are
+// percentages, so they stay on target at every rendered size.
+const Screenshot: React.FC<ScreenshotProps> = ({ tab, sizes, activeHotspot, onSelectHotspot, idPrefix }) => (
+  <div className="relative">
+    <Image
+      src={tab.image.src}
+      alt={tab.image.alt}
+      width={tab.image.width}
+      height={tab.image.height}
+      sizes={sizes}
+      className="w-full h-auto rounded-xl border border-line"
+    />
+    {tab.hotspots.map((hotspot, index) => {
+      const active = activeHotspot === index;
+      return (
+        <button
+          key={hotspot.title}
+          type="button"
+          onClick={() => onSelectHotspot(index)}
+          aria-label={`${index + 1}. ${hotspot.title}`}
+          aria-pressed={active}
+          aria-describedby={`${idPrefix}-hotspot-${index}`}
+          style={{ left: `${hotspot.x}%`, top: `${hotspot.y}%` }}
+          className={`absolute -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full text-sm font-bold flex items-center justify-center shadow-lg ring-4 transition-colors cursor-pointer focus:outline-none focus-visible:ring-brand-fg ${active ? 'bg-brand text-white ring-brand-soft-line' : 'bg-surface text-brand-fg ring-brand-fg/30 hover:bg-brand-subtle'
+            }`}
+        >
+          {index + 1}
+        </button>
+      );
+    })}
+  </div>
+);
+
+interface HotspotNotesProps {
+  tab: ProductTourTab;
+  activeHotspot: number | null;
+  onSelectHotspot: (index: number) => void;
+  idPrefix: string;
+  dark?: boolean;
+}
+
+const HotspotNotes: React.FC<HotspotNotesProps> = ({ tab, activeHotspot, onSelectHotspot, idPrefix, dark = false }) => (
+  <ol className="space-y-2">
+    {tab.hotspots.map((hotspot, index) => {
+      const active = activeHotspot === index;
+      const tone = dark
+        ? active ? 'bg-white/15' : 'hover:bg-white/10'
+        : active ? 'bg-brand-subtle border-brand-soft-line' : 'border-transparent hover:bg-surface-muted';
+      return (
+        <li key={hotspot.title}>
+          <button
+            type="button"
+            onClick={() => onSelectHotspot(index)}
+            className={`w-full text-left flex gap-3 p-3 rounded-xl border transition-colors cursor-pointer ${dark ? 'border-transparent' : ''} ${tone}`}
+          >
+            <span className={`shrink-0 w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center ${dark ? 'bg-white text-brand' : 'bg-brand text-white'}`}>
+              {index + 1}
+            </span>
+            <span id={`${idPrefix}-hotspot-${index}`}>
+              <span className={`block font-semibold ${dark ? 'text-white' : 'text-fg'}`}>{hotspot.title}</span>
+              <span className={`block text-sm ${dark ? 'text-gray-300' : 'text-fg-muted'}`}>{hotspot.description}</span>
+            </span>
+          </button>
+        </li>
+      );
+    })}
+  </ol>
+);
+
+const ProductTour: React.FC<ProductTourProps> = ({ tabs, copy }) => {
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const [activeHotspot, setActiveHotspot] = useState<number | null>(null);
+  const [lightboxOpen, setLightboxOpen] = useState<boolean>(false);
+  const tabRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const openerRef = useRef<HTMLButtonElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  const tab = tabs[activeIndex];
+
+  const selectTab = (index: number, focus: boolean = false) => {
+    const next = (index + tabs.length) % tabs.length;
+    setActiveIndex(next);
+    setActiveHotspot(null);
+    if (focus) tabRefs.current[next]?.focus();
+  };
+
+  // Arrow keys, Home and End move between tabs, following the WAI-ARIA tabs pattern.
+  const handleTabKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const moves: Record<string, number> = {
+      ArrowLeft: activeIndex - 1,
+      ArrowRight: activeIndex + 1,
+      Home: 0,
+      End: tabs.length - 1,
+    };
+    if (event.key in moves) {
+      event.preventDefault();
+      selectTab(moves[event.key], true);
+    }
+  };
+
+  const closeLightbox = () => {
+    setLightboxOpen(false);
+    openerRef.current?.focus();
+  };
+
+  useEffect(() => {
+    if (!lightboxOpen) return;
+    closeRef.current?.focus();
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, [lightboxOpen]);
+
+  const handleDialogKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      closeLightbox();
+    } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      selectTab(activeIndex + (event.key === 'ArrowLeft' ? -1 : 1));
+    } else {
+      trapTabKey(event, dialogRef.current);
+    }
+  };
+
+  const toggleHotspot = (index: number) => setActiveHotspot(activeHotspot === index ? null : index);
+
+  return (
+    <div className="bg-surface rounded-2xl shadow-lg p-6 md:p-8">
+      <div role="tablist" aria-label={copy.tabsLabel} onKeyDown={handleTabKeyDown} className="flex flex-wrap justify-center gap-2 mb-8">
+        {tabs.map((entry, index) => {
+          const selected = index === activeIndex;
+          return (
+            <button
+              key={entry.id}
+              ref={(element) => {
+                tabRefs.current[index] = element;
+              }}
+              type="button"
+              role="tab"
+              id={`tour-tab-${entry.id}`}
+              aria-selected={selected}
+              aria-controls={`tour-panel-${entry.id}`}
+              tabIndex={selected ? 0 : -1}
+              onClick={() => selectTab(index)}
+              className={`px-5 py-2 rounded-full font-semibold transition-colors cursor-pointer ${selected ? 'bg-brand text-white' : 'bg-surface-sunken text-fg-soft hover:bg-brand-subtle hover:text-brand-fg'
+                }`}
+            >
+              {entry.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div
+        role="tabpanel"
+        id={`tour-panel-${tab.id}`}
+        aria-labelledby={`tour-tab-${tab.id}`}
+        className="grid lg:grid-cols-3 gap-8 items-start"
+      >
+        <figure className="lg:col-span-2">
+          <Screenshot
+            tab={tab}
+            sizes="(min-width: 1280px) 800px, (min-width: 1024px) 66vw, 100vw"
+            activeHotspot={activeHotspot}
+            onSelectHotspot={toggleHotspot}
+            idPrefix="tour"
+          />
+          <figcaption className="mt-4 flex flex-wrap items-start justify-between gap-4 text-fg-muted">
+            <span className="flex-1 min-w-0">{tab.caption}</span>
+            <button
+              ref={openerRef}
+              type="button"
+              onClick={() => setLightboxOpen(true)}
+              className="shrink-0 inline-flex items-center gap-2 text-sm font-semibold text-brand-fg hover:underline cursor-pointer"
+            >
+              <Maximize2 className="w-4 h-4" />
+              {copy.viewFullSize}
+            </button>
+          </figcaption>
+        </figure>
+        <HotspotNotes tab={tab} activeHotspot={activeHotspot} onSelectHotspot={toggleHotspot} idPrefix="tour" />
+      </div>
+
+      {lightboxOpen && (
+        <div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label={copy.dialogLabel.replace('{view}', tab.label)}
+          onKeyDown={handleDialogKeyDown}
+          onClick={(event) => {
+            if (event.target === event.currentTarget) closeLightbox();
+          }}
+          className="fixed inset-0 z-[60] bg-gray-900/90 flex flex-col p-4 md:p-8 overflow-y-auto"
+        >
+          <div className="flex items-center justify-between mb-4 text-white">
+            <span className="font-semibold">{tab.label} · {activeIndex + 1} / {tabs.length}</span>
+            <button ref={closeRef} type="button" onClick={closeLightbox} aria-label={copy.close} className="p-2 rounded-full hover:bg-white/10 cursor-pointer">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <div className="flex-1 grid xl:grid-cols-4 gap-6 items-center max-w-screen-2xl w-full mx-auto">
+            <div className="xl:col-span-3 flex items-center gap-2">
+              <button type="button" onClick={() => selectTab(activeIndex - 1)} aria-label={copy.previous} className="shrink-0 p-2 rounded-full text-white hover:bg-white/10 cursor-pointer">
+                <ChevronLeft className="w-8 h-8" />
+              </button>
+              <div className="flex-1 min-w-0">
+                <Screenshot tab={tab} sizes="(min-width: 1280px) 75vw, 90vw" activeHotspot={activeHotspot} onSelectHotspot={toggleHotspot} idPrefix="lightbox" />
+              </div>
+              <button type="button" onClick={() => selectTab(activeIndex + 1)} aria-label={copy.next} className="shrink-0 p-2 rounded-full text-white hover:bg-white/10 cursor-pointer">
+                <ChevronRight className="w-8 h-8" />
+              </button>
+            </div>
+            <div>
+              <p className="text-gray-200 mb-4">{tab.caption}</p>
+              <HotspotNotes tab={tab} activeHotspot={activeHotspot} onSelectHotspot={toggleHotspot} idPrefix="lightbox" dark />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductTour;
@@ -0,0 +1,268 @@
+import React from 'react';
+import { ArrowRight, CheckCircle } from 'lucide-react';
+import Link from 'next/link';
+import LazyCoverageMap from '@/components/LazyCoverageMap';
+import LeadForm from '@/components/LeadForm';
+import LiveStats from '@/components/LiveStats';
+import NewsletterSignup from '@/components/NewsletterSignup';
+import ForecastCalculator from '@/components/ForecastCalculator';
+import ProductTour from '@/components/ProductTour';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import TrackedSection from '@/components/TrackedSection';
+import { Button, FAQItem, FeatureCard, Reveal, SectionHeader } from '@/components/ui';
+import { contentIcons } from '@/lib/content/icons';
+import type { HeroCardTone, LandingContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import type { StatsResponse } from '@/lib/stats/types';
+
+// Types
+interface RajaLandingProps {
+  content: LandingContent;
+  locale: Locale;
+  stats: StatsResponse;
+}
+
+const heroCardTones: Record<HeroCardTone, { card: string; icon: string }> = {
+  green: { card: 'bg-brand-subtle border-brand-subtle-line', icon: 'text-brand-fg' },
+  blue: { card: 'bg-blue-50 border-blue-100 dark:bg-blue-950/40 dark:border-blue-900', icon: 'text-blue-600 dark:text-blue-400' },
+  purple: { card: 'bg-purple-50 border-purple-100 dark:bg-purple-950/40 dark:border-purple-900', icon: 'text-purple-600 dark:text-purple-400' },
+};
+
+// Main Landing Page. A server component: the copy is rendered to HTML and only
+// the interactive parts (header, stats, tour, map, calculator, FAQ, forms and
+// the animation and tracking wrappers) hydrate as client islands.
+const RajaLanding: React.FC<RajaLandingProps> = ({ content, locale, stats: initialStats }) => {
+  const { site, howItWorksSteps, features, productTour, useCases, whyRaja, faqItems } = content;
+  const { nav, hero, stats, sections, newsletter, footer } = site;
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden">
+      <SiteHeader locale={locale} nav={nav} onHomePage />
+
+      <main id="main-content" tabIndex={-1} className="outline-none">
+        {/* Hero Section */}
+        <TrackedSection name="hero" className="pt-32 pb-20 px-6 bg-gradient-to-b from-surface-muted to-surface">
+          <div className="max-w-screen-xl mx-auto">
+            <div className="grid md:grid-cols-2 gap-12 items-center">
+              {/* Not faded in: the headline is the largest contentful paint, and
+                  text hidden until hydration would hold it back. */}
+              <div>
+                <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+                  {hero.badge}
+                </div>
+                <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">
+                  {hero.title}
+                </h1>
+                <p className="text-xl text-fg-muted mb-8 leading-relaxed">
+                  {hero.description}
+                </p>
+                <div className="flex flex-wrap gap-4">
+                  <Button variant="accent" href={nav.login.href} external trackingId="hero-login">
+                    {nav.login.label}
+                  </Button>
+                  <Button variant="secondary" href={hero.secondaryCta.href} trackingId="hero-secondary">
+                    {hero.secondaryCta.label}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-6">
+                  {hero.highlights.map((highlight) => (
+                    <span key={highlight} className="bg-surface border border-line px-4 py-2 rounded-full text-sm font-semibold text-fg-soft">
+                      {highlight}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <Reveal onMount from="right" duration={0.8} delay={0.2} className="bg-surface rounded-2xl shadow-2xl p-8">
+                <div className="inline-block bg-brand-soft text-brand-fg-strong px-3 py-1 rounded-full font-bold text-xs mb-4 border border-brand-soft-line">
+                  {hero.card.badge}
+                </div>
+                <p className="text-fg-muted leading-relaxed mb-6">
+                  {hero.card.description}
+                </p>
+                <div className="space-y-4">
+                  {hero.card.items.map((item) => {
+                    const Icon = contentIcons[item.icon];
+                    const tone = heroCardTones[item.tone];
+                    return (
+                      <div key={item.title} className={`p-4 rounded-xl border ${tone.card}`}>
+                        <div className="flex items-start gap-3">
+                          <Icon className={`w-5 h-5 mt-0.5 ${tone.icon}`} />
+                          <div>
+                            <div className="font-bold text-fg mb-1">{item.title}</div>
+                            <div className="text-sm text-fg-muted">{item.description}</div>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Reveal>
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Social Proof Stats */}
+        <LiveStats locale={locale} stats={stats} initialStats={initialStats} />
+
+        {/* How It Works */}
+        <TrackedSection name="howitworks" id="howitworks" className="py-20 px-6">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.howItWorks.title} subtitle={sections.howItWorks.subtitle} />
+            <div className="grid md:grid-cols-3 gap-12">
+              {howItWorksSteps.map((item, index) => {
+                const Icon = contentIcons[item.icon];
+                return (
+                  <Reveal key={index} from="left" delay={index * 0.2} className="text-center">
+                    <div className="w-20 h-20 bg-brand-soft rounded-full flex items-center justify-center mx-auto mb-6">
+                      <Icon className="w-10 h-10 text-brand-fg" />
+                    </div>
+                    <div className="text-5xl font-bold text-line mb-4">{item.step}</div>
+                    <h3 className="text-2xl font-bold text-fg mb-3">{item.title}</h3>
+                    <p className="text-fg-muted leading-relaxed">{item.description}</p>
+                  </Reveal>
+                );
+              })}
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Features Section */}
+        <TrackedSection name="features" id="features" className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.features.title} subtitle={sections.features.subtitle} />
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {features.map((feature, index) => (
+                <FeatureCard
+                  key={feature.title}
+                  icon={contentIcons[feature.icon]}
+                  title={feature.title}
+                  description={feature.description}
+                  delay={index * 0.1}
+                />
+              ))}
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Product Tour */}
+        <TrackedSection name="product-tour" id="product-tour" className="py-20 px-6 border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.productTour.title} subtitle={sections.productTour.subtitle} />
+            <ProductTour tabs={productTour} copy={site.tour} />
+          </div>
+        </TrackedSection>
+
+        {/* Coverage Map Demo */}
+        <TrackedSection name="coverage" id="coverage" className="py-20 px-6 bg-surface-muted border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.coverage.title} subtitle={sections.coverage.subtitle} />
+            <div className="max-w-4xl mx-auto">
+              <LazyCoverageMap copy={site.coverageMap} />
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Forecast Calculator */}
+        <TrackedSection name="forecast" id="forecast" className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.forecast.title} subtitle={sections.forecast.subtitle} />
+            <div className="max-w-5xl mx-auto">
+              <ForecastCalculator copy={site.forecast} />
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Who It's For */}
+        <TrackedSection name="whoitsfor" id="whoitsfor" className="py-20 px-6 bg-surface-muted border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.useCases.title} subtitle={sections.useCases.subtitle} />
+            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {useCases.map((useCase, index) => (
+                <Reveal key={useCase.slug} delay={index * 0.1} hover="grow">
+                  <Link href={`/${locale}/solutions/${useCase.slug}`} className="group block h-full bg-surface rounded-2xl p-8 shadow-lg">
+                    <div className={`w-12 h-12 bg-gradient-to-br ${useCase.gradient} rounded-xl mb-4`}></div>
+                    <h3 className="text-xl font-bold text-fg mb-2 flex items-center justify-between gap-2">
+                      {useCase.title}
+                      <ArrowRight className="w-5 h-5 shrink-0 text-brand-fg transition-transform group-hover:translate-x-1" aria-hidden="true" />
+                    </h3>
+                    <p className="text-fg-muted">{useCase.description}</p>
+                  </Link>
+                </Reveal>
+              ))}
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* Why RAJA */}
+        <TrackedSection name="why-raja" id="why-raja" className="py-20 px-6">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={sections.whyRaja.title} subtitle={sections.whyRaja.subtitle} />
+            <div className="grid md:grid-cols-2 gap-6">
+              {whyRaja.map((item, index) => (
+                <Reveal
+                  key={index}
+                  from="left"
+                  distance={20}
+                  delay={index * 0.1}
+                  className="bg-surface rounded-xl p-6 shadow-md border border-line-subtle"
+                >
+                  <div className="flex items-start gap-4">
+                    <CheckCircle className="w-6 h-6 text-brand-fg flex-shrink-0 mt-1" />
+                    <div>
+                      <h3 className="font-bold text-fg mb-2">{item.title}</h3>
+                      <p className="text-fg-muted">{item.description}</p>
+                    </div>
+                  </div>
+                </Reveal>
+              ))}
+            </div>
+          </div>
+        </TrackedSection>
+
+        {/* FAQ */}
+        <TrackedSection name="faq" id="faq" className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-3xl mx-auto">
+            <SectionHeader title={sections.faq.title} subtitle={sections.faq.subtitle} />
+            <div className="bg-surface-muted rounded-2xl shadow-lg p-8">
+              {faqItems.map((item) => (
+                <FAQItem key={item.slug} question={item.question} answer={item.answer} />
+              ))}
+            </div>
+            {sections.faq.cta && (
+              <p className="mt-8 text-center">
+                <Link href={`/${locale}${sections.faq.cta.href}`} className="group inline-flex items-center gap-2 font-semibold text-brand-fg">
+                  {sections.faq.cta.label}
+                  <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" aria-hidden="true" />
+                </Link>
+              </p>
+            )}
+          </div>
+        </TrackedSection>
+
+        {/* Final CTA */}
+        <TrackedSection name="walkthrough" id="walkthrough" className="py-20 px-6 bg-gradient-to-br from-brand via-brand-strong to-brand-deep">
+          <div className="max-w-4xl mx-auto text-center">
+            <Reveal duration={0.8}>
+              <h2 className="text-5xl font-bold text-white mb-6">
+                {sections.cta.title}
+              </h2>
+              <p className="text-xl text-green-100 mb-8">
+                {sections.cta.subtitle}
+              </p>
+              <LeadForm copy={site.leadForm} />
+              <div className="mt-10 max-w-2xl mx-auto">
+                <NewsletterSignup locale={locale} copy={newsletter} variant="card" />
+              </div>
+            </Reveal>
+          </div>
+        </TrackedSection>
+      </main>
+
+      <SiteFooter locale={locale} footer={footer} newsletter={newsletter} nav={nav} onHomePage />
+    </div>
+  );
+};
+
+export default RajaLanding;
\ No newline at end of file
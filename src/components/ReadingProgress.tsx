@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { motion, useScroll } from 'framer-motion';
+
+// Thin bar along the bottom of the header showing how far down the page the
+// reader is. Decorative, so hidden from assistive technology.
+const ReadingProgress: React.FC = () => {
+  const { scrollYProgress } = useScroll();
+
+  return (
+    <motion.div
+      aria-hidden="true"
+      style={{ scaleX: scrollYProgress }}
+      className="absolute left-0 bottom-0 h-1 w-full origin-left bg-brand"
+    />
+  );
+};
+
+export default ReadingProgress;
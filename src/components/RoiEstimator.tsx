@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import type { PricingContent } from '@/lib/content/types';
+import { formatNumber, type Locale } from '@/lib/i18n';
+import {
+  estimateRoi,
+  NGN_PER_USD,
+  planPrice,
+  pricedPlans,
+  type BillingPeriod,
+  type Currency,
+  type PlanId,
+} from '@/lib/pricing';
+
+interface RoiEstimatorProps {
+  locale: Locale;
+  billing: BillingPeriod;
+  currency: Currency;
+  // Platform-wide distribution efficiency gain, in percent.
+  efficiencyGain: number;
+  gainLabel: string;
+  copy: PricingContent['estimator'];
+}
+
+const inputStyles = 'w-full rounded-xl border border-line-strong px-4 py-3 text-fg focus:border-brand-fg focus:outline-none focus:ring-2 focus:ring-brand-fg/30';
+
+const DEFAULT_MONTHLY_COST_NGN = 5_000_000;
+
+const RoiEstimator: React.FC<RoiEstimatorProps> = ({ locale, billing, currency, efficiencyGain, gainLabel, copy }) => {
+  // Kept in Naira so switching currency converts rather than resets the input.
+  const [costNgn, setCostNgn] = useState<number>(DEFAULT_MONTHLY_COST_NGN);
+  const [planId, setPlanId] = useState<PlanId>(pricedPlans[pricedPlans.length - 1].id);
+
+  const rate = currency === 'USD' ? 1 / NGN_PER_USD : 1;
+  const plan = pricedPlans.find((entry) => entry.id === planId) ?? pricedPlans[0];
+  const planMonthlyCost = planPrice(plan, billing, currency)?.perMonth ?? 0;
+
+  const result = estimateRoi({ monthlyDistributionCost: (costNgn || 0) * rate, efficiencyGain, planMonthlyCost });
+
+  const money = (value: number) =>
+    formatNumber(value, locale, { style: 'currency', currency, maximumFractionDigits: 0 });
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-8 bg-surface rounded-2xl shadow-lg p-8">
+      <div className="space-y-5">
+        <div>
+          <label htmlFor="roi-cost" className="block text-sm font-semibold text-fg-soft mb-2">
+            {copy.cost.replace('{symbol}', currency === 'NGN' ? '₦' : '$')}
+          </label>
+          <input
+            id="roi-cost"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={currency === 'NGN' ? 100_000 : 100}
+            value={Number.isNaN(costNgn) ? '' : Math.round(costNgn * rate)}
+            onChange={(event) => setCostNgn(event.target.valueAsNumber / rate)}
+            className={inputStyles}
+          />
+          <p className="mt-1 text-xs text-fg-subtle">{copy.costHint}</p>
+        </div>
+        <div>
+          <label htmlFor="roi-plan" className="block text-sm font-semibold text-fg-soft mb-2">{copy.plan}</label>
+          <select id="roi-plan" value={planId} onChange={(event) => setPlanId(event.target.value as PlanId)} className={inputStyles}>
+            {pricedPlans.map((entry) => (
+              <option key={entry.id} value={entry.id}>{entry.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="rounded-xl bg-surface-muted p-4 text-sm text-fg-muted">
+          {gainLabel}: <strong className="text-fg">{formatNumber(efficiencyGain / 100, locale, { style: 'percent' })}</strong>
+        </div>
+      </div>
+
+      <div className="rounded-2xl bg-brand-subtle border border-brand-subtle-line p-6 flex flex-col" aria-live="polite">
+        <div className="flex items-center gap-3 mb-6">
+          <Calculator className="w-6 h-6 text-brand-fg" />
+          <h3 className="text-xl font-bold text-fg">{copy.result}</h3>
+        </div>
+        <div className="text-4xl font-bold text-brand-fg mb-6">{money(result.monthlySavings)}</div>
+        <dl className="grid grid-cols-2 gap-4">
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.planCost.replace('{plan}', plan.name)}</dt>
+            <dd className="text-lg font-bold text-fg">{money(planMonthlyCost)}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.netBenefit}</dt>
+            <dd className={`text-lg font-bold ${result.netMonthlyBenefit < 0 ? 'text-danger' : 'text-fg'}`}>
+              {money(result.netMonthlyBenefit)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.returnOnCost}</dt>
+            <dd className="text-lg font-bold text-fg">{formatNumber(result.returnOnCost, locale, { style: 'percent', maximumFractionDigits: 0 })}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-fg-muted">{copy.payback}</dt>
+            <dd className="text-lg font-bold text-fg">
+              {result.paybackMonths === null
+                ? '—'
+                : result.paybackMonths < 1
+                  ? copy.paybackDays.replace('{count}', formatNumber(Math.max(1, Math.round(result.paybackMonths * 30)), locale))
+                  : copy.paybackMonths.replace('{count}', formatNumber(result.paybackMonths, locale, { maximumFractionDigits: 1 }))}
+            </dd>
+          </div>
+        </dl>
+        <p className="mt-6 text-xs text-fg-subtle">{copy.disclaimer}</p>
+      </div>
+    </div>
+  );
+};
+
+export default RoiEstimator;
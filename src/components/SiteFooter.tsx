@@ -0,0 +1,81 @@
+import React from 'react';
+import Image from 'next/image';
+import NewsletterSignup from '@/components/NewsletterSignup';
+import TrackedLink from '@/components/TrackedLink';
+import type { SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import { buildNavItems } from '@/lib/navigation';
+import { formatWhatsAppNumber, pickContact, whatsAppConfig, whatsAppUrl } from '@/lib/whatsapp';
+
+interface SiteFooterProps {
+  locale: Locale;
+  footer: SiteContent['footer'];
+  newsletter: SiteContent['newsletter'];
+  nav: Pick<SiteContent['nav'], 'sections' | 'links'>;
+  // Section links stay as bare "#fragment"s on the home page.
+  onHomePage?: boolean;
+}
+
+const SiteFooter: React.FC<SiteFooterProps> = ({ locale, footer, newsletter, nav, onHomePage = false }) => {
+  const whatsApp = pickContact(whatsAppConfig.contacts, 'sales', locale);
+
+  return (
+    <footer id="contact" className="bg-gray-900 text-white py-16 px-6">
+      <div className="max-w-screen-xl mx-auto">
+        <div className="grid md:grid-cols-3 gap-12 mb-12">
+          <div>
+            <Image src="/raja-logo.png" alt="RAJA Logo" width={60} height={48} className="mb-4" />
+            <p className="text-gray-400 leading-relaxed">
+              {footer.tagline}
+            </p>
+          </div>
+          <div>
+            <h2 className="font-semibold mb-4">{footer.contactTitle}</h2>
+            <ul className="space-y-2">
+              <li>
+                <a href={`mailto:${footer.email}`} className="text-gray-400 hover:text-white transition-colors">
+                  {footer.email}
+                </a>
+              </li>
+              <li>
+                <TrackedLink
+                  href={whatsAppUrl(whatsApp.number)}
+                  event="outbound_click"
+                  trackingId="whatsapp"
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {formatWhatsAppNumber(whatsApp.number)}
+                </TrackedLink>
+              </li>
+            </ul>
+          </div>
+          <div>
+            <h2 className="font-semibold mb-4">{footer.quickLinksTitle}</h2>
+            <ul className="space-y-2">
+              {buildNavItems(nav, locale, onHomePage).map((link) => (
+                <li key={link.href}>
+                  <a
+                    href={link.href}
+                    className="text-gray-400 hover:text-white transition-colors"
+                  >
+                    {link.label}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <div className="border-t border-gray-800 py-10">
+          <div className="max-w-2xl">
+            <NewsletterSignup locale={locale} copy={newsletter} />
+          </div>
+        </div>
+        <div className="border-t border-gray-800 pt-8 text-center text-gray-400">
+          <p>{footer.copyright}</p>
+        </div>
+      </div>
+    </footer>
+  );
+};
+
+export default SiteFooter;
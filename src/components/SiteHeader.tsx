@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Menu, X } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import ReadingProgress from '@/components/ReadingProgress';
+import ThemeToggle from '@/components/ThemeToggle';
+import { Button } from '@/components/ui';
+import { focusableElements, trapTabKey } from '@/lib/a11y/focus';
+import type { SiteContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+import { buildNavItems, type NavItem } from '@/lib/navigation';
+import { useScrollSpy } from '@/lib/scroll-spy';
+
+interface SiteHeaderProps {
+  locale: Locale;
+  nav: SiteContent['nav'];
+  // Section links stay as bare "#fragment"s on the home page.
+  onHomePage?: boolean;
+}
+
+const SiteHeader: React.FC<SiteHeaderProps> = ({ locale, nav, onHomePage = false }) => {
+  const [mobileMenuOpen, setMobileMenuOpen] = useState<boolean>(false);
+  const [scrolled, setScrolled] = useState<boolean>(false);
+  const headerRef = useRef<HTMLElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [headerHeight, setHeaderHeight] = useState<number>(0);
+
+  useEffect(() => {
+    const handleScroll = () => setScrolled(window.scrollY > 10);
+    window.addEventListener('scroll', handleScroll);
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // While the mobile menu is open, focus moves into it, Tab cycles between the
+  // menu and its toggle, and Escape closes it and returns focus to the toggle.
+  useEffect(() => {
+    if (!mobileMenuOpen) return;
+    if (menuRef.current) focusableElements(menuRef.current)[0]?.focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setMobileMenuOpen(false);
+        toggleRef.current?.focus();
+      } else {
+        trapTabKey(event, headerRef.current);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [mobileMenuOpen]);
+
+  // Publishes the header's height as --header-height, which globals.css uses
+  // as scroll padding so anchored sections aren't hidden underneath it. Not
+  // measured while the mobile menu is open, since the menu closes on navigation.
+  useEffect(() => {
+    const header = headerRef.current;
+    if (!header || mobileMenuOpen) return;
+
+    const observer = new ResizeObserver(() => {
+      const height = Math.round(header.getBoundingClientRect().height);
+      document.documentElement.style.setProperty('--header-height', `${height}px`);
+      setHeaderHeight(height);
+    });
+    observer.observe(header);
+    return () => observer.disconnect();
+  }, [mobileMenuOpen]);
+
+  const navItems = buildNavItems(nav, locale, onHomePage);
+  const spiedIds = useMemo(() => (onHomePage ? nav.sections.map((section) => section.id) : []), [nav.sections, onHomePage]);
+  const activeId = useScrollSpy(spiedIds, { topOffset: headerHeight, updateHash: true });
+
+  const linkProps = (item: NavItem) => {
+    const active = item.sectionId !== undefined && item.sectionId === activeId;
+    return {
+      href: item.href,
+      'aria-current': active ? ('location' as const) : undefined,
+      className: `transition-colors font-medium ${active ? 'text-brand-fg' : 'text-fg-soft hover:text-brand-fg'}`,
+    };
+  };
+
+  return (
+    <header
+      ref={headerRef}
+      className={`fixed top-0 w-full z-50 transition-all duration-300 ${scrolled ? 'bg-surface/90 backdrop-blur-lg shadow-md' : 'bg-surface lg:bg-transparent'
+        }`}
+    >
+      <div className="max-w-screen-xl mx-auto px-6 py-2">
+        <div className="flex items-center justify-between">
+          <Link href={`/${locale}`} className="flex items-center gap-2">
+            <Image src="/raja-logo.png" alt="RAJA Logo" width={50} height={40} />
+          </Link>
+          {/* Desktop Nav */}
+          <nav aria-label={nav.label} className="hidden md:flex items-center gap-8">
+            {navItems.map((item) => (
+              <a key={item.href} {...linkProps(item)}>
+                {item.label}
+              </a>
+            ))}
+            <LanguageSwitcher locale={locale} label={nav.languageLabel} />
+            <ThemeToggle label={nav.darkThemeLabel} />
+            <Button variant="accent" href={nav.login.href} external trackingId="nav-login">
+              {nav.login.label}
+            </Button>
+          </nav>
+
+          {/* Mobile Menu Button */}
+          <button
+            ref={toggleRef}
+            type="button"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            className="md:hidden text-fg cursor-pointer"
+            aria-label={nav.menuLabel}
+            aria-expanded={mobileMenuOpen}
+            aria-controls="mobile-menu"
+          >
+            {mobileMenuOpen ? <X size={28} aria-hidden="true" /> : <Menu size={28} aria-hidden="true" />}
+          </button>
+        </div>
+
+        {/* Mobile Menu */}
+        {mobileMenuOpen && (
+          <motion.nav
+            ref={menuRef}
+            id="mobile-menu"
+            aria-label={nav.label}
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="md:hidden pt-4 pb-6 flex flex-col gap-4"
+          >
+            {navItems.map((item) => (
+              <a key={item.href} {...linkProps(item)} onClick={() => setMobileMenuOpen(false)}>
+                {item.label}
+              </a>
+            ))}
+            <div className="flex items-center gap-4">
+              <LanguageSwitcher locale={locale} label={nav.languageLabel} />
+              <ThemeToggle label={nav.darkThemeLabel} />
+            </div>
+            <Button variant="accent" href={nav.login.href} external className="self-start" trackingId="nav-login">
+              {nav.login.label}
+            </Button>
+          </motion.nav>
+        )}
+      </div>
+      <ReadingProgress />
+    </header>
+  );
+};
+
+export default SiteHeader;
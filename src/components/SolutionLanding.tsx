@@ -0,0 +1,126 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import LeadForm from '@/components/LeadForm';
+import SiteFooter from '@/components/SiteFooter';
+import SiteHeader from '@/components/SiteHeader';
+import { Button, FAQItem, FeatureCard, SectionHeader } from '@/components/ui';
+import { contentIcons } from '@/lib/content/icons';
+import type { FeatureItem, SiteContent, SolutionSegment, SolutionsContent } from '@/lib/content/types';
+import type { Locale } from '@/lib/i18n';
+
+interface SolutionLandingProps {
+  locale: Locale;
+  site: SiteContent;
+  labels: SolutionsContent['labels'];
+  segment: SolutionSegment;
+  features: FeatureItem[];
+  // English use-case title, which is what the lead form submits as the role.
+  leadRole: string;
+}
+
+const SolutionLanding: React.FC<SolutionLandingProps> = ({ locale, site, labels, segment, features, leadRole }) => {
+  const home = `/${locale}`;
+
+  return (
+    <div className="bg-surface-muted overflow-x-hidden">
+      <SiteHeader locale={locale} nav={site.nav} />
+
+      <main id="main-content" tabIndex={-1} className="outline-none">
+        {/* Hero Section */}
+        <section className="pt-32 pb-20 px-6 bg-gradient-to-b from-surface-muted to-surface">
+          <motion.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+            className="max-w-4xl mx-auto text-center"
+          >
+            <div className="inline-block bg-brand-soft text-brand-fg px-4 py-2 rounded-full font-bold text-sm mb-6 border border-brand-soft-line">
+              {segment.hero.badge}
+            </div>
+            <h1 className="text-5xl md:text-6xl font-bold text-fg mb-6 leading-tight">
+              {segment.hero.title}
+            </h1>
+            <p className="text-xl text-fg-muted mb-8 leading-relaxed">
+              {segment.hero.description}
+            </p>
+            <div className="flex flex-wrap justify-center gap-4">
+              <Button href="#walkthrough" trackingId={`solution-${segment.slug}-walkthrough`}>
+                {labels.primaryCta}
+              </Button>
+              <Button variant="secondary" href={`${home}#features`} trackingId={`solution-${segment.slug}-explore`}>
+                {labels.secondaryCta}
+              </Button>
+            </div>
+          </motion.div>
+        </section>
+
+        {/* Pain Points */}
+        <section className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={labels.painPoints} />
+            <div className="grid md:grid-cols-3 gap-8">
+              {segment.painPoints.map((point, index) => (
+                <motion.div
+                  key={point.title}
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ duration: 0.6, delay: index * 0.1 }}
+                  className="rounded-2xl p-8 bg-surface-muted border border-line"
+                >
+                  <h3 className="text-xl font-bold text-fg mb-2">{point.title}</h3>
+                  <p className="text-fg-muted leading-relaxed">{point.description}</p>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+        </section>
+
+        {/* Relevant Features */}
+        <section className="py-20 px-6">
+          <div className="max-w-screen-xl mx-auto">
+            <SectionHeader title={labels.features} />
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {features.map((feature, index) => (
+                <FeatureCard
+                  key={feature.id}
+                  icon={contentIcons[feature.icon]}
+                  title={feature.title}
+                  description={feature.description}
+                  delay={index * 0.1}
+                />
+              ))}
+            </div>
+          </div>
+        </section>
+
+        {/* Tailored FAQ */}
+        <section className="py-20 px-6 bg-surface border-t border-line">
+          <div className="max-w-3xl mx-auto">
+            <SectionHeader title={labels.faq} />
+            <div className="bg-surface rounded-2xl shadow-lg p-8">
+              {segment.faq.map((item) => (
+                <FAQItem key={item.question} question={item.question} answer={item.answer} />
+              ))}
+            </div>
+          </div>
+        </section>
+
+        {/* Final CTA */}
+        <section id="walkthrough" className="py-20 px-6 bg-gradient-to-br from-brand via-brand-strong to-brand-deep">
+          <div className="max-w-4xl mx-auto text-center">
+            <h2 className="text-5xl font-bold text-white mb-6">{segment.cta.title}</h2>
+            {segment.cta.subtitle && <p className="text-xl text-green-100 mb-8">{segment.cta.subtitle}</p>}
+            <LeadForm copy={site.leadForm} defaultRole={leadRole} />
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter locale={locale} footer={site.footer} newsletter={site.newsletter} nav={site.nav} />
+    </div>
+  );
+};
+
+export default SolutionLanding;
@@ -0,0 +1,41 @@
+'use client';
+
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { DARK_SCHEME_QUERY, applyTheme, getStoredTheme, getTheme, onThemeChange, setTheme } from '@/lib/theme';
+
+interface ThemeToggleProps {
+  label: string;
+  className?: string;
+}
+
+const ThemeToggle: React.FC<ThemeToggleProps> = ({ label, className = '' }) => {
+  // The head script has already set the theme; the server can't know it, so
+  // the pressed state is null until hydration. The icons switch through CSS.
+  const theme = useSyncExternalStore(onThemeChange, getTheme, () => null);
+
+  // Follow the system setting until the visitor picks a theme themselves.
+  useEffect(() => {
+    const media = window.matchMedia(DARK_SCHEME_QUERY);
+    const handleSystemChange = (event: MediaQueryListEvent) => {
+      if (!getStoredTheme()) applyTheme(event.matches ? 'dark' : 'light');
+    };
+    media.addEventListener('change', handleSystemChange);
+    return () => media.removeEventListener('change', handleSystemChange);
+  }, []);
+
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      aria-pressed={theme === 'dark'}
+      onClick={() => setTheme(getTheme() === 'dark' ? 'light' : 'dark')}
+      className={`inline-flex items-center justify-center w-10 h-10 rounded-full border border-line-strong text-fg-soft hover:text-brand-fg hover:border-brand-fg transition-colors cursor-pointer ${className}`}
+    >
+      <Moon className="w-5 h-5 dark:hidden" aria-hidden="true" />
+      <Sun className="w-5 h-5 hidden dark:block" aria-hidden="true" />
+    </button>
+  );
+};
+
+export default ThemeToggle;
@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+import { track } from '@/lib/analytics/client';
+import type { EventType } from '@/lib/analytics/types';
+
+interface TrackedLinkProps extends React.ComponentPropsWithoutRef<'a'> {
+  event: EventType;
+  trackingId: string;
+}
+
+// A plain link that records its clicks, for server components that can't
+// attach click handlers themselves.
+const TrackedLink: React.FC<TrackedLinkProps> = ({ event, trackingId, onClick, ...props }) => (
+  <a
+    {...props}
+    onClick={(clickEvent) => {
+      track(event, trackingId);
+      onClick?.(clickEvent);
+    }}
+  />
+);
+
+export default TrackedLink;
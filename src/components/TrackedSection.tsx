@@ -0,0 +1,32 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useInView } from 'framer-motion';
+import { track } from '@/lib/analytics/client';
+
+interface TrackedSectionProps extends React.ComponentPropsWithoutRef<'section'> {
+  name: string;
+}
+
+// Records a section view the first time at least a third of it is on screen.
+export const useTrackView = (ref: React.RefObject<HTMLElement | null>, name: string) => {
+  const isInView = useInView(ref, { once: true, amount: 0.3 });
+
+  useEffect(() => {
+    if (isInView) track('section_view', name);
+  }, [isInView, name]);
+};
+
+// A <section> whose views are tracked. Its children can stay server components.
+const TrackedSection: React.FC<TrackedSectionProps> = ({ name, children, ...props }) => {
+  const ref = useRef<HTMLElement>(null);
+  useTrackView(ref, name);
+
+  return (
+    <section ref={ref} {...props}>
+      {children}
+    </section>
+  );
+};
+
+export default TrackedSection;
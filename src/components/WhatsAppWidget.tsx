@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, X } from 'lucide-react';
+import { usePathname } from 'next/navigation';
+import { track } from '@/lib/analytics/client';
+import type { SiteContent } from '@/lib/content/types';
+import { localeTags, type Locale } from '@/lib/i18n';
+import type { NavSection } from '@/lib/sections';
+import {
+  buildChatMessage,
+  formatBusinessHours,
+  isWithinBusinessHours,
+  onChatContextChange,
+  pickContact,
+  teamForPath,
+  whatsAppConfig,
+  whatsAppUrl,
+  type ChatContext,
+} from '@/lib/whatsapp';
+
+interface WhatsAppWidgetProps {
+  locale: Locale;
+  copy: SiteContent['chat'];
+  sections: NavSection[];
+  // Localised use-case titles by slug, named in chats from a solutions page.
+  segments: Record<string, string>;
+}
+
+interface OpenState {
+  online: boolean;
+  context: ChatContext;
+}
+
+const PANEL_ID = 'whatsapp-chat';
+
+// Floating WhatsApp button on every page. Opening it works out where the
+// visitor is, so the chat starts with a message about that page, section or
+// plan. Outside business hours it points to the walkthrough form first.
+const WhatsAppWidget: React.FC<WhatsAppWidgetProps> = ({ locale, copy, sections, segments }) => {
+  const pathname = usePathname();
+  const [open, setOpen] = useState<OpenState | null>(null);
+  const [pointedPlan, setPointedPlan] = useState<{ pathname: string; plan: string } | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const actionRef = useRef<HTMLAnchorElement>(null);
+
+  // Remembered with the page it was set on, so it is forgotten after navigating.
+  useEffect(
+    () => onChatContextChange(({ plan }) => setPointedPlan(plan ? { pathname, plan } : null)),
+    [pathname],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    actionRef.current?.focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      setOpen(null);
+      buttonRef.current?.focus();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  // Read when the widget opens rather than while rendering: the section comes
+  // from the URL hash the scroll-spy keeps up to date, and the hours from the clock.
+  const currentContext = (): ChatContext => {
+    const path = pathname.slice(`/${locale}`.length);
+    const context: ChatContext = { team: teamForPath(path) };
+    if (pointedPlan?.pathname === pathname) context.plan = pointedPlan.plan;
+
+    const segmentSlug = path.match(/^\/solutions\/([^/]+)/)?.[1];
+    if (segmentSlug) context.segment = segments[segmentSlug];
+
+    const hash = window.location.hash.slice(1);
+    if (path === '' && hash) context.section = sections.find((section) => section.id === hash)?.label;
+    return context;
+  };
+
+  const toggle = () => {
+    setOpen(open ? null : { online: isWithinBusinessHours(new Date(), whatsAppConfig.hours), context: currentContext() });
+  };
+
+  const chatHref = () => {
+    if (!open) return undefined;
+    const contact = pickContact(whatsAppConfig.contacts, open.context.team, locale);
+    return whatsAppUrl(contact.number, buildChatMessage(copy.messages, open.context));
+  };
+
+  const trackChat = () => track('outbound_click', `whatsapp-widget-${open?.context.team}`);
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 flex flex-col items-end gap-3">
+      {open && (
+        <div
+          id={PANEL_ID}
+          role="dialog"
+          aria-labelledby={`${PANEL_ID}-title`}
+          className="w-80 max-w-[calc(100vw-3rem)] bg-surface rounded-2xl shadow-2xl border border-line p-6"
+        >
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <h2 id={`${PANEL_ID}-title`} className="text-lg font-bold text-fg">{copy.title}</h2>
+            <button
+              type="button"
+              onClick={() => setOpen(null)}
+              aria-label={copy.closeLabel}
+              className="text-fg-subtle hover:text-fg cursor-pointer"
+            >
+              <X className="w-5 h-5" aria-hidden="true" />
+            </button>
+          </div>
+          <p className="flex items-start gap-2 text-sm text-fg-muted mb-5">
+            <span
+              aria-hidden="true"
+              className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${open.online ? 'bg-brand' : 'bg-fg-subtle'}`}
+            />
+            {open.online
+              ? copy.onlineStatus
+              : copy.offlineStatus.replace('{hours}', formatBusinessHours(whatsAppConfig.hours, localeTags[locale]))}
+          </p>
+          {open.online ? (
+            <a
+              ref={actionRef}
+              href={chatHref()}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={trackChat}
+              className="block text-center px-5 py-3 rounded-full font-semibold bg-brand text-white hover:bg-brand-strong transition-colors"
+            >
+              {copy.openChat}
+            </a>
+          ) : (
+            <div className="flex flex-col gap-3">
+              <a
+                ref={actionRef}
+                href={`/${locale}#walkthrough`}
+                onClick={() => setOpen(null)}
+                className="block text-center px-5 py-3 rounded-full font-semibold bg-brand text-white hover:bg-brand-strong transition-colors"
+              >
+                {copy.offlineCta}
+              </a>
+              <a
+                href={chatHref()}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={trackChat}
+                className="text-center text-sm font-semibold text-brand-fg underline"
+              >
+                {copy.offlineChat}
+              </a>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={toggle}
+        aria-expanded={!!open}
+        aria-controls={open ? PANEL_ID : undefined}
+        aria-label={copy.buttonLabel}
+        className="w-14 h-14 rounded-full bg-brand text-white shadow-xl hover:bg-brand-strong flex items-center justify-center transition-colors cursor-pointer"
+      >
+        {open ? <X className="w-6 h-6" aria-hidden="true" /> : <MessageCircle className="w-7 h-7" aria-hidden="true" />}
+      </button>
+    </div>
+  );
+};
+
+export default WhatsAppWidget;
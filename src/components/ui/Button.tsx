@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { track } from '@/lib/analytics/client';
+
+export type ButtonVariant = 'primary' | 'secondary' | 'accent';
+
+export interface ButtonProps {
+  children: React.ReactNode;
+  variant?: ButtonVariant;
+  href?: string;
+  // Opens the link in a new tab.
+  external?: boolean;
+  className?: string;
+  onClick?: () => void;
+  // Identifies the button in conversion analytics; clicks are only tracked when set.
+  trackingId?: string;
+}
+
+const Button: React.FC<ButtonProps> = ({ children, variant = 'primary', href, external = false, className = '', onClick, trackingId }) => {
+  const baseStyles = 'px-6 py-3 rounded-full font-semibold text-lg transition-all duration-300 inline-flex items-center gap-2';
+  const variants: Record<ButtonVariant, string> = {
+    primary: 'bg-brand text-white hover:bg-brand-strong shadow-lg hover:shadow-xl',
+    secondary: 'bg-surface text-fg border-2 border-brand-fg hover:bg-surface-muted',
+    accent: 'bg-brand text-white hover:bg-brand-strong shadow-lg hover:shadow-xl',
+  };
+
+  // Links render as anchors so they are never nested inside another interactive element.
+  const elementProps = href
+    ? { href, ...(external && { target: '_blank', rel: 'noopener noreferrer' }) }
+    : { type: 'button' as const };
+  const Component = href ? 'a' : 'button';
+
+  return (
+    <Component
+      {...elementProps}
+      onClick={() => {
+        if (trackingId) track('cta_click', trackingId);
+        onClick?.();
+      }}
+      className={`${baseStyles} ${variants[variant]} ${className}`}
+    >
+      {children}
+    </Component>
+  );
+};
+
+export default Button;
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useInView, useReducedMotionConfig } from 'framer-motion';
+import { formatNumber, type Locale } from '@/lib/i18n';
+
+export interface CounterProps {
+  end: number;
+  locale: Locale;
+  duration?: number;
+  suffix?: string;
+  format?: (value: number) => string;
+}
+
+const noSubscription = () => () => {};
+
+// Server HTML, and the first render while hydrating, show `end` so crawlers and
+// visitors without JavaScript get the real figure. After that the counter counts
+// up to it once scrolled into view, or shows it straight away when motion is
+// reduced (see MotionProvider).
+const Counter: React.FC<CounterProps> = ({ end, locale, duration = 2, suffix = '', format }) => {
+  const [count, setCount] = useState<number>(0);
+  const countRef = useRef<number>(0);
+  const ref = useRef<HTMLSpanElement>(null);
+  const isInView = useInView(ref, { once: true });
+  const reduceMotion = useReducedMotionConfig();
+  const hydrated = useSyncExternalStore(noSubscription, () => true, () => false);
+
+  useEffect(() => {
+    if (!isInView) return;
+    if (reduceMotion) {
+      countRef.current = end;
+      return;
+    }
+
+    // Animate from wherever the counter currently is, so a refreshed figure
+    // eases to its new value instead of restarting from zero.
+    const from = countRef.current;
+    let startTime: number;
+    let animationFrame: number;
+
+    const animate = (timestamp: number) => {
+      if (!startTime) startTime = timestamp;
+      const progress = Math.min((timestamp - startTime) / (duration * 1000), 1);
+
+      countRef.current = Math.floor(from + progress * (end - from));
+      setCount(countRef.current);
+
+      if (progress < 1) {
+        animationFrame = requestAnimationFrame(animate);
+      }
+    };
+
+    animationFrame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isInView, end, duration, reduceMotion]);
+
+  // With reduced motion the figure is shown as is, without counting.
+  const value = !hydrated || (reduceMotion && isInView) ? end : count;
+
+  return <span ref={ref}>{format ? format(value) : `${formatNumber(value, locale)}${suffix}`}</span>;
+};
+
+export default Counter;
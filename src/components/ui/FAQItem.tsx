@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useEffect, useId, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown } from 'lucide-react';
+import { track } from '@/lib/analytics/client';
+import { splitMatches } from '@/lib/help/search';
+
+export interface FAQItemProps {
+  question: string;
+  answer: string;
+  // Starts expanded, e.g. when the page was opened at this question.
+  defaultOpen?: boolean;
+  // Anchor for deep links; the item expands when the URL hash points at it.
+  id?: string;
+  // Lower-cased search terms to mark in the question and answer.
+  highlight?: string[];
+  // Shown below the answer, e.g. feedback buttons.
+  children?: React.ReactNode;
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitMatches(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-brand-soft text-fg rounded-sm">
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      ),
+    )}
+  </>
+);
+
+// One panel of a WAI-ARIA accordion: the question is a heading wrapping the
+// toggle button, and the answer is a region labelled by that button.
+const FAQItem: React.FC<FAQItemProps> = ({ question, answer, defaultOpen = false, id: anchorId, highlight = [], children }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(defaultOpen);
+  const id = useId();
+  const buttonId = `${id}-question`;
+  const panelId = `${id}-answer`;
+
+  // The hash is only known in the browser, so deep links open the item after
+  // hydration, and again whenever an in-page link targets it.
+  useEffect(() => {
+    if (!anchorId) return;
+    const openIfTargeted = () => {
+      if (decodeURIComponent(window.location.hash.slice(1)) === anchorId) setIsOpen(true);
+    };
+    openIfTargeted();
+    window.addEventListener('hashchange', openIfTargeted);
+    return () => window.removeEventListener('hashchange', openIfTargeted);
+  }, [anchorId]);
+
+  return (
+    <motion.div
+      id={anchorId}
+      initial={{ opacity: 0, y: 20 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      viewport={{ once: true }}
+      className="border-b border-line last:border-0 scroll-mt-28"
+    >
+      <h3>
+        <button
+          id={buttonId}
+          type="button"
+          aria-expanded={isOpen}
+          aria-controls={panelId}
+          onClick={() => {
+            if (!isOpen) track('faq_open', question);
+            setIsOpen(!isOpen);
+          }}
+          className="w-full py-6 flex items-center justify-between text-left hover:text-brand-fg transition-colors cursor-pointer"
+        >
+          <span className="text-lg font-semibold text-fg">
+            <Highlighted text={question} terms={highlight} />
+          </span>
+          <ChevronDown
+            aria-hidden="true"
+            className={`w-5 h-5 text-fg-muted transition-transform duration-300 ${isOpen ? 'rotate-180' : ''
+              }`}
+          />
+        </button>
+      </h3>
+      <div id={panelId} role="region" aria-labelledby={buttonId} hidden={!isOpen}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            className="pb-6 text-fg-muted leading-relaxed"
+          >
+            <p className="whitespace-pre-line">
+              <Highlighted text={answer} terms={highlight} />
+            </p>
+            {children}
+          </motion.div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default FAQItem;
@@ -0,0 +1,26 @@
+import React from 'react';
+import Reveal from './Reveal';
+import type { IconComponent } from './icon';
+
+export interface FeatureCardProps {
+  icon: IconComponent;
+  title: string;
+  description: string;
+  delay?: number;
+}
+
+const FeatureCard: React.FC<FeatureCardProps> = ({ icon: Icon, title, description, delay = 0 }) => (
+  <Reveal
+    delay={delay}
+    hover="lift"
+    className="bg-surface rounded-2xl p-8 shadow-lg hover:shadow-2xl transition-shadow duration-300"
+  >
+    <div className="w-14 h-14 bg-brand-soft rounded-xl flex items-center justify-center mb-6">
+      <Icon className="w-7 h-7 text-brand-fg" aria-hidden="true" />
+    </div>
+    <h3 className="text-2xl font-bold text-fg mb-3">{title}</h3>
+    <p className="text-fg-muted leading-relaxed">{description}</p>
+  </Reveal>
+);
+
+export default FeatureCard;
@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+
+export interface FilterChipProps {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+// Toggle button for list filters; group related chips in a role="group".
+const FilterChip: React.FC<FilterChipProps> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    aria-pressed={active}
+    onClick={onClick}
+    className={`px-4 py-2 rounded-full text-sm font-semibold border transition-colors cursor-pointer ${active ? 'bg-brand text-white border-brand' : 'bg-surface text-fg-soft border-line-strong hover:border-brand-fg'
+      }`}
+  >
+    {children}
+  </button>
+);
+
+export default FilterChip;
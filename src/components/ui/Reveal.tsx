@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { motion, type TargetAndTransition } from 'framer-motion';
+
+export type RevealFrom = 'below' | 'left' | 'right' | 'small';
+
+export interface RevealProps {
+  children: React.ReactNode;
+  // Where the content moves in from.
+  from?: RevealFrom;
+  // How far it travels, in pixels.
+  distance?: number;
+  delay?: number;
+  duration?: number;
+  // Plays on first render instead of when scrolled into view; for content above the fold.
+  onMount?: boolean;
+  hover?: 'lift' | 'grow';
+  className?: string;
+}
+
+const startFrom = (from: RevealFrom, distance: number): TargetAndTransition => {
+  switch (from) {
+    case 'left':
+      return { opacity: 0, x: -distance };
+    case 'right':
+      return { opacity: 0, x: distance };
+    case 'small':
+      return { opacity: 0, scale: 0.8 };
+    default:
+      return { opacity: 0, y: distance };
+  }
+};
+
+const hoverEffects: Record<NonNullable<RevealProps['hover']>, TargetAndTransition> = {
+  lift: { y: -8, transition: { duration: 0.3 } },
+  grow: { scale: 1.05 },
+};
+
+// Fades its children in. The only client code is the wrapper itself, so
+// server components can animate their markup without shipping it as JS. The
+// server renders the starting (hidden) state; data-reveal lets the locale
+// layout show it anyway when JavaScript is off.
+const Reveal: React.FC<RevealProps> = ({
+  children,
+  from = 'below',
+  distance = 30,
+  delay = 0,
+  duration = 0.6,
+  onMount = false,
+  hover,
+  className,
+}) => {
+  const shown = { opacity: 1, x: 0, y: 0, scale: 1 };
+
+  return (
+    <motion.div
+      data-reveal=""
+      initial={startFrom(from, distance)}
+      {...(onMount ? { animate: shown } : { whileInView: shown, viewport: { once: true } })}
+      transition={{ duration, delay }}
+      whileHover={hover && hoverEffects[hover]}
+      className={className}
+    >
+      {children}
+    </motion.div>
+  );
+};
+
+export default Reveal;
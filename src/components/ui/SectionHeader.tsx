@@ -0,0 +1,16 @@
+import React from 'react';
+import Reveal from './Reveal';
+
+export interface SectionHeaderProps {
+  title: string;
+  subtitle?: string;
+}
+
+const SectionHeader: React.FC<SectionHeaderProps> = ({ title, subtitle }) => (
+  <Reveal distance={20} className="text-center mb-16">
+    <h2 className="text-4xl md:text-5xl font-bold text-fg mb-4">{title}</h2>
+    {subtitle && <p className="text-xl text-fg-muted max-w-2xl mx-auto">{subtitle}</p>}
+  </Reveal>
+);
+
+export default SectionHeader;
@@ -0,0 +1,19 @@
+import React from 'react';
+import Reveal from './Reveal';
+
+export interface StatPillProps {
+  label: string;
+  value: React.ReactNode;
+  delay?: number;
+}
+
+const StatPill: React.FC<StatPillProps> = ({ label, value, delay = 0 }) => (
+  <Reveal from="small" duration={0.5} delay={delay} className="bg-surface rounded-full px-8 py-4 shadow-lg">
+    <div className="text-center">
+      <div className="text-3xl font-bold text-fg mb-1">{value}</div>
+      <div className="text-sm text-fg-muted">{label}</div>
+    </div>
+  </Reveal>
+);
+
+export default StatPill;
@@ -0,0 +1,12 @@
+import type React from 'react';
+
+// What a component needs from an icon it is handed as a prop. lucide-react
+// icons satisfy it, as does any SVG component that accepts these props.
+export interface IconProps {
+  className?: string;
+  size?: number | string;
+  strokeWidth?: number | string;
+  'aria-hidden'?: boolean | 'true' | 'false';
+}
+
+export type IconComponent = React.ComponentType<IconProps>;
@@ -0,0 +1,12 @@
+// Presentational building blocks shared by every page. Import them from
+// '@/components/ui' rather than from the individual files.
+
+export { default as Button, type ButtonProps, type ButtonVariant } from './Button';
+export { default as Counter, type CounterProps } from './Counter';
+export { default as FAQItem, type FAQItemProps } from './FAQItem';
+export { default as FilterChip, type FilterChipProps } from './FilterChip';
+export { default as FeatureCard, type FeatureCardProps } from './FeatureCard';
+export { default as Reveal, type RevealFrom, type RevealProps } from './Reveal';
+export { default as SectionHeader, type SectionHeaderProps } from './SectionHeader';
+export { default as StatPill, type StatPillProps } from './StatPill';
+export type { IconComponent, IconProps } from './icon';
@@ -0,0 +1,76 @@
+import { getConsent, onConsentChange } from './consent';
+import { MAX_EVENTS_PER_BATCH } from './validate';
+import type { AnalyticsEvent, EventType } from './types';
+
+const ENDPOINT = '/api/events';
+const FLUSH_INTERVAL_MS = 5000;
+const SESSION_KEY = 'raja-analytics-session';
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let listening = false;
+
+const sessionId = (): string => {
+  try {
+    const existing = window.sessionStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+    const created = crypto.randomUUID();
+    window.sessionStorage.setItem(SESSION_KEY, created);
+    return created;
+  } catch {
+    return 'anonymous';
+  }
+};
+
+const send = (events: AnalyticsEvent[], useBeacon: boolean) => {
+  const body = JSON.stringify({ events });
+  // sendBeacon survives the page being closed; fetch is used otherwise so the
+  // request can carry a JSON content type.
+  if (useBeacon && navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: 'application/json' }))) return;
+  fetch(ENDPOINT, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true }).catch(
+    () => undefined,
+  );
+};
+
+export const flush = (useBeacon: boolean = false) => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = undefined;
+
+  while (queue.length > 0) {
+    send(queue.splice(0, MAX_EVENTS_PER_BATCH), useBeacon);
+  }
+};
+
+const listen = () => {
+  if (listening) return;
+  listening = true;
+  window.addEventListener('pagehide', () => flush(true));
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush(true);
+  });
+  onConsentChange((state) => {
+    if (state === 'denied') queue = [];
+  });
+};
+
+// Queues an event for the next batch. Does nothing until the visitor has
+// accepted analytics in the consent banner.
+export const track = (type: EventType, name?: string) => {
+  if (typeof window === 'undefined' || getConsent() !== 'granted') return;
+  listen();
+
+  queue.push({
+    type,
+    name,
+    path: window.location.pathname,
+    locale: document.documentElement.lang || undefined,
+    sessionId: sessionId(),
+    timestamp: new Date().toISOString(),
+  });
+
+  if (queue.length >= MAX_EVENTS_PER_BATCH) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flush(), FLUSH_INTERVAL_MS);
+  }
+};
@@ -0,0 +1,27 @@
+// The consent choice lives in a first-party cookie so the events endpoint can
+// check it too: nothing is stored for a visitor who has not opted in.
+
+export type ConsentState = 'granted' | 'denied';
+
+export const CONSENT_COOKIE = 'raja_analytics_consent';
+
+const CONSENT_EVENT = 'raja:consent-change';
+
+export const parseConsent = (value: string | undefined): ConsentState | null =>
+  value === 'granted' || value === 'denied' ? value : null;
+
+export const getConsent = (): ConsentState | null => {
+  const match = document.cookie.split('; ').find((entry) => entry.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(match?.slice(CONSENT_COOKIE.length + 1));
+};
+
+export const setConsent = (state: ConsentState) => {
+  document.cookie = `${CONSENT_COOKIE}=${state}; path=/; max-age=${60 * 60 * 24 * 180}; samesite=lax`;
+  window.dispatchEvent(new CustomEvent<ConsentState>(CONSENT_EVENT, { detail: state }));
+};
+
+export const onConsentChange = (listener: (state: ConsentState) => void) => {
+  const handler = (event: Event) => listener((event as CustomEvent<ConsentState>).detail);
+  window.addEventListener(CONSENT_EVENT, handler);
+  return () => window.removeEventListener(CONSENT_EVENT, handler);
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export { CONSENT_COOKIE, parseConsent, type ConsentState } from './consent';
+export { validateEventBatch, MAX_EVENTS_PER_BATCH } from './validate';
+export { getEventStore, NdjsonFileEventStore, MemoryEventStore } from './store';
@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EventStore, StoredEvent } from './types';
+
+// Appends one JSON object per line, which keeps writes cheap and lets the file
+// be tailed or loaded straight into a spreadsheet or DuckDB for analysis.
+export class NdjsonFileEventStore implements EventStore {
+  constructor(private readonly filePath: string) {}
+
+  async append(events: StoredEvent[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, events.map((event) => `${JSON.stringify(event)}\n`).join(''));
+  }
+}
+
+export class MemoryEventStore implements EventStore {
+  readonly events: StoredEvent[] = [];
+
+  async append(events: StoredEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+}
+
+let store: EventStore | undefined;
+
+// ANALYTICS_STORE selects the adapter ("file" by default, or "memory");
+// ANALYTICS_FILE overrides where the file adapter writes.
+export const getEventStore = (): EventStore => {
+  if (store) return store;
+
+  if (process.env.ANALYTICS_STORE === 'memory') {
+    store = new MemoryEventStore();
+  } else {
+    store = new NdjsonFileEventStore(process.env.ANALYTICS_FILE ?? path.join(process.cwd(), '.data', 'events.ndjson'));
+  }
+
+  return store;
+};
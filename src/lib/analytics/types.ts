@@ -0,0 +1,23 @@
+export const eventTypes = ['page_view', 'section_view', 'cta_click', 'faq_open', 'outbound_click'] as const;
+
+export type EventType = (typeof eventTypes)[number];
+
+// What the browser sends. Deliberately carries no personal data: the session id
+// is random per tab and never tied to an account, IP address or cookie.
+export interface AnalyticsEvent {
+  type: EventType;
+  // Section id, CTA identifier, FAQ question or outbound destination.
+  name?: string;
+  path: string;
+  locale?: string;
+  sessionId: string;
+  timestamp: string;
+}
+
+export interface StoredEvent extends AnalyticsEvent {
+  receivedAt: string;
+}
+
+export interface EventStore {
+  append(events: StoredEvent[]): Promise<void>;
+}
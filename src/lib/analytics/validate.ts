@@ -0,0 +1,39 @@
+import { isRecord, readString, type ValidationResult } from '@/lib/validation';
+import { eventTypes, type AnalyticsEvent, type EventType } from './types';
+
+export const MAX_EVENTS_PER_BATCH = 50;
+
+const validateEvent = (value: unknown): AnalyticsEvent | null => {
+  if (!isRecord(value)) return null;
+
+  const type = value.type;
+  const path = readString(value.path, 300);
+  const sessionId = readString(value.sessionId, 64);
+  const timestamp = readString(value.timestamp, 40);
+  if (!eventTypes.includes(type as EventType) || !path || !sessionId || !timestamp) return null;
+  if (Number.isNaN(Date.parse(timestamp))) return null;
+
+  const name = value.name === undefined ? undefined : readString(value.name, 200);
+  const locale = value.locale === undefined ? undefined : readString(value.locale, 10);
+  if (name === null || locale === null) return null;
+
+  return { type: type as EventType, name, path, locale, sessionId, timestamp };
+};
+
+// Accepts `{ events: [...] }` and rejects the whole batch if any event is malformed.
+export const validateEventBatch = (payload: unknown): ValidationResult<AnalyticsEvent[]> => {
+  if (!isRecord(payload) || !Array.isArray(payload.events)) {
+    return { ok: false, errors: { events: 'Expected an "events" array.' } };
+  }
+  if (payload.events.length === 0 || payload.events.length > MAX_EVENTS_PER_BATCH) {
+    return { ok: false, errors: { events: `Send between 1 and ${MAX_EVENTS_PER_BATCH} events.` } };
+  }
+
+  const events: AnalyticsEvent[] = [];
+  for (const [index, entry] of payload.events.entries()) {
+    const event = validateEvent(entry);
+    if (!event) return { ok: false, errors: { [`events[${index}]`]: 'Malformed event.' } };
+    events.push(event);
+  }
+  return { ok: true, data: events };
+};
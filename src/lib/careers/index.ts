@@ -0,0 +1,3 @@
+export * from './types';
+export { validateApplication, validateCv, checkCvFile, formatFileSize, CV_ACCEPT, CV_MAX_BYTES } from './validate';
+export { getApplicationStore, FileApplicationStore, MemoryApplicationStore } from './store';
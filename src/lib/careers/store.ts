@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Application, ApplicationStore } from './types';
+
+const extensions: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+// Keeps applications in <dir>/applications.json and each CV next to it as
+// <dir>/cvs/<application id>.<ext>. Writes are chained like JsonFileLeadStore's.
+export class FileApplicationStore implements ApplicationStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  private get indexPath() {
+    return path.join(this.dir, 'applications.json');
+  }
+
+  private cvPath(application: Application): string {
+    return path.join(this.dir, 'cvs', `${application.id}.${extensions[application.cv.mimeType] ?? 'bin'}`);
+  }
+
+  async list(): Promise<Application[]> {
+    try {
+      const raw = await fs.readFile(this.indexPath, 'utf8');
+      return JSON.parse(raw) as Application[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  save(application: Application, cv: Uint8Array): Promise<void> {
+    const write = this.queue.then(async () => {
+      // The CV goes first, so the index never lists an application without one.
+      const cvPath = this.cvPath(application);
+      await fs.mkdir(path.dirname(cvPath), { recursive: true });
+      await fs.writeFile(cvPath, cv);
+
+      const applications = await this.list();
+      applications.push(application);
+      await fs.writeFile(this.indexPath, JSON.stringify(applications, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemoryApplicationStore implements ApplicationStore {
+  private readonly applications: Application[] = [];
+  readonly cvs = new Map<string, Uint8Array>();
+
+  async list(): Promise<Application[]> {
+    return [...this.applications];
+  }
+
+  async save(application: Application, cv: Uint8Array): Promise<void> {
+    this.applications.push(application);
+    this.cvs.set(application.id, cv);
+  }
+}
+
+let store: ApplicationStore | undefined;
+
+// APPLICATION_STORE selects the adapter ("file" by default, or "memory");
+// APPLICATIONS_DIR overrides where the file adapter writes.
+export const getApplicationStore = (): ApplicationStore => {
+  if (store) return store;
+
+  if (process.env.APPLICATION_STORE === 'memory') {
+    store = new MemoryApplicationStore();
+  } else {
+    store = new FileApplicationStore(process.env.APPLICATIONS_DIR ?? path.join(process.cwd(), '.data', 'applications'));
+  }
+
+  return store;
+};
@@ -0,0 +1,38 @@
+export const jobTypes = ['full-time', 'part-time', 'contract'] as const;
+
+export type JobType = (typeof jobTypes)[number];
+
+export const jobTypeLabels: Record<JobType, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  contract: 'Contract',
+};
+
+export interface ApplicationInput {
+  // Slug of the job posting applied for.
+  jobSlug: string;
+  name: string;
+  email: string;
+  phone: string;
+  // Optional note from the applicant.
+  message?: string;
+}
+
+export interface CvFile {
+  // File name as uploaded, for the hiring team's reference.
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface Application extends ApplicationInput {
+  id: string;
+  createdAt: string;
+  ip: string;
+  cv: CvFile;
+}
+
+export interface ApplicationStore {
+  save(application: Application, cv: Uint8Array): Promise<void>;
+  list(): Promise<Application[]>;
+}
@@ -0,0 +1,100 @@
+import {
+  isRecord,
+  normaliseNigerianPhone,
+  readEmail,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation';
+import type { ApplicationInput, CvFile } from './types';
+
+export const CV_MAX_BYTES = 5 * 1024 * 1024;
+
+interface CvFormat {
+  extension: string;
+  mimeType: string;
+  // Leading bytes every file of the format starts with.
+  signature: number[];
+}
+
+// Formats are recognised by their leading bytes as well as the extension, since
+// the MIME type a browser reports is easy to fake and often missing.
+const cvFormats: CvFormat[] = [
+  { extension: 'pdf', mimeType: 'application/pdf', signature: [0x25, 0x50, 0x44, 0x46] },
+  {
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    signature: [0x50, 0x4b, 0x03, 0x04],
+  },
+  { extension: 'doc', mimeType: 'application/msword', signature: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+
+// For the file input's accept attribute.
+export const CV_ACCEPT = cvFormats.flatMap((format) => [`.${format.extension}`, format.mimeType]).join(',');
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() ?? '';
+
+export const formatFileSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Checks what can be known before upload: the extension and the size.
+export const checkCvFile = (file: { name: string; size: number }): string | null => {
+  if (!file.name) return 'Please attach your CV.';
+  if (!cvFormats.some((format) => format.extension === extensionOf(file.name))) {
+    return 'Please upload your CV as a PDF or Word document.';
+  }
+  if (file.size === 0) return 'The selected file is empty.';
+  if (file.size > CV_MAX_BYTES) return `Your CV must be smaller than ${formatFileSize(CV_MAX_BYTES)}.`;
+  return null;
+};
+
+// Full check on the server, including the file's contents.
+export const validateCv = (file: { name: string; size: number }, bytes: Uint8Array): ValidationResult<CvFile> => {
+  const error = checkCvFile(file);
+  if (error) return { ok: false, errors: { cv: error } };
+
+  const format = cvFormats.find((entry) => entry.extension === extensionOf(file.name))!;
+  if (!format.signature.every((byte, index) => bytes[index] === byte)) {
+    return { ok: false, errors: { cv: 'This file does not look like a PDF or Word document.' } };
+  }
+
+  return { ok: true, data: { fileName: file.name, mimeType: format.mimeType, size: bytes.byteLength } };
+};
+
+export const validateApplication = (payload: unknown, jobSlugs: string[]): ValidationResult<ApplicationInput> => {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: { form: 'Expected form fields.' } };
+  }
+
+  const errors: FieldErrors = {};
+
+  const jobSlug = readString(payload.jobSlug, 80);
+  if (!jobSlug || !jobSlugs.includes(jobSlug)) errors.jobSlug = 'This role is no longer open.';
+
+  const name = readString(payload.name, 120);
+  if (!name) errors.name = 'Please enter your name.';
+
+  const email = readEmail(payload.email);
+  if (!email) errors.email = 'Please enter a valid email address.';
+
+  const phone = normaliseNigerianPhone(payload.phone);
+  if (!phone) errors.phone = 'Please enter a valid Nigerian phone number.';
+
+  const hasMessage = typeof payload.message === 'string' ? payload.message.trim() !== '' : payload.message !== undefined;
+  const message = hasMessage ? readString(payload.message, 2000) : undefined;
+  if (message === null) errors.message = 'Please keep your note under 2,000 characters.';
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      jobSlug: jobSlug!,
+      name: name!,
+      email: email!,
+      phone: phone!,
+      ...(message && { message }),
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { BarChart3, Database, MapPin, Target, TrendingUp, Zap, type LucideIcon } from 'lucide-react';
+
+// Icons content files may reference by name. Add an entry here before using a
+// new icon name in content/*.json.
+export const contentIcons = {
+  BarChart3,
+  Database,
+  MapPin,
+  Target,
+  TrendingUp,
+  Zap,
+} satisfies Record<string, LucideIcon>;
+
+export type IconName = keyof typeof contentIcons;
+
+export const iconNames = Object.keys(contentIcons) as IconName[];
@@ -0,0 +1,210 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import rawSite from '@content/site.json';
+import rawCareers from '@content/careers.json';
+import rawHowItWorks from '@content/how-it-works.json';
+import rawFeatures from '@content/features.json';
+import rawHelp from '@content/help.json';
+import rawJoin from '@content/join.json';
+import rawPosts from '@content/posts.json';
+import rawPricing from '@content/pricing.json';
+import rawProductTour from '@content/product-tour.json';
+import rawSolutions from '@content/solutions.json';
+import rawUseCases from '@content/use-cases.json';
+import rawWhyRaja from '@content/why-raja.json';
+import { defaultLocale, type Locale } from '@/lib/i18n';
+import { isPhoneVerificationAvailable } from '@/lib/onboarding';
+import { parseHelpMarkdown } from './markdown';
+import { applyOverlay } from './overlay';
+import { ContentValidationError, object, parseContent, type Schema } from './schema';
+import {
+  careersSchema,
+  featuresSchema,
+  helpSchema,
+  howItWorksSchema,
+  joinSchema,
+  postsSchema,
+  pricingSchema,
+  productTourSchema,
+  siteSchema,
+  solutionsSchema,
+  useCasesSchema,
+  whyRajaSchema,
+} from './schemas';
+import type { CareersContent, HelpContent, LandingContent, SolutionsContent } from './types';
+
+export * from './types';
+export { ContentValidationError };
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+
+const landingSchema = object({
+  site: siteSchema,
+  howItWorksSteps: howItWorksSchema,
+  features: featuresSchema,
+  productTour: productTourSchema,
+  useCases: useCasesSchema,
+  whyRaja: whyRajaSchema,
+});
+
+type LandingCopy = Omit<LandingContent, 'faqItems'>;
+
+const loadBaseContent = (): LandingCopy => ({
+  site: parseContent(siteSchema, rawSite, 'content/site.json'),
+  howItWorksSteps: parseContent(howItWorksSchema, rawHowItWorks, 'content/how-it-works.json'),
+  features: parseContent(featuresSchema, rawFeatures, 'content/features.json'),
+  productTour: parseContent(productTourSchema, rawProductTour, 'content/product-tour.json'),
+  useCases: parseContent(useCasesSchema, rawUseCases, 'content/use-cases.json'),
+  whyRaja: parseContent(whyRajaSchema, rawWhyRaja, 'content/why-raja.json'),
+});
+
+// Layers a locale's catalogue, if there is one, over the English base and
+// validates the result.
+const localise = <T>(schema: Schema<T>, base: T, locale: Locale, overlayFile: string): T => {
+  const file = path.join(CONTENT_DIR, overlayFile);
+  if (locale === defaultLocale || !existsSync(file)) return base;
+
+  const source = `content/${overlayFile}`;
+  const overlay: unknown = JSON.parse(readFileSync(file, 'utf8'));
+  return parseContent(schema, applyOverlay(base, overlay, source), source);
+};
+
+// Wraps a content loader so each locale is built and validated once.
+const catalogue = <T>(schema: Schema<T>, loadBase: () => T, overlayPath: (locale: Locale) => string) => {
+  const cache = new Map<Locale, T>();
+
+  return (locale: Locale = defaultLocale): T => {
+    const cached = cache.get(locale);
+    if (cached) return cached;
+
+    const content = localise(schema, loadBase(), locale, overlayPath(locale));
+    cache.set(locale, content);
+    return content;
+  };
+};
+
+const getLandingCopy = catalogue(landingSchema, loadBaseContent, (locale) => `locales/${locale}.json`);
+
+const loadBaseHelp = (): HelpContent => {
+  const source = 'content/help.md';
+  const help = parseContent(
+    helpSchema,
+    { ...rawHelp, categories: parseHelpMarkdown(readFileSync(path.join(CONTENT_DIR, 'help.md'), 'utf8')) },
+    source,
+  );
+
+  // Slugs become anchors on one page, so they must be unique across
+  // categories and questions, and featured questions must exist.
+  const seen = new Set<string>();
+  const issues = help.categories.flatMap((category) =>
+    [category, ...category.articles].flatMap((entry) => {
+      const duplicate = seen.has(entry.slug);
+      seen.add(entry.slug);
+      return duplicate ? [`{#${entry.slug}} is used by more than one heading`] : [];
+    }),
+  );
+  const articles = help.categories.flatMap((category) => category.articles);
+  issues.push(
+    ...help.featured
+      .filter((slug) => !articles.some((article) => article.slug === slug))
+      .map((slug) => `content/help.json featured: no question with slug "${slug}"`),
+  );
+  if (issues.length > 0) throw new ContentValidationError(source, issues);
+
+  return help;
+};
+
+// Categories and questions for /help, written in content/help.md, plus page
+// copy from content/help.json. Translations live in
+// content/locales/help/<locale>.json and match categories and questions by
+// position.
+export const getHelpContent = catalogue(helpSchema, loadBaseHelp, (locale) => `locales/help/${locale}.json`);
+
+// Loads and validates every content file the landing page renders, with the
+// locale's catalogue in content/locales/ layered over the English base. Called
+// while pages are prerendered, so malformed content fails `next build`. The
+// FAQ is the help centre's featured questions.
+export const getLandingContent = (locale: Locale = defaultLocale): LandingContent => {
+  const help = getHelpContent(locale);
+  const articles = help.categories.flatMap((category) => category.articles);
+  const copy = getLandingCopy(locale);
+  // /join is not served until phone verification is configured.
+  const links = isPhoneVerificationAvailable()
+    ? copy.site.nav.links
+    : copy.site.nav.links.filter((link) => link.href !== '/join');
+  return {
+    ...copy,
+    site: { ...copy.site, nav: { ...copy.site.nav, links } },
+    faqItems: help.featured.flatMap((slug) => articles.find((article) => article.slug === slug) ?? []),
+  };
+};
+
+const loadBaseSolutions = (): SolutionsContent => {
+  const source = 'content/solutions.json';
+  const solutions = parseContent(solutionsSchema, rawSolutions, source);
+  const { features, useCases } = loadBaseContent();
+
+  // Segments and highlighted features are referenced by id, so check them
+  // against the files they point into.
+  const issues = solutions.segments.flatMap((segment, index) => [
+    ...(useCases.some((useCase) => useCase.slug === segment.slug)
+      ? []
+      : [`segments[${index}].slug: no use case with slug "${segment.slug}"`]),
+    ...segment.features
+      .filter((id) => !features.some((feature) => feature.id === id))
+      .map((id) => `segments[${index}].features: no feature with id "${id}"`),
+  ]);
+  if (issues.length > 0) throw new ContentValidationError(source, issues);
+
+  return solutions;
+};
+
+// Copy for the /solutions/[segment] pages. Translations live in
+// content/locales/solutions/<locale>.json and follow the same overlay rules.
+export const getSolutionsContent = catalogue(
+  solutionsSchema,
+  loadBaseSolutions,
+  (locale) => `locales/solutions/${locale}.json`,
+);
+
+// Copy for the /pricing page; plans themselves are defined in src/lib/pricing.ts.
+export const getPricingContent = catalogue(
+  pricingSchema,
+  () => parseContent(pricingSchema, rawPricing, 'content/pricing.json'),
+  (locale) => `locales/pricing/${locale}.json`,
+);
+
+// Listing-page copy for /blog and /case-studies; the posts themselves are MDX
+// files loaded by src/lib/posts.
+export const getPostsContent = catalogue(
+  postsSchema,
+  () => parseContent(postsSchema, rawPosts, 'content/posts.json'),
+  (locale) => `locales/posts/${locale}.json`,
+);
+
+const loadBaseCareers = (): CareersContent => {
+  const source = 'content/careers.json';
+  const careers = parseContent(careersSchema, rawCareers, source);
+
+  // Slugs become URLs, so two postings must never share one.
+  const seen = new Set<string>();
+  const issues = careers.jobs.flatMap((job, index) => {
+    const duplicate = seen.has(job.slug);
+    seen.add(job.slug);
+    return duplicate ? [`jobs[${index}].slug: "${job.slug}" is used by another posting`] : [];
+  });
+  if (issues.length > 0) throw new ContentValidationError(source, issues);
+
+  return careers;
+};
+
+// Copy and job postings for the /careers pages. Translations live in
+// content/locales/careers/<locale>.json.
+export const getCareersContent = catalogue(careersSchema, loadBaseCareers, (locale) => `locales/careers/${locale}.json`);
+
+// Copy for the /join registration wizard; the form's own labels live with it.
+export const getJoinContent = catalogue(
+  joinSchema,
+  () => parseContent(joinSchema, rawJoin, 'content/join.json'),
+  (locale) => `locales/join/${locale}.json`,
+);
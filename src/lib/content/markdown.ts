@@ -0,0 +1,59 @@
+import type { HelpArticle, HelpCategory } from './types';
+
+// Splits "Question text {#slug}" into the text and its slug ('' when missing,
+// which the schema then reports).
+const splitHeading = (heading: string) => {
+  const match = heading.match(/^(.*?)\s*\{#([^}\s]+)\}$/);
+  return match ? { text: match[1], slug: match[2] } : { text: heading, slug: '' };
+};
+
+// Joins lines into paragraphs separated by a blank line, collapsing whitespace.
+const toParagraphs = (lines: string[]): string =>
+  lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+// Parses the help centre's Markdown source: every "# " heading starts a
+// category, the text after it is the category's description, and every "## "
+// heading is a question whose answer runs to the next heading. Headings end in
+// {#slug}. HTML comments are ignored.
+export const parseHelpMarkdown = (source: string): HelpCategory[] => {
+  const withoutComments = source.replace(/<!--[\s\S]*?-->/g, '');
+  const categories: HelpCategory[] = [];
+  let lines: string[] = [];
+  let article: HelpArticle | null = null;
+
+  const flush = () => {
+    const category = categories[categories.length - 1];
+    if (article) article.answer = toParagraphs(lines);
+    else if (category) category.description = toParagraphs(lines);
+    lines = [];
+  };
+
+  for (const line of withoutComments.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,2})\s+(.+?)\s*$/);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+
+    flush();
+    const { text, slug } = splitHeading(heading[2]);
+    if (heading[1] === '#') {
+      categories.push({ slug, title: text, description: '', articles: [] });
+      article = null;
+    } else {
+      article = { slug, question: text, answer: '' };
+      // Questions before the first category are kept in an untitled one, which
+      // fails validation rather than silently disappearing.
+      if (categories.length === 0) categories.push({ slug: '', title: '', description: '', articles: [] });
+      categories[categories.length - 1].articles.push(article);
+    }
+  }
+  flush();
+
+  return categories;
+};
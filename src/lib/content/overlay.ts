@@ -0,0 +1,46 @@
+import { ContentValidationError } from './schema';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deep-merges a translation overlay onto the base (English) content. Objects
+// merge by key and arrays by index, so a catalogue only has to contain the
+// strings that have been translated; everything else falls back to English.
+// Structural mismatches are reported; field-level checks are left to the schema
+// that validates the merged result.
+export const applyOverlay = (base: unknown, overlay: unknown, source: string): unknown => {
+  const issues: string[] = [];
+
+  const merge = (baseValue: unknown, overlayValue: unknown, path: string): unknown => {
+    if (overlayValue === undefined) return baseValue;
+
+    if (Array.isArray(baseValue)) {
+      if (!Array.isArray(overlayValue)) {
+        issues.push(`${path}: expected array`);
+        return baseValue;
+      }
+      if (overlayValue.length > baseValue.length) {
+        issues.push(`${path}: has ${overlayValue.length} entries but the base content only has ${baseValue.length}`);
+      }
+      return baseValue.map((entry, index) => merge(entry, overlayValue[index], `${path}[${index}]`));
+    }
+
+    if (isPlainObject(baseValue)) {
+      if (!isPlainObject(overlayValue)) {
+        issues.push(`${path}: expected object`);
+        return baseValue;
+      }
+      const merged: Record<string, unknown> = { ...baseValue };
+      for (const [key, value] of Object.entries(overlayValue)) {
+        merged[key] = merge(baseValue[key], value, `${path}.${key}`);
+      }
+      return merged;
+    }
+
+    return overlayValue;
+  };
+
+  const result = merge(base, overlay, '$');
+  if (issues.length > 0) throw new ContentValidationError(source, issues);
+  return result;
+};
@@ -0,0 +1,88 @@
+// A deliberately tiny schema layer for content files. Each schema both checks
+// an unknown value and narrows its type, collecting every problem it finds so
+// a single build run reports all broken entries at once.
+
+export type Schema<T> = (value: unknown, path: string, issues: string[]) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ContentValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid content in ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const string = ({ min = 1, max = 2000 }: { min?: number; max?: number } = {}): Schema<string> =>
+  (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push(`${path}: expected string, got ${describe(value)}`);
+      return '';
+    }
+    const length = value.trim().length;
+    if (length < min) issues.push(`${path}: must not be empty`);
+    if (length > max) issues.push(`${path}: must be at most ${max} characters`);
+    return value;
+  };
+
+export const number = ({ min = -Infinity, max = Infinity }: { min?: number; max?: number } = {}): Schema<number> =>
+  (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${path}: expected number, got ${describe(value)}`);
+      return 0;
+    }
+    if (value < min || value > max) issues.push(`${path}: must be between ${min} and ${max}`);
+    return value;
+  };
+
+export const oneOf = <T extends string>(options: readonly T[]): Schema<T> =>
+  (value, path, issues) => {
+    if (!options.includes(value as T)) {
+      issues.push(`${path}: expected one of ${options.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+
+export const array = <T>(item: Schema<T>, { min = 0 }: { min?: number } = {}): Schema<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected array, got ${describe(value)}`);
+      return [];
+    }
+    if (value.length < min) issues.push(`${path}: expected at least ${min} entries`);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+
+export const object = <S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected object, got ${describe(value)}`);
+      return {} as { [K in keyof S]: Infer<S[K]> };
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!(key in shape)) issues.push(`${path}.${key}: unknown field`);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      result[key] = schema(record[key], `${path}.${key}`, issues);
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  };
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path, issues) => (value === undefined ? undefined : schema(value, path, issues));
+
+// Validates a parsed content file and throws with every issue if it is malformed.
+export const parseContent = <T>(schema: Schema<T>, value: unknown, source: string): T => {
+  const issues: string[] = [];
+  const result = schema(value, '$', issues);
+  if (issues.length > 0) throw new ContentValidationError(source, issues);
+  return result;
+};
@@ -0,0 +1,423 @@
+import { jobTypes } from '@/lib/careers/types';
+import { locales } from '@/lib/i18n';
+import { sectionIds, type NavSection } from '@/lib/sections';
+import { statKeys } from '@/lib/stats/types';
+import { chatTeams, type WhatsAppConfig } from '@/lib/whatsapp/types';
+import { iconNames } from './icons';
+import { array, number, object, oneOf, optional, string, type Schema } from './schema';
+import type {
+  CareersContent,
+  FAQEntry,
+  HelpContent,
+  FeatureItem,
+  HowItWorksStep,
+  JobPosting,
+  JoinContent,
+  Link,
+  PostIndexCopy,
+  PostsContent,
+  PricingContent,
+  ProductTourTab,
+  SectionCopy,
+  SiteContent,
+  SolutionsContent,
+  UseCaseCard,
+  WhyRajaItem,
+} from './types';
+
+// Annotating each schema with its interface keeps the runtime checks and the
+// TypeScript types from drifting apart.
+
+const link: Schema<Link> = object({ label: string({ max: 80 }), href: string() });
+
+const navSection: Schema<NavSection> = object({
+  id: oneOf(sectionIds),
+  label: string({ max: 80 }),
+  order: number({ min: 0 }),
+});
+
+const section: Schema<SectionCopy> = object({
+  title: string({ max: 120 }),
+  subtitle: optional(string({ max: 300 })),
+  cta: optional(link),
+});
+
+const icon = oneOf(iconNames);
+
+const slug = string({ max: 60 });
+
+export const howItWorksSchema: Schema<HowItWorksStep[]> = array(
+  object({ step: string({ max: 4 }), title: string({ max: 80 }), description: string({ max: 300 }), icon }),
+  { min: 1 },
+);
+
+export const featuresSchema: Schema<FeatureItem[]> = array(
+  object({ id: slug, icon, title: string({ max: 80 }), description: string({ max: 300 }) }),
+  { min: 1 },
+);
+
+const percent = number({ min: 0, max: 100 });
+
+export const productTourSchema: Schema<ProductTourTab[]> = array(
+  object({
+    id: string({ max: 40 }),
+    label: string({ max: 40 }),
+    image: object({ src: string(), width: number({ min: 1 }), height: number({ min: 1 }), alt: string({ max: 300 }) }),
+    caption: string({ max: 400 }),
+    hotspots: array(object({ x: percent, y: percent, title: string({ max: 60 }), description: string({ max: 200 }) })),
+  }),
+  { min: 1 },
+);
+
+export const useCasesSchema: Schema<UseCaseCard[]> = array(
+  object({ slug, title: string({ max: 80 }), description: string({ max: 300 }), gradient: string() }),
+  { min: 1 },
+);
+
+export const whyRajaSchema: Schema<WhyRajaItem[]> = array(
+  object({ title: string({ max: 80 }), description: string({ max: 300 }) }),
+  { min: 1 },
+);
+
+const faqEntry: Schema<FAQEntry> = object({ question: string({ max: 200 }), answer: string({ max: 1500 }) });
+
+const newsletterPage = object({ title: string({ max: 80 }), description: string({ max: 300 }) });
+
+const newsletterActionPage = object({ title: string({ max: 80 }), description: string({ max: 300 }), submit: string({ max: 40 }) });
+
+const leadFields = (field: Schema<string>) =>
+  object({ name: field, company: field, role: field, phone: field, territory: field, retailerCount: field });
+
+export const siteSchema: Schema<SiteContent> = object({
+  // Search results truncate titles around 60 characters and descriptions around 160.
+  meta: object({ title: string({ max: 70 }), description: string({ max: 200 }) }),
+  nav: object({
+    sections: array(navSection, { min: 1 }),
+    links: array(link),
+    login: link,
+    languageLabel: string({ max: 40 }),
+    menuLabel: string({ max: 60 }),
+    label: string({ max: 40 }),
+    skipLinkLabel: string({ max: 60 }),
+    darkThemeLabel: string({ max: 40 }),
+  }),
+  hero: object({
+    badge: string({ max: 80 }),
+    title: string({ max: 120 }),
+    description: string({ max: 400 }),
+    secondaryCta: link,
+    highlights: array(string({ max: 60 })),
+    card: object({
+      badge: string({ max: 60 }),
+      description: string({ max: 400 }),
+      items: array(
+        object({ icon, tone: oneOf(['green', 'blue', 'purple'] as const), title: string({ max: 60 }), description: string({ max: 120 }) }),
+      ),
+    }),
+  }),
+  stats: array(
+    object({
+      key: oneOf(statKeys),
+      label: string({ max: 60 }),
+      format: oneOf(['number', 'compact', 'percent'] as const),
+      suffix: optional(string({ max: 4 })),
+    }),
+    { min: 1 },
+  ),
+  sections: object({
+    howItWorks: section,
+    features: section,
+    productTour: section,
+    coverage: section,
+    forecast: section,
+    useCases: section,
+    whyRaja: section,
+    faq: section,
+    cta: section,
+  }),
+  consent: object({
+    label: string({ max: 60 }),
+    message: string({ max: 300 }),
+    accept: string({ max: 30 }),
+    decline: string({ max: 30 }),
+  }),
+  chat: object({
+    buttonLabel: string({ max: 60 }),
+    title: string({ max: 60 }),
+    onlineStatus: string({ max: 120 }),
+    offlineStatus: string({ max: 200 }),
+    openChat: string({ max: 40 }),
+    offlineCta: string({ max: 60 }),
+    offlineChat: string({ max: 60 }),
+    closeLabel: string({ max: 40 }),
+    messages: object({
+      default: string({ max: 300 }),
+      section: string({ max: 300 }),
+      segment: string({ max: 300 }),
+      plan: string({ max: 300 }),
+      careers: string({ max: 300 }),
+      retailers: string({ max: 300 }),
+    }),
+  }),
+  newsletter: object({
+    title: string({ max: 80 }),
+    description: string({ max: 300 }),
+    emailLabel: string({ max: 40 }),
+    emailPlaceholder: string({ max: 60 }),
+    interestsLabel: string({ max: 60 }),
+    submit: string({ max: 30 }),
+    submitting: string({ max: 30 }),
+    success: string({ max: 200 }),
+    pages: object({
+      confirmed: newsletterPage,
+      unsubscribed: newsletterPage,
+      invalid: newsletterPage,
+    }),
+    actions: object({
+      confirm: newsletterActionPage,
+      unsubscribe: newsletterActionPage,
+    }),
+    queued: string({ max: 200 }),
+    backHome: string({ max: 60 }),
+  }),
+  leadForm: object({
+    labels: leadFields(string({ max: 40 })),
+    rolePlaceholder: string({ max: 40 }),
+    phonePlaceholder: string({ max: 40 }),
+    territoryPlaceholder: string({ max: 60 }),
+    submit: string({ max: 40 }),
+    submitting: string({ max: 30 }),
+    fieldErrors: leadFields(string({ max: 120 })),
+    errors: object({ invalid: string({ max: 120 }), failed: string({ max: 120 }), unreachable: string({ max: 160 }) }),
+    success: object({ title: string({ max: 80 }), description: string({ max: 200 }) }),
+    queued: object({ title: string({ max: 80 }), description: string({ max: 300 }) }),
+  }),
+  tour: object({
+    tabsLabel: string({ max: 40 }),
+    viewFullSize: string({ max: 40 }),
+    dialogLabel: string({ max: 60 }),
+    close: string({ max: 30 }),
+    previous: string({ max: 40 }),
+    next: string({ max: 40 }),
+  }),
+  coverageMap: object({
+    mapLabel: string({ max: 300 }),
+    retailers: string({ max: 60 }),
+    states: string({ max: 60 }),
+    clusters: string({ max: 60 }),
+    heatmap: string({ max: 30 }),
+    zoomIn: string({ max: 30 }),
+    zoomOut: string({ max: 30 }),
+    reset: string({ max: 30 }),
+    retailer: string({ max: 80 }),
+    cluster: string({ max: 80 }),
+    clusterTitle: string({ max: 80 }),
+    monthlyOrders: string({ max: 60 }),
+    disclaimer: string({ max: 300 }),
+  }),
+  forecast: object({
+    retailerCount: string({ max: 80 }),
+    averageOrderValue: string({ max: 80 }),
+    ordersPerMonth: string({ max: 80 }),
+    territoryType: string({ max: 60 }),
+    territoryTypes: object({
+      urban: string({ max: 40 }),
+      'market-hub': string({ max: 40 }),
+      'peri-urban': string({ max: 40 }),
+      rural: string({ max: 40 }),
+    }),
+    result: string({ max: 80 }),
+    range: string({ max: 80 }),
+    currentMonthly: string({ max: 60 }),
+    gap: string({ max: 60 }),
+    reachableRetailers: string({ max: 80 }),
+    share: string({ max: 40 }),
+    copied: string({ max: 40 }),
+    disclaimer: string({ max: 300 }),
+  }),
+  offline: object({
+    title: string({ max: 80 }),
+    description: string({ max: 300 }),
+    contactTitle: string({ max: 60 }),
+    emailLabel: string({ max: 40 }),
+    whatsAppLabel: string({ max: 40 }),
+    callLabel: string({ max: 40 }),
+    formTitle: string({ max: 80 }),
+    retry: string({ max: 30 }),
+  }),
+  install: object({
+    title: string({ max: 40 }),
+    description: string({ max: 160 }),
+    action: string({ max: 30 }),
+    dismiss: string({ max: 30 }),
+  }),
+  footer: object({
+    tagline: string({ max: 200 }),
+    contactTitle: string({ max: 40 }),
+    email: string({ max: 120 }),
+    quickLinksTitle: string({ max: 40 }),
+    copyright: string({ max: 200 }),
+  }),
+});
+
+const pageMeta = object({ title: string({ max: 70 }), description: string({ max: 200 }) });
+
+const pageHero = object({ badge: string({ max: 60 }), title: string({ max: 120 }), description: string({ max: 400 }) });
+
+export const solutionsSchema: Schema<SolutionsContent> = object({
+  labels: object({
+    painPoints: string({ max: 80 }),
+    features: string({ max: 80 }),
+    faq: string({ max: 80 }),
+    primaryCta: string({ max: 40 }),
+    secondaryCta: string({ max: 40 }),
+  }),
+  segments: array(
+    object({
+      slug,
+      meta: pageMeta,
+      hero: pageHero,
+      painPoints: array(object({ title: string({ max: 80 }), description: string({ max: 300 }) }), { min: 1 }),
+      features: array(slug, { min: 1 }),
+      faq: array(faqEntry, { min: 1 }),
+      cta: section,
+    }),
+    { min: 1 },
+  ),
+});
+
+const planCopy = object({ description: string({ max: 160 }) });
+
+const label = string({ max: 60 });
+
+export const pricingSchema: Schema<PricingContent> = object({
+  meta: pageMeta,
+  hero: pageHero,
+  sections: object({ matrix: section, roi: section, cta: section }),
+  plans: object({ starter: planCopy, growth: planCopy, enterprise: planCopy }),
+  labels: object({
+    billingPeriod: label,
+    billing: object({ monthly: label, annual: label }),
+    currency: label,
+    usdNote: string({ max: 160 }),
+    mostPopular: label,
+    perMonth: label,
+    billedMonthly: label,
+    billedYearly: string({ max: 100 }),
+    custom: label,
+    requestWalkthrough: label,
+    talkToSales: label,
+    plan: label,
+    unlimited: label,
+    included: label,
+    notIncluded: label,
+    limits: object({ retailers: label, territories: label, seats: label }),
+  }),
+  estimator: object({
+    cost: label,
+    costHint: string({ max: 160 }),
+    plan: label,
+    result: label,
+    planCost: label,
+    netBenefit: label,
+    returnOnCost: label,
+    payback: label,
+    paybackDays: label,
+    paybackMonths: label,
+    disclaimer: string({ max: 300 }),
+  }),
+});
+
+const postIndex: Schema<PostIndexCopy> = object({ meta: pageMeta, hero: pageHero });
+
+export const postsSchema: Schema<PostsContent> = object({ blog: postIndex, 'case-studies': postIndex });
+
+const isoDate: Schema<string> = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    issues.push(`${path}: expected a date such as 2025-01-31`);
+    return '';
+  }
+  return value;
+};
+
+const jobPosting: Schema<JobPosting> = object({
+  slug,
+  title: string({ max: 80 }),
+  team: string({ max: 60 }),
+  location: string({ max: 60 }),
+  type: oneOf(jobTypes),
+  posted: isoDate,
+  summary: string({ max: 200 }),
+  description: string({ max: 1500 }),
+  responsibilities: array(string({ max: 200 }), { min: 1 }),
+  requirements: array(string({ max: 200 }), { min: 1 }),
+});
+
+export const careersSchema: Schema<CareersContent> = object({
+  meta: pageMeta,
+  hero: pageHero,
+  jobs: array(jobPosting),
+});
+
+export const joinSchema: Schema<JoinContent> = object({
+  meta: pageMeta,
+  hero: pageHero,
+});
+
+const timeOfDay: Schema<string> = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    issues.push(`${path}: expected a 24-hour time such as 08:00`);
+    return '';
+  }
+  return value;
+};
+
+export const whatsAppSchema: Schema<WhatsAppConfig> = object({
+  hours: object({
+    days: array(number({ min: 0, max: 6 }), { min: 1 }),
+    open: timeOfDay,
+    close: timeOfDay,
+  }),
+  contacts: array(
+    object({
+      team: oneOf(chatTeams),
+      number: (value, path, issues) => {
+        if (typeof value !== 'string' || !/^[1-9]\d{7,14}$/.test(value)) {
+          issues.push(`${path}: expected an international number in digits only, such as 2348129901643`);
+          return '';
+        }
+        return value;
+      },
+      locales: optional(array(oneOf(locales), { min: 1 })),
+    }),
+    { min: 1 },
+  ),
+});
+
+export const helpSchema: Schema<HelpContent> = object({
+  meta: pageMeta,
+  hero: pageHero,
+  labels: object({
+    search: string({ max: 60 }),
+    searchPlaceholder: string({ max: 80 }),
+    categories: string({ max: 60 }),
+    results: string({ max: 120 }),
+    noResults: string({ max: 160 }),
+    clearSearch: string({ max: 40 }),
+    helpful: string({ max: 60 }),
+    yes: string({ max: 20 }),
+    no: string({ max: 20 }),
+    thanks: string({ max: 120 }),
+    copyLink: string({ max: 60 }),
+  }),
+  featured: array(slug, { min: 1 }),
+  categories: array(
+    object({
+      slug,
+      title: string({ max: 60 }),
+      description: string({ max: 200 }),
+      articles: array(object({ slug, question: string({ max: 200 }), answer: string({ max: 1500 }) }), { min: 1 }),
+    }),
+    { min: 1 },
+  ),
+});
@@ -0,0 +1,393 @@
+import type { JobType } from '@/lib/careers/types';
+import type { TerritoryType } from '@/lib/forecast';
+import type { LeadInput } from '@/lib/leads/types';
+import type { NewsletterAction, NewsletterPage } from '@/lib/newsletter/types';
+import type { BillingPeriod, PlanId, PlanLimits } from '@/lib/pricing';
+import type { NavSection } from '@/lib/sections';
+import type { StatKey } from '@/lib/stats/types';
+import type { ChatMessages } from '@/lib/whatsapp/chat';
+import type { IconName } from './icons';
+
+export interface Link {
+  label: string;
+  href: string;
+}
+
+export interface SectionCopy {
+  title: string;
+  subtitle?: string;
+  // Optional link below the section, e.g. to a page with more detail.
+  cta?: Link;
+}
+
+export interface HowItWorksStep {
+  step: string;
+  title: string;
+  description: string;
+  icon: IconName;
+}
+
+export interface UseCaseCard {
+  // URL segment of the use case's solutions page.
+  slug: string;
+  title: string;
+  description: string;
+  gradient: string;
+}
+
+export interface FeatureItem {
+  id: string;
+  icon: IconName;
+  title: string;
+  description: string;
+}
+
+export interface WhyRajaItem {
+  title: string;
+  description: string;
+}
+
+export interface ProductTourHotspot {
+  // Position of the marker as a percentage of the screenshot's width and height.
+  x: number;
+  y: number;
+  title: string;
+  description: string;
+}
+
+export interface ProductTourTab {
+  id: string;
+  label: string;
+  image: { src: string; width: number; height: number; alt: string };
+  caption: string;
+  hotspots: ProductTourHotspot[];
+}
+
+export interface FAQEntry {
+  question: string;
+  answer: string;
+}
+
+export type StatFormat = 'number' | 'compact' | 'percent';
+
+// Copy for one social-proof figure; the number itself comes from the stats feed.
+export interface StatItem {
+  key: StatKey;
+  label: string;
+  format: StatFormat;
+  suffix?: string;
+}
+
+export type HeroCardTone = 'green' | 'blue' | 'purple';
+
+export interface HeroCardItem {
+  icon: IconName;
+  tone: HeroCardTone;
+  title: string;
+  description: string;
+}
+
+export interface SiteContent {
+  meta: {
+    title: string;
+    description: string;
+  };
+  nav: {
+    // Home-page sections, linked as "#id".
+    sections: NavSection[];
+    // Other pages, e.g. "/pricing".
+    links: Link[];
+    login: Link;
+    languageLabel: string;
+    menuLabel: string;
+    // Accessible name of the navigation landmark.
+    label: string;
+    skipLinkLabel: string;
+    // Accessible name of the dark theme toggle.
+    darkThemeLabel: string;
+  };
+  hero: {
+    badge: string;
+    title: string;
+    description: string;
+    secondaryCta: Link;
+    highlights: string[];
+    card: {
+      badge: string;
+      description: string;
+      items: HeroCardItem[];
+    };
+  };
+  stats: StatItem[];
+  sections: Record<'howItWorks' | 'features' | 'productTour' | 'coverage' | 'forecast' | 'useCases' | 'whyRaja' | 'faq' | 'cta', SectionCopy>;
+  // The analytics consent banner.
+  consent: {
+    label: string;
+    message: string;
+    accept: string;
+    decline: string;
+  };
+  // Copy for the WhatsApp chat widget; numbers and hours are in content/whatsapp.json.
+  chat: {
+    buttonLabel: string;
+    title: string;
+    onlineStatus: string;
+    // {hours} is replaced with the business hours, e.g. "Mon–Sat, 08:00–18:00 WAT".
+    offlineStatus: string;
+    openChat: string;
+    offlineCta: string;
+    offlineChat: string;
+    closeLabel: string;
+    // Pre-filled chat messages; {section}, {segment} and {plan} are filled in.
+    messages: ChatMessages;
+  };
+  // Copy for the newsletter signup and the pages its emailed links land on.
+  newsletter: {
+    title: string;
+    description: string;
+    emailLabel: string;
+    emailPlaceholder: string;
+    interestsLabel: string;
+    submit: string;
+    submitting: string;
+    success: string;
+    pages: Record<NewsletterPage, { title: string; description: string }>;
+    // Emailed links open these; the subscription only changes on the button.
+    actions: Record<NewsletterAction, { title: string; description: string; submit: string }>;
+    // Shown when the signup was saved offline, to be sent once back online.
+    queued: string;
+    backHome: string;
+  };
+  // The walkthrough request form. Field errors are shown by field name, whatever
+  // message the server sent.
+  leadForm: {
+    labels: Record<keyof LeadInput, string>;
+    rolePlaceholder: string;
+    phonePlaceholder: string;
+    territoryPlaceholder: string;
+    submit: string;
+    submitting: string;
+    fieldErrors: Record<keyof LeadInput, string>;
+    errors: { invalid: string; failed: string; unreachable: string };
+    success: { title: string; description: string };
+    // Shown when the request was saved offline, to be sent once back online.
+    queued: { title: string; description: string };
+  };
+  // Controls of the product tour; the views themselves are in content/product-tour.json.
+  tour: {
+    tabsLabel: string;
+    viewFullSize: string;
+    // {view} is replaced with the view's label.
+    dialogLabel: string;
+    close: string;
+    previous: string;
+    next: string;
+  };
+  // The sample coverage map. {count}, {id} and {state} are filled in.
+  coverageMap: {
+    mapLabel: string;
+    retailers: string;
+    states: string;
+    clusters: string;
+    heatmap: string;
+    zoomIn: string;
+    zoomOut: string;
+    reset: string;
+    retailer: string;
+    cluster: string;
+    clusterTitle: string;
+    monthlyOrders: string;
+    disclaimer: string;
+  };
+  // The territory forecast calculator; the model itself is src/lib/forecast.ts.
+  forecast: {
+    retailerCount: string;
+    averageOrderValue: string;
+    ordersPerMonth: string;
+    territoryType: string;
+    territoryTypes: Record<TerritoryType, string>;
+    result: string;
+    // {low} and {high} are replaced with amounts in naira.
+    range: string;
+    currentMonthly: string;
+    gap: string;
+    reachableRetailers: string;
+    share: string;
+    copied: string;
+    disclaimer: string;
+  };
+  // The page the service worker shows for pages that aren't saved offline.
+  offline: {
+    title: string;
+    description: string;
+    contactTitle: string;
+    emailLabel: string;
+    whatsAppLabel: string;
+    callLabel: string;
+    formTitle: string;
+    retry: string;
+  };
+  // Prompt to add the site to the home screen.
+  install: {
+    title: string;
+    description: string;
+    action: string;
+    dismiss: string;
+  };
+  footer: {
+    tagline: string;
+    contactTitle: string;
+    email: string;
+    quickLinksTitle: string;
+    copyright: string;
+  };
+}
+
+export interface LandingContent {
+  site: SiteContent;
+  howItWorksSteps: HowItWorksStep[];
+  features: FeatureItem[];
+  productTour: ProductTourTab[];
+  useCases: UseCaseCard[];
+  whyRaja: WhyRajaItem[];
+  // The help centre's featured questions, shown in the home-page FAQ.
+  faqItems: HelpArticle[];
+}
+
+export interface SolutionSegment {
+  // Matches the slug of a use case.
+  slug: string;
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+  painPoints: { title: string; description: string }[];
+  // Ids of the entries in content/features.json to highlight.
+  features: string[];
+  faq: FAQEntry[];
+  cta: SectionCopy;
+}
+
+export interface SolutionsContent {
+  labels: {
+    painPoints: string;
+    features: string;
+    faq: string;
+    primaryCta: string;
+    secondaryCta: string;
+  };
+  segments: SolutionSegment[];
+}
+
+export interface PricingContent {
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+  sections: Record<'matrix' | 'roi' | 'cta', SectionCopy>;
+  // Prices and limits are defined in src/lib/pricing.ts; only the copy is here.
+  plans: Record<PlanId, { description: string }>;
+  // Billing and currency toggles, plan cards and the comparison table.
+  labels: {
+    billingPeriod: string;
+    billing: Record<BillingPeriod, string>;
+    currency: string;
+    usdNote: string;
+    mostPopular: string;
+    perMonth: string;
+    billedMonthly: string;
+    // {amount} and {free} (months) are filled in.
+    billedYearly: string;
+    custom: string;
+    requestWalkthrough: string;
+    talkToSales: string;
+    plan: string;
+    unlimited: string;
+    included: string;
+    notIncluded: string;
+    limits: Record<keyof PlanLimits, string>;
+  };
+  estimator: {
+    // {symbol} is the currency symbol.
+    cost: string;
+    costHint: string;
+    plan: string;
+    result: string;
+    // {plan} is the plan name.
+    planCost: string;
+    netBenefit: string;
+    returnOnCost: string;
+    payback: string;
+    // {count} is filled in.
+    paybackDays: string;
+    paybackMonths: string;
+    disclaimer: string;
+  };
+}
+
+export interface PostIndexCopy {
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+}
+
+// Listing-page copy for each post collection in content/blog and content/case-studies.
+export interface PostsContent {
+  blog: PostIndexCopy;
+  'case-studies': PostIndexCopy;
+}
+
+export interface JobPosting {
+  slug: string;
+  title: string;
+  team: string;
+  // City, territory or "Remote"; the careers page filters on it.
+  location: string;
+  type: JobType;
+  // Date the role was advertised, as YYYY-MM-DD.
+  posted: string;
+  summary: string;
+  description: string;
+  responsibilities: string[];
+  requirements: string[];
+}
+
+export interface CareersContent {
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+  jobs: JobPosting[];
+}
+
+export interface JoinContent {
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+}
+
+export interface HelpArticle extends FAQEntry {
+  // Anchor of the question on /help.
+  slug: string;
+}
+
+export interface HelpCategory {
+  slug: string;
+  title: string;
+  description: string;
+  articles: HelpArticle[];
+}
+
+export interface HelpContent {
+  meta: { title: string; description: string };
+  hero: { badge: string; title: string; description: string };
+  labels: {
+    search: string;
+    searchPlaceholder: string;
+    categories: string;
+    // {count} and {query} are filled in.
+    results: string;
+    noResults: string;
+    clearSearch: string;
+    helpful: string;
+    yes: string;
+    no: string;
+    thanks: string;
+    copyLink: string;
+  };
+  // Slugs of the questions shown in the home-page FAQ, in order.
+  featured: string[];
+  categories: HelpCategory[];
+}
@@ -0,0 +1,7 @@
+import rawUseCases from '@content/use-cases.json';
+import { parseContent } from './schema';
+import { useCasesSchema } from './schemas';
+
+// Use cases double as the audience segments offered by forms, so they are
+// exposed on their own for client components that can't read the filesystem.
+export const useCases = parseContent(useCasesSchema, rawUseCases, 'content/use-cases.json');
@@ -0,0 +1,117 @@
+// Territory demand forecasting used by the calculator widget.
+//
+// The model mirrors how RAJA extrapolates from comparable zones:
+//
+//   current   = retailers × average order value × orders per month
+//   reachable = retailers ÷ typical coverage rate for the territory type
+//   potential = reachable × average order value × max(orders per month, benchmark frequency)
+//   gap       = potential − current
+//
+// Coverage rates and benchmark frequencies are medians observed across
+// comparable territories of each type. Each profile also carries an
+// uncertainty band that widens the potential into a low/high range, since
+// sparse territories extrapolate less reliably than dense ones.
+
+export type TerritoryType = 'urban' | 'market-hub' | 'peri-urban' | 'rural';
+
+export interface TerritoryProfile {
+  coverageRate: number;
+  benchmarkOrdersPerMonth: number;
+  uncertainty: number;
+}
+
+export const territoryProfiles: Record<TerritoryType, TerritoryProfile> = {
+  urban: { coverageRate: 0.65, benchmarkOrdersPerMonth: 6, uncertainty: 0.15 },
+  'market-hub': { coverageRate: 0.55, benchmarkOrdersPerMonth: 8, uncertainty: 0.2 },
+  'peri-urban': { coverageRate: 0.5, benchmarkOrdersPerMonth: 4, uncertainty: 0.2 },
+  rural: { coverageRate: 0.35, benchmarkOrdersPerMonth: 2.5, uncertainty: 0.3 },
+};
+
+export const territoryTypes = Object.keys(territoryProfiles) as TerritoryType[];
+
+export interface ForecastInput {
+  retailerCount: number;
+  averageOrderValue: number;
+  ordersPerMonth: number;
+  territoryType: TerritoryType;
+}
+
+export interface ForecastResult {
+  currentMonthly: number;
+  potentialMonthly: number;
+  gapMonthly: number;
+  // Share of the potential that is not yet being captured, 0..1.
+  gapShare: number;
+  reachableRetailers: number;
+  range: { low: number; high: number };
+}
+
+export const defaultForecastInput: ForecastInput = {
+  retailerCount: 120,
+  averageOrderValue: 45000,
+  ordersPerMonth: 3,
+  territoryType: 'urban',
+};
+
+export const forecastTerritory = (input: ForecastInput): ForecastResult => {
+  const profile = territoryProfiles[input.territoryType];
+  const retailerCount = Math.max(0, input.retailerCount);
+  const averageOrderValue = Math.max(0, input.averageOrderValue);
+  const ordersPerMonth = Math.max(0, input.ordersPerMonth);
+
+  const currentMonthly = retailerCount * averageOrderValue * ordersPerMonth;
+  const reachableRetailers = Math.round(retailerCount / profile.coverageRate);
+  const potentialFrequency = Math.max(ordersPerMonth, profile.benchmarkOrdersPerMonth);
+  const potentialMonthly = reachableRetailers * averageOrderValue * potentialFrequency;
+  const gapMonthly = Math.max(potentialMonthly - currentMonthly, 0);
+
+  return {
+    currentMonthly,
+    potentialMonthly,
+    gapMonthly,
+    gapShare: potentialMonthly > 0 ? gapMonthly / potentialMonthly : 0,
+    reachableRetailers,
+    range: {
+      // The potential can never be estimated below what is already being sold.
+      low: Math.max(potentialMonthly * (1 - profile.uncertainty), currentMonthly),
+      high: potentialMonthly * (1 + profile.uncertainty),
+    },
+  };
+};
+
+const QUERY_KEYS = {
+  retailerCount: 'retailers',
+  averageOrderValue: 'aov',
+  ordersPerMonth: 'freq',
+  territoryType: 'territory',
+} as const;
+
+const readPositive = (params: URLSearchParams, key: string, fallback: number): number => {
+  const raw = params.get(key)?.trim();
+  // Number('') is 0, so a blank parameter would otherwise zero the field.
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Reads calculator inputs from a shared URL, falling back to defaults for any
+// missing or malformed parameter.
+export const parseForecastParams = (params: URLSearchParams): ForecastInput => {
+  const territory = params.get(QUERY_KEYS.territoryType);
+
+  return {
+    retailerCount: Math.round(readPositive(params, QUERY_KEYS.retailerCount, defaultForecastInput.retailerCount)),
+    averageOrderValue: readPositive(params, QUERY_KEYS.averageOrderValue, defaultForecastInput.averageOrderValue),
+    ordersPerMonth: readPositive(params, QUERY_KEYS.ordersPerMonth, defaultForecastInput.ordersPerMonth),
+    territoryType: territoryTypes.includes(territory as TerritoryType)
+      ? (territory as TerritoryType)
+      : defaultForecastInput.territoryType,
+  };
+};
+
+export const toForecastParams = (input: ForecastInput): URLSearchParams =>
+  new URLSearchParams({
+    [QUERY_KEYS.retailerCount]: String(input.retailerCount),
+    [QUERY_KEYS.averageOrderValue]: String(input.averageOrderValue),
+    [QUERY_KEYS.ordersPerMonth]: String(input.ordersPerMonth),
+    [QUERY_KEYS.territoryType]: input.territoryType,
+  });
@@ -0,0 +1,64 @@
+import type { ScreenPoint } from './types';
+
+export interface Cluster<T> extends ScreenPoint {
+  items: T[];
+}
+
+// Grid-based clustering in screen space. The cell size is given in on-screen
+// pixels, so dividing it by the zoom factor means clusters break apart as the
+// visitor zooms in while keeping a constant visual spacing.
+export const clusterPoints = <T>(
+  items: T[],
+  toScreen: (item: T) => ScreenPoint,
+  zoom: number,
+  cellSize: number = 48,
+): Cluster<T>[] => {
+  const size = cellSize / zoom;
+  const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+
+  for (const item of items) {
+    const { x, y } = toScreen(item);
+    const key = `${Math.floor(x / size)}:${Math.floor(y / size)}`;
+    const cell = cells.get(key) ?? { sumX: 0, sumY: 0, items: [] };
+    cell.sumX += x;
+    cell.sumY += y;
+    cell.items.push(item);
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells.values(), (cell) => ({
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+};
+
+export interface HeatCell extends ScreenPoint {
+  size: number;
+  intensity: number;
+}
+
+// Bins weighted points into square cells and normalises each cell's total
+// weight to 0..1 against the busiest cell.
+export const buildHeatGrid = <T>(
+  items: T[],
+  toScreen: (item: T) => ScreenPoint,
+  weight: (item: T) => number,
+  cellSize: number,
+): HeatCell[] => {
+  const cells = new Map<string, HeatCell>();
+
+  for (const item of items) {
+    const { x, y } = toScreen(item);
+    const col = Math.floor(x / cellSize);
+    const row = Math.floor(y / cellSize);
+    const key = `${col}:${row}`;
+    const cell = cells.get(key) ?? { x: col * cellSize, y: row * cellSize, size: cellSize, intensity: 0 };
+    cell.intensity += weight(item);
+    cells.set(key, cell);
+  }
+
+  const heatCells = Array.from(cells.values());
+  const max = Math.max(...heatCells.map((cell) => cell.intensity), 1);
+  return heatCells.map((cell) => ({ ...cell, intensity: cell.intensity / max }));
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './projection';
+export * from './cluster';
+export { nearestStateCapital, nigeriaBounds, nigeriaOutline, stateCapitals } from './nigeria';
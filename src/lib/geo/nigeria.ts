@@ -0,0 +1,72 @@
+import type { Bounds } from './projection';
+import type { GeoPoint, StateCapital } from './types';
+
+export const nigeriaBounds: Bounds = {
+  minLat: 4.0,
+  maxLat: 14.1,
+  minLng: 2.5,
+  maxLng: 14.9,
+};
+
+// Simplified national border (about 40 vertices). Good enough for a demo
+// backdrop; not suitable for any boundary-accurate analysis.
+export const nigeriaOutline: GeoPoint[] = [
+  { lat: 6.37, lng: 2.7 }, { lat: 7.0, lng: 2.72 }, { lat: 8.0, lng: 2.75 }, { lat: 9.1, lng: 3.1 },
+  { lat: 10.3, lng: 3.6 }, { lat: 11.7, lng: 3.6 }, { lat: 12.5, lng: 3.65 }, { lat: 13.5, lng: 4.15 },
+  { lat: 13.7, lng: 4.9 }, { lat: 13.85, lng: 5.5 }, { lat: 13.4, lng: 6.3 }, { lat: 13.2, lng: 6.8 },
+  { lat: 13.0, lng: 7.5 }, { lat: 13.3, lng: 8.1 }, { lat: 12.95, lng: 9.0 }, { lat: 12.8, lng: 9.6 },
+  { lat: 13.35, lng: 10.7 }, { lat: 13.3, lng: 11.6 }, { lat: 13.1, lng: 12.3 }, { lat: 13.6, lng: 13.3 },
+  { lat: 13.1, lng: 14.1 }, { lat: 12.2, lng: 14.2 }, { lat: 11.5, lng: 14.6 }, { lat: 10.9, lng: 13.9 },
+  { lat: 10.1, lng: 13.3 }, { lat: 9.4, lng: 13.2 }, { lat: 8.6, lng: 12.8 }, { lat: 8.0, lng: 12.2 },
+  { lat: 7.1, lng: 11.8 }, { lat: 6.9, lng: 10.6 }, { lat: 6.3, lng: 9.8 }, { lat: 5.6, lng: 8.9 },
+  { lat: 4.7, lng: 8.5 }, { lat: 4.45, lng: 7.5 }, { lat: 4.3, lng: 6.2 }, { lat: 5.2, lng: 5.4 },
+  { lat: 6.2, lng: 4.5 }, { lat: 6.4, lng: 3.4 },
+];
+
+export const stateCapitals: StateCapital[] = [
+  { state: 'Abia', capital: 'Umuahia', lat: 5.53, lng: 7.49 },
+  { state: 'Adamawa', capital: 'Yola', lat: 9.21, lng: 12.48 },
+  { state: 'Akwa Ibom', capital: 'Uyo', lat: 5.03, lng: 7.93 },
+  { state: 'Anambra', capital: 'Awka', lat: 6.21, lng: 7.07 },
+  { state: 'Bauchi', capital: 'Bauchi', lat: 10.31, lng: 9.84 },
+  { state: 'Bayelsa', capital: 'Yenagoa', lat: 4.92, lng: 6.26 },
+  { state: 'Benue', capital: 'Makurdi', lat: 7.73, lng: 8.52 },
+  { state: 'Borno', capital: 'Maiduguri', lat: 11.85, lng: 13.16 },
+  { state: 'Cross River', capital: 'Calabar', lat: 4.96, lng: 8.33 },
+  { state: 'Delta', capital: 'Asaba', lat: 6.2, lng: 6.73 },
+  { state: 'Ebonyi', capital: 'Abakaliki', lat: 6.32, lng: 8.11 },
+  { state: 'Edo', capital: 'Benin City', lat: 6.34, lng: 5.63 },
+  { state: 'Ekiti', capital: 'Ado-Ekiti', lat: 7.62, lng: 5.22 },
+  { state: 'Enugu', capital: 'Enugu', lat: 6.44, lng: 7.5 },
+  { state: 'FCT', capital: 'Abuja', lat: 9.06, lng: 7.49 },
+  { state: 'Gombe', capital: 'Gombe', lat: 10.29, lng: 11.17 },
+  { state: 'Imo', capital: 'Owerri', lat: 5.48, lng: 7.03 },
+  { state: 'Jigawa', capital: 'Dutse', lat: 11.76, lng: 9.34 },
+  { state: 'Kaduna', capital: 'Kaduna', lat: 10.52, lng: 7.44 },
+  { state: 'Kano', capital: 'Kano', lat: 12.0, lng: 8.52 },
+  { state: 'Katsina', capital: 'Katsina', lat: 12.99, lng: 7.6 },
+  { state: 'Kebbi', capital: 'Birnin Kebbi', lat: 12.45, lng: 4.2 },
+  { state: 'Kogi', capital: 'Lokoja', lat: 7.8, lng: 6.74 },
+  { state: 'Kwara', capital: 'Ilorin', lat: 8.5, lng: 4.55 },
+  { state: 'Lagos', capital: 'Ikeja', lat: 6.6, lng: 3.35 },
+  { state: 'Nasarawa', capital: 'Lafia', lat: 8.49, lng: 8.52 },
+  { state: 'Niger', capital: 'Minna', lat: 9.61, lng: 6.55 },
+  { state: 'Ogun', capital: 'Abeokuta', lat: 7.16, lng: 3.35 },
+  { state: 'Ondo', capital: 'Akure', lat: 7.25, lng: 5.19 },
+  { state: 'Osun', capital: 'Osogbo', lat: 7.77, lng: 4.56 },
+  { state: 'Oyo', capital: 'Ibadan', lat: 7.38, lng: 3.95 },
+  { state: 'Plateau', capital: 'Jos', lat: 9.9, lng: 8.86 },
+  { state: 'Rivers', capital: 'Port Harcourt', lat: 4.82, lng: 7.03 },
+  { state: 'Sokoto', capital: 'Sokoto', lat: 13.06, lng: 5.24 },
+  { state: 'Taraba', capital: 'Jalingo', lat: 8.89, lng: 11.36 },
+  { state: 'Yobe', capital: 'Damaturu', lat: 11.75, lng: 11.96 },
+  { state: 'Zamfara', capital: 'Gusau', lat: 12.16, lng: 6.66 },
+];
+
+// Closest state capital as the crow flies, used to suggest a state for a
+// point. Only a suggestion: near borders it can pick the neighbouring state.
+export const nearestStateCapital = (point: GeoPoint): StateCapital => {
+  const distance = (capital: StateCapital) =>
+    Math.hypot(capital.lat - point.lat, (capital.lng - point.lng) * Math.cos((point.lat * Math.PI) / 180));
+  return stateCapitals.reduce((nearest, capital) => (distance(capital) < distance(nearest) ? capital : nearest));
+};
@@ -0,0 +1,51 @@
+import type { GeoPoint, ScreenPoint } from './types';
+
+export interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface Projection {
+  width: number;
+  height: number;
+  project: (point: GeoPoint) => ScreenPoint;
+  unproject: (point: ScreenPoint) => GeoPoint;
+}
+
+// Equirectangular projection scaled by the cosine of the mid-latitude. Over a
+// country the size of Nigeria this is visually indistinguishable from Mercator
+// and keeps clustering distances in plain pixels.
+export const createProjection = (bounds: Bounds, width: number): Projection => {
+  const midLat = ((bounds.minLat + bounds.maxLat) / 2) * (Math.PI / 180);
+  const lngSpan = (bounds.maxLng - bounds.minLng) * Math.cos(midLat);
+  const latSpan = bounds.maxLat - bounds.minLat;
+  const scale = width / lngSpan;
+  const height = Math.round(latSpan * scale);
+
+  return {
+    width,
+    height,
+    project: ({ lat, lng }) => ({
+      x: (lng - bounds.minLng) * Math.cos(midLat) * scale,
+      y: (bounds.maxLat - lat) * scale,
+    }),
+    unproject: ({ x, y }) => ({
+      lat: bounds.maxLat - y / scale,
+      lng: bounds.minLng + x / (Math.cos(midLat) * scale),
+    }),
+  };
+};
+
+export const isWithinBounds = ({ lat, lng }: GeoPoint, bounds: Bounds): boolean =>
+  lat >= bounds.minLat && lat <= bounds.maxLat && lng >= bounds.minLng && lng <= bounds.maxLng;
+
+// SVG path data for a closed polygon, e.g. a country outline.
+export const polygonPath = (points: GeoPoint[], projection: Projection): string =>
+  `${points
+    .map((point, index) => {
+      const { x, y } = projection.project(point);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ')} Z`;
@@ -0,0 +1,20 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Retailer extends GeoPoint {
+  id: string;
+  state: string;
+  monthlyOrders: number;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface StateCapital extends GeoPoint {
+  state: string;
+  capital: string;
+}
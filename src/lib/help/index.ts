@@ -0,0 +1,4 @@
+export * from './types';
+export { validateFeedback } from './validate';
+export { getFeedbackStore, JsonFileFeedbackStore, MemoryFeedbackStore } from './store';
+export { searchHelp, searchTerms, splitMatches, type HelpSearchResult, type TextSegment } from './search';
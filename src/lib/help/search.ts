@@ -0,0 +1,53 @@
+import type { HelpArticle, HelpCategory } from '@/lib/content/types';
+
+export interface HelpSearchResult {
+  article: HelpArticle;
+  category: HelpCategory;
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Lower-cased words of a query, ignoring punctuation and duplicates.
+export const searchTerms = (query: string): string[] => [
+  ...new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)),
+];
+
+// Questions containing every term, in the question, answer or category title.
+// Questions that match in their wording rank above those that only match in
+// the answer; otherwise the help centre's own order is kept.
+export const searchHelp = (categories: HelpCategory[], query: string): HelpSearchResult[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const scored = categories.flatMap((category) =>
+    category.articles.flatMap((article) => {
+      const question = article.question.toLowerCase();
+      const haystack = `${question} ${article.answer.toLowerCase()} ${category.title.toLowerCase()}`;
+      if (!terms.every((term) => haystack.includes(term))) return [];
+      const score = terms.filter((term) => question.includes(term)).length;
+      return [{ article, category, score }];
+    }),
+  );
+
+  return scored
+    .map((result, index) => ({ ...result, index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ article, category }) => ({ article, category }));
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into runs that do and don't match any of the terms, for
+// wrapping matches in <mark>.
+export const splitMatches = (text: string, terms: string[]): TextSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  // Longest first, so "territories" wins over "territory" where both match.
+  const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'giu');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
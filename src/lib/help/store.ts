@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Feedback, FeedbackStore } from './types';
+
+// Appends votes to a JSON array on disk, chaining writes like JsonFileLeadStore.
+export class JsonFileFeedbackStore implements FeedbackStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<Feedback[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as Feedback[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  save(feedback: Feedback): Promise<void> {
+    const write = this.queue.then(async () => {
+      const votes = await this.list();
+      votes.push(feedback);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(votes, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemoryFeedbackStore implements FeedbackStore {
+  private readonly votes: Feedback[] = [];
+
+  async list(): Promise<Feedback[]> {
+    return [...this.votes];
+  }
+
+  async save(feedback: Feedback): Promise<void> {
+    this.votes.push(feedback);
+  }
+}
+
+let store: FeedbackStore | undefined;
+
+// HELP_FEEDBACK_STORE selects the adapter ("file" by default, or "memory");
+// HELP_FEEDBACK_FILE overrides where the file adapter writes.
+export const getFeedbackStore = (): FeedbackStore => {
+  if (store) return store;
+
+  if (process.env.HELP_FEEDBACK_STORE === 'memory') {
+    store = new MemoryFeedbackStore();
+  } else {
+    store = new JsonFileFeedbackStore(
+      process.env.HELP_FEEDBACK_FILE ?? path.join(process.cwd(), '.data', 'help-feedback.json'),
+    );
+  }
+
+  return store;
+};
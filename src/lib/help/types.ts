@@ -0,0 +1,15 @@
+export interface FeedbackInput {
+  // Slug of the help question the vote is about.
+  article: string;
+  helpful: boolean;
+}
+
+export interface Feedback extends FeedbackInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface FeedbackStore {
+  save(feedback: Feedback): Promise<void>;
+  list(): Promise<Feedback[]>;
+}
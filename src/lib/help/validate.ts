@@ -0,0 +1,21 @@
+import { isRecord, readString, type FieldErrors, type ValidationResult } from '@/lib/validation';
+import type { FeedbackInput } from './types';
+
+export const validateFeedback = (payload: unknown, articleSlugs: string[]): ValidationResult<FeedbackInput> => {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: { form: 'Expected a JSON object.' } };
+  }
+
+  const errors: FieldErrors = {};
+
+  const article = readString(payload.article, 60);
+  if (!article || !articleSlugs.includes(article)) errors.article = 'Unknown help article.';
+
+  if (typeof payload.helpful !== 'boolean') errors.helpful = 'Expected true or false.';
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, data: { article: article!, helpful: payload.helpful as boolean } };
+};
@@ -0,0 +1,46 @@
+export const locales = ['en', 'ha', 'yo', 'ig', 'pcm'] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = 'en';
+
+// Cookie that remembers a visitor's explicit language choice.
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  ha: 'Hausa',
+  yo: 'Yorùbá',
+  ig: 'Igbo',
+  pcm: 'Naijá',
+};
+
+// BCP 47 tags used for hreflang and Intl formatting. Every language here is
+// spoken in Nigeria, so we always pin the region.
+export const localeTags: Record<Locale, string> = {
+  en: 'en-NG',
+  ha: 'ha-NG',
+  yo: 'yo-NG',
+  ig: 'ig-NG',
+  pcm: 'pcm-NG',
+};
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+// Picks the best supported locale from an Accept-Language header, matching on
+// the primary language subtag and honouring q-values.
+export const negotiateLocale = (acceptLanguage: string | null): Locale => {
+  if (!acceptLanguage) return defaultLocale;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      return { language: tag.toLowerCase().split('-')[0], quality: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter((entry) => entry.language && !Number.isNaN(entry.quality) && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return ranked.map((entry) => entry.language).find(isLocale) ?? defaultLocale;
+};
@@ -0,0 +1,23 @@
+import { localeTags, type Locale } from './config';
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(localeTags[locale], options).format(value);
+
+interface FormattableStat {
+  format: 'number' | 'compact' | 'percent';
+  suffix?: string;
+}
+
+// Renders a stat figure such as 25000 → "25K+" in the visitor's locale.
+export const formatStat = (stat: FormattableStat, locale: Locale, value: number): string => {
+  const formatted =
+    stat.format === 'percent'
+      ? formatNumber(value / 100, locale, { style: 'percent', maximumFractionDigits: 0 })
+      : formatNumber(value, locale, stat.format === 'compact' ? { notation: 'compact', maximumFractionDigits: 1 } : {});
+  return `${formatted}${stat.suffix ?? ''}`;
+};
+
+// Formats a YYYY-MM-DD date such as a post's publication date. Pinned to UTC so
+// the day never shifts with the server's or visitor's timezone.
+export const formatDate = (date: string, locale: Locale): string =>
+  new Intl.DateTimeFormat(localeTags[locale], { dateStyle: 'long', timeZone: 'UTC' }).format(new Date(date));
@@ -0,0 +1,3 @@
+export * from './types';
+export { validateLead, isHoneypotTripped, leadRoles, HONEYPOT_FIELD } from './validate';
+export { getLeadStore, JsonFileLeadStore, MemoryLeadStore } from './store';
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Lead, LeadStore } from './types';
+
+// Appends leads to a JSON array on disk. Writes are chained so concurrent
+// requests in the same process never interleave a read-modify-write.
+export class JsonFileLeadStore implements LeadStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<Lead[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as Lead[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  save(lead: Lead): Promise<void> {
+    const write = this.queue.then(async () => {
+      const leads = await this.list();
+      leads.push(lead);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(leads, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemoryLeadStore implements LeadStore {
+  private readonly leads: Lead[] = [];
+
+  async list(): Promise<Lead[]> {
+    return [...this.leads];
+  }
+
+  async save(lead: Lead): Promise<void> {
+    this.leads.push(lead);
+  }
+}
+
+let store: LeadStore | undefined;
+
+// LEAD_STORE selects the adapter ("file" by default, or "memory");
+// LEADS_FILE overrides where the file adapter writes.
+export const getLeadStore = (): LeadStore => {
+  if (store) return store;
+
+  if (process.env.LEAD_STORE === 'memory') {
+    store = new MemoryLeadStore();
+  } else {
+    store = new JsonFileLeadStore(process.env.LEADS_FILE ?? path.join(process.cwd(), '.data', 'leads.json'));
+  }
+
+  return store;
+};
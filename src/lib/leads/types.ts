@@ -0,0 +1,19 @@
+export interface LeadInput {
+  name: string;
+  company: string;
+  role: string;
+  phone: string;
+  territory: string;
+  retailerCount: number;
+}
+
+export interface Lead extends LeadInput {
+  id: string;
+  createdAt: string;
+  ip: string;
+}
+
+export interface LeadStore {
+  save(lead: Lead): Promise<void>;
+  list(): Promise<Lead[]>;
+}
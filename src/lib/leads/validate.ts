@@ -0,0 +1,60 @@
+import { useCases } from '@/lib/content/use-cases';
+import {
+  isRecord,
+  normaliseNigerianPhone,
+  readInteger,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation';
+import type { LeadInput } from './types';
+
+export const leadRoles: string[] = useCases.map((useCase) => useCase.title);
+
+// Name of the hidden field real visitors never fill in.
+export const HONEYPOT_FIELD = 'website';
+
+export const isHoneypotTripped = (payload: unknown): boolean =>
+  isRecord(payload) && typeof payload[HONEYPOT_FIELD] === 'string' && payload[HONEYPOT_FIELD] !== '';
+
+export const validateLead = (payload: unknown): ValidationResult<LeadInput> => {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: { form: 'Expected a JSON object.' } };
+  }
+
+  const errors: FieldErrors = {};
+
+  const name = readString(payload.name, 120);
+  if (!name) errors.name = 'Please enter your name.';
+
+  const company = readString(payload.company, 160);
+  if (!company) errors.company = 'Please enter your company name.';
+
+  const role = readString(payload.role, 80);
+  if (!role || !leadRoles.includes(role)) errors.role = 'Please choose the option that best describes you.';
+
+  const phone = normaliseNigerianPhone(payload.phone);
+  if (!phone) errors.phone = 'Please enter a valid Nigerian phone number.';
+
+  const territory = readString(payload.territory, 120);
+  if (!territory) errors.territory = 'Please tell us which territory you cover.';
+
+  const retailerCount = readInteger(payload.retailerCount, 1, 1_000_000);
+  if (retailerCount === null) errors.retailerCount = 'Please enter the number of retailers you serve.';
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      name: name!,
+      company: company!,
+      role: role!,
+      phone: phone!,
+      territory: territory!,
+      retailerCount: retailerCount!,
+    },
+  };
+};
@@ -0,0 +1,9 @@
+export * from './types';
+export {
+  ConsoleMailTransport,
+  DEFAULT_MAIL_FROM,
+  FileMailTransport,
+  formatEml,
+  getMailTransport,
+  MemoryMailTransport,
+} from './transports';
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MailMessage, MailTransport } from './types';
+
+// Sender used when MAIL_FROM is not set.
+export const DEFAULT_MAIL_FROM = 'RAJA <insights@raja.ng>';
+
+// Renders a message as an .eml file, which most mail clients can open.
+export const formatEml = (message: MailMessage, from: string, date = new Date()): string => {
+  const headers = {
+    From: from,
+    To: message.to,
+    Subject: message.subject,
+    Date: date.toUTCString(),
+    'Content-Type': 'text/plain; charset=utf-8',
+    ...message.headers,
+  };
+  const lines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+  return `${lines.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}\r\n`;
+};
+
+// Writes each message to <dir>/<timestamp>-<id>.eml instead of sending it,
+// for local development.
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly dir: string,
+    private readonly from = DEFAULT_MAIL_FROM,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    const name = `${date.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, name), formatEml(message, this.from, date));
+  }
+}
+
+// Prints each message to the server log.
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly from = DEFAULT_MAIL_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.info(`Email not sent (MAIL_TRANSPORT=console):\n${formatEml(message, this.from)}`);
+  }
+}
+
+// Keeps sent messages in memory, for tests.
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+// MAIL_TRANSPORT selects the transport ("file" by default, "console" or
+// "memory"); MAIL_DIR overrides where the file transport writes and MAIL_FROM
+// sets the sender. A transport for a real mail provider slots in here.
+export const getMailTransport = (): MailTransport => {
+  if (transport) return transport;
+
+  const from = process.env.MAIL_FROM ?? DEFAULT_MAIL_FROM;
+  if (process.env.MAIL_TRANSPORT === 'memory') {
+    transport = new MemoryMailTransport();
+  } else if (process.env.MAIL_TRANSPORT === 'console') {
+    transport = new ConsoleMailTransport(from);
+  } else {
+    transport = new FileMailTransport(process.env.MAIL_DIR ?? path.join(process.cwd(), '.data', 'mail'), from);
+  }
+
+  return transport;
+};
@@ -0,0 +1,12 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain text only: the site sends a handful of short transactional emails.
+  text: string;
+  // Extra headers, e.g. List-Unsubscribe.
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
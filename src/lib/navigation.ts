@@ -0,0 +1,43 @@
+import type { SiteContent } from '@/lib/content/types';
+import { isLocale, type Locale } from '@/lib/i18n';
+import { orderNavSections, type SectionId } from '@/lib/sections';
+
+// Nav links in content either point at a home-page section ("#features") or at
+// a page below the locale prefix ("/pricing"). Anything else, such as the
+// login URL, is left alone.
+export const localizeNavHref = (href: string, locale: Locale, onHomePage: boolean = false): string => {
+  if (href.startsWith('#')) return onHomePage ? href : `/${locale}${href}`;
+  if (href.startsWith('/')) return `/${locale}${href}`;
+  return href;
+};
+
+// The same page in another language: swaps the leading locale segment of a
+// pathname, or prefixes one when the path has none.
+export const switchLocalePath = (pathname: string, locale: Locale): string => {
+  const [, first = '', ...rest] = pathname.split('/');
+  const segments = isLocale(first) ? rest : [first, ...rest];
+  const path = segments.join('/');
+  return path ? `/${locale}/${path}` : `/${locale}`;
+};
+
+export interface NavItem {
+  label: string;
+  href: string;
+  // Set for links to a home-page section, so the scroll-spy can highlight them.
+  sectionId?: SectionId;
+}
+
+// Section links in their configured order, then links to other pages. Shared
+// by the desktop nav, the mobile menu and the footer's quick links.
+export const buildNavItems = (
+  nav: Pick<SiteContent['nav'], 'sections' | 'links'>,
+  locale: Locale,
+  onHomePage: boolean = false,
+): NavItem[] => [
+  ...orderNavSections(nav.sections).map((section) => ({
+    label: section.label,
+    href: localizeNavHref(`#${section.id}`, locale, onHomePage),
+    sectionId: section.id,
+  })),
+  ...nav.links.map((link) => ({ label: link.label, href: localizeNavHref(link.href, locale, onHomePage) })),
+];
@@ -0,0 +1,49 @@
+import { useCases } from '@/lib/content/use-cases';
+import type { MailMessage } from '@/lib/mail/types';
+import type { Subscriber } from './types';
+
+const interestList = (subscriber: Subscriber): string =>
+  useCases
+    .filter((useCase) => subscriber.interests.includes(useCase.slug))
+    .map((useCase) => `- ${useCase.title}`)
+    .join('\n');
+
+export const confirmationEmail = (subscriber: Subscriber, confirmUrl: string): MailMessage => ({
+  to: subscriber.email,
+  subject: 'Confirm your subscription to RAJA market insights',
+  text: [
+    'Hello,',
+    '',
+    'Please confirm that you would like RAJA market insights on FMCG distribution in Nigeria, covering:',
+    interestList(subscriber),
+    '',
+    'Confirm your subscription:',
+    confirmUrl,
+    '',
+    "The link works for 7 days. If you didn't sign up, ignore this email and you won't hear from us again.",
+    '',
+    '— The RAJA team',
+  ].join('\n'),
+});
+
+// Sent once the subscription is confirmed; from here on every email carries an
+// unsubscribe link, including the one-click headers mail clients show.
+export const welcomeEmail = (subscriber: Subscriber, unsubscribeUrl: string): MailMessage => ({
+  to: subscriber.email,
+  subject: "You're subscribed to RAJA market insights",
+  text: [
+    'Hello,',
+    '',
+    "Thanks for confirming. You'll get our insights on:",
+    interestList(subscriber),
+    '',
+    'To stop receiving them, unsubscribe here at any time:',
+    unsubscribeUrl,
+    '',
+    '— The RAJA team',
+  ].join('\n'),
+  headers: {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  },
+});
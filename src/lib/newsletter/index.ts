@@ -0,0 +1,13 @@
+export * from './types';
+export { newsletterInterests, validateSubscription } from './validate';
+export { getSubscriberStore, JsonFileSubscriberStore, MemorySubscriberStore } from './store';
+export { CONFIRM_TOKEN_TTL_MS, issueNewsletterToken, readNewsletterToken } from './tokens';
+export { confirmationEmail, welcomeEmail } from './emails';
+export {
+  cancelSubscription,
+  CONFIRMATION_RESEND_INTERVAL_MS,
+  confirmSubscription,
+  findLinkSubscriber,
+  newsletterLink,
+  requestSubscription,
+} from './subscriptions';
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Subscriber, SubscriberStore } from './types';
+
+// Keeps subscribers in a JSON array on disk. Writes are chained like
+// JsonFileLeadStore's.
+export class JsonFileSubscriberStore implements SubscriberStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<Subscriber[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as Subscriber[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async findByEmail(email: string): Promise<Subscriber | undefined> {
+    return (await this.list()).find((subscriber) => subscriber.email === email);
+  }
+
+  async get(id: string): Promise<Subscriber | undefined> {
+    return (await this.list()).find((subscriber) => subscriber.id === id);
+  }
+
+  save(subscriber: Subscriber): Promise<void> {
+    const write = this.queue.then(async () => {
+      const subscribers = (await this.list()).filter((existing) => existing.id !== subscriber.id);
+      subscribers.push(subscriber);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(subscribers, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemorySubscriberStore implements SubscriberStore {
+  private readonly subscribers = new Map<string, Subscriber>();
+
+  async list(): Promise<Subscriber[]> {
+    return [...this.subscribers.values()];
+  }
+
+  async findByEmail(email: string): Promise<Subscriber | undefined> {
+    return [...this.subscribers.values()].find((subscriber) => subscriber.email === email);
+  }
+
+  async get(id: string): Promise<Subscriber | undefined> {
+    return this.subscribers.get(id);
+  }
+
+  async save(subscriber: Subscriber): Promise<void> {
+    this.subscribers.set(subscriber.id, subscriber);
+  }
+}
+
+let store: SubscriberStore | undefined;
+
+// NEWSLETTER_STORE selects the adapter ("file" by default, or "memory");
+// NEWSLETTER_FILE overrides where the file adapter writes.
+export const getSubscriberStore = (): SubscriberStore => {
+  if (store) return store;
+
+  if (process.env.NEWSLETTER_STORE === 'memory') {
+    store = new MemorySubscriberStore();
+  } else {
+    store = new JsonFileSubscriberStore(process.env.NEWSLETTER_FILE ?? path.join(process.cwd(), '.data', 'subscribers.json'));
+  }
+
+  return store;
+};
@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import type { MailTransport } from '@/lib/mail/types';
+import { siteUrl } from '@/lib/site';
+import { confirmationEmail, welcomeEmail } from './emails';
+import { issueNewsletterToken, readNewsletterToken } from './tokens';
+import type { NewsletterAction, Subscriber, SubscriberStore, SubscriptionInput } from './types';
+
+interface NewsletterServices {
+  store: SubscriberStore;
+  transport: MailTransport;
+  now?: Date;
+}
+
+// A pending address gets at most one confirmation email in this window, so the
+// form can't be used to flood someone else's inbox.
+export const CONFIRMATION_RESEND_INTERVAL_MS = 10 * 60 * 1000;
+
+// Absolute URL of the route handler that acts on an emailed link.
+export const newsletterLink = (action: NewsletterAction, subscriberId: string, now = Date.now()): string => {
+  const url = new URL(`/api/newsletter/${action}`, siteUrl);
+  url.searchParams.set('token', issueNewsletterToken(action, subscriberId, now));
+  return url.toString();
+};
+
+// Records a pending subscription and emails a link to confirm it. Addresses
+// that are already subscribed are left alone, so the response never reveals
+// whether someone is on the list.
+export const requestSubscription = async (
+  input: SubscriptionInput,
+  { store, transport, now = new Date() }: NewsletterServices,
+): Promise<void> => {
+  const existing = await store.findByEmail(input.email);
+  if (existing?.status === 'confirmed') return;
+  if (existing?.status === 'pending' && now.getTime() - Date.parse(existing.requestedAt) < CONFIRMATION_RESEND_INTERVAL_MS) {
+    return;
+  }
+
+  const subscriber: Subscriber = {
+    ...input,
+    id: existing?.id ?? randomUUID(),
+    status: 'pending',
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    requestedAt: now.toISOString(),
+  };
+  // Sent before saving: if sending fails the visitor can retry straight away
+  // instead of waiting out the resend interval.
+  await transport.send(confirmationEmail(subscriber, newsletterLink('confirm', subscriber.id, now.getTime())));
+  await store.save(subscriber);
+};
+
+// Who an emailed link was issued for, without acting on it: opening a link
+// only shows the page with the button, since mail scanners open links too.
+// Returns null when the token is invalid or expired, or the subscriber no
+// longer exists.
+export const findLinkSubscriber = async (
+  token: unknown,
+  action: NewsletterAction,
+  { store, now = new Date() }: Omit<NewsletterServices, 'transport'>,
+): Promise<Subscriber | null> => {
+  const id = readNewsletterToken(token, action, now.getTime());
+  return (id && (await store.get(id))) || null;
+};
+
+// Confirms the subscription a confirm link was issued for. Returns null when
+// the token is invalid or expired, or the subscriber no longer exists.
+export const confirmSubscription = async (
+  token: unknown,
+  { store, transport, now = new Date() }: NewsletterServices,
+): Promise<Subscriber | null> => {
+  const subscriber = await findLinkSubscriber(token, 'confirm', { store, now });
+  if (!subscriber) return null;
+  // Opening the link twice is fine.
+  if (subscriber.status === 'confirmed') return subscriber;
+
+  const confirmed: Subscriber = { ...subscriber, status: 'confirmed', confirmedAt: now.toISOString() };
+  delete confirmed.unsubscribedAt;
+  await store.save(confirmed);
+
+  // The subscription stands even if the welcome email can't be sent.
+  try {
+    await transport.send(welcomeEmail(confirmed, newsletterLink('unsubscribe', confirmed.id)));
+  } catch (error) {
+    console.error('Failed to send newsletter welcome email', error);
+  }
+  return confirmed;
+};
+
+// Unsubscribes whoever an unsubscribe link was issued for. Returns null when
+// the token is invalid or the subscriber no longer exists.
+export const cancelSubscription = async (
+  token: unknown,
+  { store, now = new Date() }: Omit<NewsletterServices, 'transport'>,
+): Promise<Subscriber | null> => {
+  const subscriber = await findLinkSubscriber(token, 'unsubscribe', { store, now });
+  if (!subscriber) return null;
+  if (subscriber.status === 'unsubscribed') return subscriber;
+
+  const unsubscribed: Subscriber = { ...subscriber, status: 'unsubscribed', unsubscribedAt: now.toISOString() };
+  await store.save(unsubscribed);
+  return unsubscribed;
+};
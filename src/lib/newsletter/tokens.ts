@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NewsletterAction } from './types';
+
+// How long the link in a confirmation email works.
+export const CONFIRM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+let secret: string | undefined;
+
+// A random secret breaks every link already sent when the server restarts, so
+// it is only used outside production; production requires NEWSLETTER_SECRET.
+const getSecret = (): string => {
+  if (secret) return secret;
+  if (process.env.NEWSLETTER_SECRET) {
+    secret = process.env.NEWSLETTER_SECRET;
+  } else if (process.env.NODE_ENV !== 'production') {
+    secret = randomBytes(32).toString('hex');
+  } else {
+    throw new Error('NEWSLETTER_SECRET must be set in production');
+  }
+  return secret;
+};
+
+const sign = (payload: string): string => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+// Token for an emailed link: "<subscriber id>.<expiry>.<signature>". Confirm
+// links expire; unsubscribe links must keep working, so their expiry is 0.
+// The action is signed too, so a confirm token cannot be used to unsubscribe.
+export const issueNewsletterToken = (action: NewsletterAction, subscriberId: string, now = Date.now()): string => {
+  const expiresAt = action === 'confirm' ? now + CONFIRM_TOKEN_TTL_MS : 0;
+  return `${subscriberId}.${expiresAt}.${sign(`${action}.${subscriberId}.${expiresAt}`)}`;
+};
+
+// Returns the subscriber id, or null when the token is malformed, expired or
+// was issued for another action.
+export const readNewsletterToken = (token: unknown, action: NewsletterAction, now = Date.now()): string | null => {
+  if (typeof token !== 'string') return null;
+  const [subscriberId, expiry, signature, ...rest] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (rest.length > 0 || !subscriberId || !signature || !Number.isInteger(expiresAt)) return null;
+  if (action === 'confirm' ? expiresAt < now : expiresAt !== 0) return null;
+
+  const expected = Buffer.from(sign(`${action}.${subscriberId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return subscriberId;
+};
@@ -0,0 +1,42 @@
+import type { Locale } from '@/lib/i18n';
+
+export const subscriberStatuses = ['pending', 'confirmed', 'unsubscribed'] as const;
+
+export type SubscriberStatus = (typeof subscriberStatuses)[number];
+
+// Pages /newsletter/<status> that the emailed links land on.
+export const newsletterPages = ['confirmed', 'unsubscribed', 'invalid'] as const;
+
+export type NewsletterPage = (typeof newsletterPages)[number];
+
+// What an emailed link does, and the page /newsletter/<action> with the button
+// that does it.
+export const newsletterActions = ['confirm', 'unsubscribe'] as const;
+
+export type NewsletterAction = (typeof newsletterActions)[number];
+
+export interface SubscriptionInput {
+  email: string;
+  // Slugs of the use cases the subscriber wants insights about.
+  interests: string[];
+  // Language the subscriber signed up in; the emailed links return to it.
+  locale: Locale;
+}
+
+export interface Subscriber extends SubscriptionInput {
+  id: string;
+  status: SubscriberStatus;
+  createdAt: string;
+  // When the latest confirmation email was sent.
+  requestedAt: string;
+  confirmedAt?: string;
+  unsubscribedAt?: string;
+}
+
+export interface SubscriberStore {
+  findByEmail(email: string): Promise<Subscriber | undefined>;
+  get(id: string): Promise<Subscriber | undefined>;
+  // Inserts the subscriber, or replaces the one with the same id.
+  save(subscriber: Subscriber): Promise<void>;
+  list(): Promise<Subscriber[]>;
+}
@@ -0,0 +1,37 @@
+import { useCases } from '@/lib/content/use-cases';
+import { defaultLocale, isLocale } from '@/lib/i18n';
+import { isRecord, readEmail, type FieldErrors, type ValidationResult } from '@/lib/validation';
+import type { SubscriptionInput } from './types';
+
+// Subscribers pick the segments they want insights about.
+export const newsletterInterests: string[] = useCases.map((useCase) => useCase.slug);
+
+export const validateSubscription = (payload: unknown): ValidationResult<SubscriptionInput> => {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: { form: 'Expected a JSON object.' } };
+  }
+
+  const errors: FieldErrors = {};
+
+  const email = readEmail(payload.email);
+  if (!email) errors.email = 'Please enter a valid email address.';
+
+  const interests = Array.isArray(payload.interests) ? payload.interests : [];
+  if (interests.length === 0 || !interests.every((interest) => newsletterInterests.includes(interest))) {
+    errors.interests = 'Please choose at least one topic.';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      email: email!,
+      // Kept in the order they are offered, without duplicates.
+      interests: newsletterInterests.filter((interest) => interests.includes(interest)),
+      locale: isLocale(payload.locale) ? payload.locale : defaultLocale,
+    },
+  };
+};
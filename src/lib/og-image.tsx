@@ -0,0 +1,71 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ImageResponse } from 'next/og';
+
+export const ogImageSize = { width: 1200, height: 630 };
+
+const BRAND_GREEN = '#1f6b3a';
+const BRAND_GREEN_DARK = '#15512b';
+
+// The default ImageResponse font lacks the hooked letters Hausa needs (ɓ, ƙ, ɗ)
+// and the dotted vowels Yoruba and Igbo use (ẹ, ọ, ị, ụ), so we ship Noto Sans
+// subsets that cover them. Each subset gets its own family name so Satori
+// falls back from one to the next glyph by glyph.
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@fontsource', 'noto-sans', 'files');
+const FONT_SUBSETS = ['latin', 'latin-ext', 'vietnamese'];
+const FONT_WEIGHTS = [400, 700] as const;
+const fontFamily = (subset: string) => `Noto Sans ${subset}`;
+
+const loadFonts = () =>
+  Promise.all(
+    FONT_SUBSETS.flatMap((subset) =>
+      FONT_WEIGHTS.map(async (weight) => ({
+        name: fontFamily(subset),
+        data: await readFile(path.join(FONT_DIR, `noto-sans-${subset}-${weight}-normal.woff`)),
+        weight,
+        style: 'normal' as const,
+      })),
+    ),
+  );
+
+interface OgImageOptions {
+  eyebrow: string;
+  title: string;
+}
+
+// Renders the shared social card: logo, an eyebrow line and a headline on the
+// brand green gradient.
+export const renderOgImage = async ({ eyebrow, title }: OgImageOptions) => {
+  const logo = await readFile(path.join(process.cwd(), 'public', 'raja-logo.png'));
+  const logoSrc = `data:image/png;base64,${logo.toString('base64')}`;
+  const fonts = await loadFonts();
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '72px',
+          background: `linear-gradient(135deg, ${BRAND_GREEN} 0%, ${BRAND_GREEN_DARK} 100%)`,
+          color: 'white',
+          fontFamily: FONT_SUBSETS.map((subset) => `'${fontFamily(subset)}'`).join(', '),
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '24px' }}>
+          <div style={{ display: 'flex', background: 'white', borderRadius: '24px', padding: '16px' }}>
+            {/* eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text */}
+            <img src={logoSrc} width={100} height={80} />
+          </div>
+          <div style={{ fontSize: 32, fontWeight: 700, opacity: 0.9 }}>{eyebrow}</div>
+        </div>
+        <div style={{ fontSize: 72, fontWeight: 700, lineHeight: 1.1, maxWidth: '1000px' }}>{title}</div>
+        <div style={{ fontSize: 28, opacity: 0.8 }}>raja.ng</div>
+      </div>
+    ),
+    { ...ogImageSize, fonts },
+  );
+};
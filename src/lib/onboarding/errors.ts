@@ -0,0 +1,12 @@
+// Thrown in production when a setting the join flow needs is missing, rather
+// than falling back to a stand-in that would drop registrations, accept one
+// code for every number or forget tokens on restart.
+export class OnboardingNotConfiguredError extends Error {
+  constructor(setting: string) {
+    super(`${setting} must be set in production`);
+    this.name = 'OnboardingNotConfiguredError';
+  }
+}
+
+// Stand-ins are only used when the site is not running in production.
+export const allowsStandIns = (): boolean => process.env.NODE_ENV !== 'production';
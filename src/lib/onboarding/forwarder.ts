@@ -0,0 +1,62 @@
+import { allowsStandIns, OnboardingNotConfiguredError } from './errors';
+import type { Registration, RegistrationForwarder } from './types';
+
+export class RegistrationForwardError extends Error {
+  constructor(public readonly status: number) {
+    super(`Registration API responded with ${status}`);
+    this.name = 'RegistrationForwardError';
+  }
+}
+
+// POSTs each registration as JSON to <baseUrl>/registrations on the main app.
+export class HttpRegistrationForwarder implements RegistrationForwarder {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly token?: string,
+    private readonly timeoutMs = 10_000,
+  ) {}
+
+  async forward(registration: Registration): Promise<void> {
+    const response = await fetch(new URL('registrations', this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Lets the main app drop a registration it has already seen on retry.
+        'Idempotency-Key': registration.id,
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(registration),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) throw new RegistrationForwardError(response.status);
+  }
+}
+
+// Keeps registrations in memory, for local development and tests.
+export class MemoryRegistrationForwarder implements RegistrationForwarder {
+  readonly registrations: Registration[] = [];
+
+  async forward(registration: Registration): Promise<void> {
+    this.registrations.push(registration);
+  }
+}
+
+let forwarder: RegistrationForwarder | undefined;
+
+// Registrations go to RAJA_APP_API_URL when it is set (authenticated with
+// RAJA_APP_API_TOKEN). Outside production they are kept in memory otherwise;
+// in production a missing URL throws rather than dropping registrations.
+export const getRegistrationForwarder = (): RegistrationForwarder => {
+  if (forwarder) return forwarder;
+
+  const baseUrl = process.env.RAJA_APP_API_URL;
+  if (baseUrl) {
+    forwarder = new HttpRegistrationForwarder(baseUrl, process.env.RAJA_APP_API_TOKEN);
+  } else if (allowsStandIns()) {
+    forwarder = new MemoryRegistrationForwarder();
+  } else {
+    throw new OnboardingNotConfiguredError('RAJA_APP_API_URL');
+  }
+
+  return forwarder;
+};
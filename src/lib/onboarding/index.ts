@@ -0,0 +1,20 @@
+export * from './types';
+export { validateRegistration, joinStates, joinStepFields } from './validate';
+export {
+  getPhoneVerifier,
+  HttpPhoneVerifier,
+  isPhoneVerificationAvailable,
+  issueVerificationToken,
+  readVerificationToken,
+  MockPhoneVerifier,
+  PhoneVerificationError,
+  MOCK_VERIFICATION_CODE,
+  VERIFICATION_TOKEN_TTL_MS,
+} from './verification';
+export { OnboardingNotConfiguredError } from './errors';
+export {
+  getRegistrationForwarder,
+  HttpRegistrationForwarder,
+  MemoryRegistrationForwarder,
+  RegistrationForwardError,
+} from './forwarder';
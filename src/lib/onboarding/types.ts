@@ -0,0 +1,79 @@
+import type { GeoPoint } from '@/lib/geo/types';
+
+export const joinRoles = ['retailer', 'agent'] as const;
+
+export type JoinRole = (typeof joinRoles)[number];
+
+export const joinRoleLabels: Record<JoinRole, string> = {
+  retailer: 'Shop owner',
+  agent: 'Field agent',
+};
+
+export const productCategories = [
+  'beverages',
+  'packaged-foods',
+  'grains-and-flour',
+  'dairy',
+  'confectionery',
+  'personal-care',
+  'household-cleaning',
+  'baby-care',
+  'pharmacy',
+  'airtime-and-data',
+] as const;
+
+export type ProductCategory = (typeof productCategories)[number];
+
+export const productCategoryLabels: Record<ProductCategory, string> = {
+  beverages: 'Soft drinks and beverages',
+  'packaged-foods': 'Noodles and packaged foods',
+  'grains-and-flour': 'Rice, grains and flour',
+  dairy: 'Milk and dairy',
+  confectionery: 'Biscuits and sweets',
+  'personal-care': 'Soap and personal care',
+  'household-cleaning': 'Detergent and cleaning',
+  'baby-care': 'Baby care',
+  pharmacy: 'Over-the-counter medicine',
+  'airtime-and-data': 'Airtime and data',
+};
+
+export interface ShopLocation extends GeoPoint {
+  // Accuracy radius in metres reported by the browser, when located by GPS.
+  accuracy?: number;
+  // "gps" when taken from the Geolocation API, "pin" when placed on the map.
+  source: 'gps' | 'pin';
+}
+
+export interface RegistrationInput {
+  role: JoinRole;
+  name: string;
+  // Shop name; required for retailers, optional for agents.
+  businessName?: string;
+  phone: string;
+  state: string;
+  // Market, street or neighbourhood, in the registrant's own words.
+  area: string;
+  location: ShopLocation;
+  // What the shop stocks; empty for agents.
+  categories: ProductCategory[];
+}
+
+export interface Registration extends RegistrationInput {
+  id: string;
+  createdAt: string;
+  // When the phone number was verified.
+  phoneVerifiedAt: string;
+}
+
+// Sends verified registrations on to the main RAJA app.
+export interface RegistrationForwarder {
+  forward(registration: Registration): Promise<void>;
+}
+
+export interface PhoneVerifier {
+  // Help text for the code step, e.g. the fixed code of a mock verifier.
+  readonly hint?: string;
+  // Sends a one-time code to the number.
+  send(phone: string): Promise<void>;
+  check(phone: string, code: string): Promise<boolean>;
+}
@@ -0,0 +1,84 @@
+import { isWithinBounds } from '@/lib/geo/projection';
+import { nigeriaBounds, stateCapitals } from '@/lib/geo/nigeria';
+import { isRecord, normaliseNigerianPhone, readString, type FieldErrors, type ValidationResult } from '@/lib/validation';
+import { joinRoles, productCategories, type ProductCategory, type RegistrationInput, type ShopLocation } from './types';
+
+export const joinStates: string[] = stateCapitals.map((capital) => capital.state).sort();
+
+// Fields each wizard step collects, so the form can show a step's errors
+// before moving on. The server validates the whole payload at once.
+export const joinStepFields = {
+  role: ['role'],
+  details: ['name', 'businessName', 'phone'],
+  location: ['state', 'area', 'location'],
+  categories: ['categories'],
+} as const;
+
+const readLocation = (value: unknown): ShopLocation | null => {
+  if (!isRecord(value)) return null;
+  const { lat, lng, accuracy, source } = value;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (source !== 'gps' && source !== 'pin') return null;
+  if (!isWithinBounds({ lat, lng }, nigeriaBounds)) return null;
+
+  const location: ShopLocation = { lat, lng, source };
+  if (typeof accuracy === 'number' && Number.isFinite(accuracy) && accuracy >= 0) location.accuracy = Math.round(accuracy);
+  return location;
+};
+
+const readCategories = (value: unknown): ProductCategory[] | null => {
+  if (!Array.isArray(value)) return null;
+  const categories = productCategories.filter((category) => value.includes(category));
+  return categories.length === value.length ? categories : null;
+};
+
+export const validateRegistration = (payload: unknown): ValidationResult<RegistrationInput> => {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: { form: 'Expected a JSON object.' } };
+  }
+
+  const errors: FieldErrors = {};
+
+  const role = joinRoles.find((candidate) => candidate === payload.role);
+  if (!role) errors.role = 'Please choose how you want to join.';
+
+  const name = readString(payload.name, 120);
+  if (!name) errors.name = 'Please enter your name.';
+
+  const businessName = readString(payload.businessName, 160) ?? undefined;
+  if (role === 'retailer' && !businessName) errors.businessName = 'Please enter the name of your shop.';
+
+  const phone = normaliseNigerianPhone(payload.phone);
+  if (!phone) errors.phone = 'Please enter a valid Nigerian phone number.';
+
+  const state = readString(payload.state, 60);
+  if (!state || !joinStates.includes(state)) errors.state = 'Please choose your state.';
+
+  const area = readString(payload.area, 160);
+  if (!area) errors.area = 'Please tell us the market, street or area.';
+
+  const location = readLocation(payload.location);
+  if (!location) errors.location = 'Please set a location in Nigeria, using your device or the map.';
+
+  const categories = role === 'agent' ? [] : readCategories(payload.categories ?? []);
+  if (!categories) errors.categories = 'Please choose from the listed categories.';
+  else if (role === 'retailer' && categories.length === 0) errors.categories = 'Please choose at least one category you stock.';
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      role: role!,
+      name: name!,
+      ...(businessName ? { businessName } : {}),
+      phone: phone!,
+      state: state!,
+      area: area!,
+      location: location!,
+      categories: categories!,
+    },
+  };
+};
@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { isRecord } from '@/lib/validation';
+import { allowsStandIns, OnboardingNotConfiguredError } from './errors';
+import type { PhoneVerifier } from './types';
+
+// Code the mock verifier accepts for every number.
+export const MOCK_VERIFICATION_CODE = '123456';
+
+// How long a verified number stays verified while the form is submitted.
+export const VERIFICATION_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+// Stands in for an SMS provider during local development and tests: no message
+// is sent, and the code is always MOCK_VERIFICATION_CODE.
+export class MockPhoneVerifier implements PhoneVerifier {
+  private readonly pending = new Set<string>();
+  // Shown in the form so testers know what to type.
+  readonly hint = `No SMS is sent in this environment. Use the code ${MOCK_VERIFICATION_CODE}.`;
+
+  async send(phone: string): Promise<void> {
+    this.pending.add(phone);
+  }
+
+  async check(phone: string, code: string): Promise<boolean> {
+    if (!this.pending.has(phone) || code !== MOCK_VERIFICATION_CODE) return false;
+    this.pending.delete(phone);
+    return true;
+  }
+}
+
+export class PhoneVerificationError extends Error {
+  constructor(public readonly status: number) {
+    super(`Phone verification API responded with ${status}`);
+    this.name = 'PhoneVerificationError';
+  }
+}
+
+// Sends and checks codes through the SMS service at <baseUrl>/verifications.
+// A send is POSTed as { phone }; a check is POSTed as { phone, code } to
+// <baseUrl>/verifications/check, which answers { valid: boolean }.
+export class HttpPhoneVerifier implements PhoneVerifier {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly token?: string,
+    private readonly timeoutMs = 10_000,
+  ) {}
+
+  async send(phone: string): Promise<void> {
+    await this.post('verifications', { phone });
+  }
+
+  async check(phone: string, code: string): Promise<boolean> {
+    const body: unknown = await (await this.post('verifications/check', { phone, code })).json();
+    return isRecord(body) && body.valid === true;
+  }
+
+  private async post(path: string, payload: Record<string, string>): Promise<Response> {
+    const response = await fetch(new URL(path, this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) throw new PhoneVerificationError(response.status);
+    return response;
+  }
+}
+
+// Whether /join can verify numbers: always outside production, and in
+// production only once PHONE_VERIFICATION_API_URL is set. The join page, its
+// nav link and its sitemap entry are hidden otherwise.
+export const isPhoneVerificationAvailable = (): boolean =>
+  Boolean(process.env.PHONE_VERIFICATION_API_URL) || allowsStandIns();
+
+let verifier: PhoneVerifier | undefined;
+
+// Codes go through PHONE_VERIFICATION_API_URL when it is set (authenticated
+// with PHONE_VERIFICATION_API_TOKEN). Outside production the mock is used
+// otherwise; in production a missing URL throws, so the mock's code (and its
+// hint) never reaches a real visitor.
+export const getPhoneVerifier = (): PhoneVerifier => {
+  if (verifier) return verifier;
+
+  const baseUrl = process.env.PHONE_VERIFICATION_API_URL;
+  if (baseUrl) {
+    verifier = new HttpPhoneVerifier(baseUrl, process.env.PHONE_VERIFICATION_API_TOKEN);
+  } else if (allowsStandIns()) {
+    verifier = new MockPhoneVerifier();
+  } else {
+    throw new OnboardingNotConfiguredError('PHONE_VERIFICATION_API_URL');
+  }
+
+  return verifier;
+};
+
+let secret: string | undefined;
+
+// A random secret only lasts until the server restarts and differs between
+// instances, so production requires PHONE_VERIFICATION_SECRET.
+const getSecret = (): string => {
+  if (secret) return secret;
+  if (process.env.PHONE_VERIFICATION_SECRET) {
+    secret = process.env.PHONE_VERIFICATION_SECRET;
+  } else if (allowsStandIns()) {
+    secret = randomBytes(32).toString('hex');
+  } else {
+    throw new OnboardingNotConfiguredError('PHONE_VERIFICATION_SECRET');
+  }
+  return secret;
+};
+
+const sign = (payload: string): string => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+// A stateless proof that the number was verified: "<expiry>.<signature>", signed
+// over the number and expiry so it cannot be replayed for another number.
+export const issueVerificationToken = (phone: string, now = Date.now()): string => {
+  const expiresAt = now + VERIFICATION_TOKEN_TTL_MS;
+  return `${expiresAt}.${sign(`${phone}.${expiresAt}`)}`;
+};
+
+// Returns when the number was verified (ISO 8601), or null when the token is
+// malformed, expired or was issued for another number.
+export const readVerificationToken = (token: unknown, phone: string, now = Date.now()): string | null => {
+  if (typeof token !== 'string') return null;
+  const [expiry, signature, ...rest] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (rest.length > 0 || !signature || !Number.isInteger(expiresAt) || expiresAt < now) return null;
+
+  const expected = Buffer.from(sign(`${phone}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return new Date(expiresAt - VERIFICATION_TOKEN_TTL_MS).toISOString();
+};
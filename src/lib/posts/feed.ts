@@ -0,0 +1,75 @@
+import { SITE_NAME } from '@/lib/seo';
+import { siteUrl } from '@/lib/site';
+import type { PostSummary } from './types';
+
+// Feeds link to the English pages; posts are written in English.
+export const postUrl = (post: PostSummary) => new URL(`/en/${post.collection}/${post.slug}`, siteUrl).toString();
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const FEED_TITLE = `${SITE_NAME} — blog and case studies`;
+const FEED_DESCRIPTION = 'Distribution intelligence, field notes and customer stories from RAJA.';
+
+export const renderRss = (posts: PostSummary[], selfUrl: string): string => {
+  const items = posts
+    .map(
+      (post) => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${postUrl(post)}</link>
+      <guid isPermaLink="true">${postUrl(post)}</guid>
+      <description>${escapeXml(post.description)}</description>
+      <dc:creator>${escapeXml(post.author)}</dc:creator>
+      <pubDate>${new Date(post.date).toUTCString()}</pubDate>
+${post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+    </item>`,
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(FEED_TITLE)}</title>
+    <link>${siteUrl.toString()}</link>
+    <description>${escapeXml(FEED_DESCRIPTION)}</description>
+    <language>en</language>
+    <atom:link href="${selfUrl}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`;
+};
+
+export const renderAtom = (posts: PostSummary[], selfUrl: string): string => {
+  const updated = posts[0] ? new Date(posts[0].date).toISOString() : new Date(0).toISOString();
+  const entries = posts
+    .map(
+      (post) => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${postUrl(post)}" />
+    <id>${postUrl(post)}</id>
+    <published>${new Date(post.date).toISOString()}</published>
+    <updated>${new Date(post.date).toISOString()}</updated>
+    <author><name>${escapeXml(post.author)}</name></author>
+    <summary>${escapeXml(post.description)}</summary>
+${post.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`).join('\n')}
+  </entry>`,
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <link href="${siteUrl.toString()}" />
+  <link href="${selfUrl}" rel="self" type="application/atom+xml" />
+  <id>${siteUrl.toString()}</id>
+  <updated>${updated}</updated>
+${entries}
+</feed>
+`;
+};
+
+// Both collections, newest first.
+export const feedPosts = (collections: PostSummary[][]): PostSummary[] =>
+  collections.flat().sort((a, b) => b.date.localeCompare(a.date));
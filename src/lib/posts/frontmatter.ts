@@ -0,0 +1,29 @@
+import { array, object, optional, string, type Schema } from '@/lib/content/schema';
+import type { Collection, PostFrontmatter } from './types';
+
+// YAML turns unquoted dates into Date objects, so accept both forms and
+// normalise to YYYY-MM-DD.
+const date: Schema<string> = (value, path, issues) => {
+  const parsed = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    issues.push(`${path}: expected a date such as 2025-01-31`);
+    return '';
+  }
+  return parsed.toISOString().slice(0, 10);
+};
+
+const tag = string({ max: 40 });
+
+const shared = {
+  title: string({ max: 120 }),
+  description: string({ max: 200 }),
+  author: string({ max: 80 }),
+  date,
+  tags: array(tag),
+};
+
+// Case studies always name the customer's segment and territory; blog posts may.
+export const frontmatterSchemas: Record<Collection, Schema<PostFrontmatter>> = {
+  blog: object({ ...shared, segment: optional(string({ max: 60 })), territory: optional(string({ max: 80 })) }),
+  'case-studies': object({ ...shared, segment: string({ max: 60 }), territory: string({ max: 80 }) }),
+};
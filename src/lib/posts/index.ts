@@ -0,0 +1,67 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { compileMDX } from 'next-mdx-remote/rsc';
+import { ContentValidationError, parseContent } from '@/lib/content/schema';
+import { useCases } from '@/lib/content/use-cases';
+import { frontmatterSchemas } from './frontmatter';
+import { readingMinutes } from './reading-time';
+import type { Collection, Post, PostFrontmatter, PostSummary } from './types';
+
+export * from './types';
+export { readingMinutes } from './reading-time';
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
+
+const collectionDir = (collection: Collection) => path.join(process.cwd(), 'content', collection);
+
+const loadPost = async (collection: Collection, file: string): Promise<Post> => {
+  const source = `content/${collection}/${file}`;
+  const raw = await readFile(path.join(collectionDir(collection), file), 'utf8');
+
+  // Compiling is the simplest way to get at the YAML frontmatter; it also
+  // surfaces MDX syntax errors at build time rather than on first render.
+  const { frontmatter } = await compileMDX<Record<string, unknown>>({
+    source: raw,
+    options: { parseFrontmatter: true },
+  });
+  const data: PostFrontmatter = parseContent(frontmatterSchemas[collection], frontmatter, source);
+
+  if (data.segment && !useCases.some((useCase) => useCase.slug === data.segment)) {
+    throw new ContentValidationError(source, [`$.segment: no use case with slug "${data.segment}"`]);
+  }
+
+  const body = raw.replace(FRONTMATTER, '');
+  return {
+    ...data,
+    collection,
+    slug: file.replace(/\.mdx$/, ''),
+    readingMinutes: readingMinutes(body),
+    body,
+  };
+};
+
+const cache = new Map<Collection, Promise<Post[]>>();
+
+const loadCollection = (collection: Collection): Promise<Post[]> => {
+  const cached = cache.get(collection);
+  if (cached) return cached;
+
+  const posts = readdir(collectionDir(collection))
+    .catch(() => [] as string[])
+    .then((files) => Promise.all(files.filter((file) => file.endsWith('.mdx')).map((file) => loadPost(collection, file))))
+    .then((loaded) => loaded.sort((a, b) => b.date.localeCompare(a.date)));
+  cache.set(collection, posts);
+  return posts;
+};
+
+// Every post in a collection, newest first, without bodies so the list can be
+// passed to client components cheaply.
+export const getPostSummaries = async (collection: Collection): Promise<PostSummary[]> =>
+  (await loadCollection(collection)).map((post) => {
+    const summary: Omit<Post, 'body'> & Partial<Pick<Post, 'body'>> = { ...post };
+    delete summary.body;
+    return summary;
+  });
+
+export const getPost = async (collection: Collection, slug: string): Promise<Post | undefined> =>
+  (await loadCollection(collection)).find((post) => post.slug === slug);
@@ -0,0 +1,35 @@
+import type { Metadata } from 'next';
+import { getLandingContent, getPostsContent } from '@/lib/content';
+import type { Locale } from '@/lib/i18n';
+import { buildPageMetadata } from '@/lib/seo';
+import { getPostSummaries, getPost } from './index';
+import type { Collection } from './types';
+
+// Shared by the /blog and /case-studies routes, which differ only in the
+// collection they read.
+
+export const postStaticParams = async (collection: Collection) =>
+  (await getPostSummaries(collection)).map((post) => ({ slug: post.slug }));
+
+export const postIndexMetadata = (collection: Collection, locale: Locale): Metadata => {
+  const { meta } = getPostsContent(locale)[collection];
+  return buildPageMetadata({ locale, path: `/${collection}`, title: meta.title, description: meta.description, feeds: true });
+};
+
+export const postMetadata = async (collection: Collection, locale: Locale, slug: string): Promise<Metadata> => {
+  const post = await getPost(collection, slug);
+  if (!post) return {};
+
+  return buildPageMetadata({
+    locale,
+    path: `/${collection}/${post.slug}`,
+    title: post.title,
+    description: post.description,
+    article: { publishedTime: post.date, authors: [post.author], tags: post.tags },
+    feeds: true,
+  });
+};
+
+// Localised use-case titles by slug, for segment labels and filters.
+export const segmentTitles = (locale: Locale): Record<string, string> =>
+  Object.fromEntries(getLandingContent(locale).useCases.map((useCase) => [useCase.slug, useCase.title]));
@@ -0,0 +1,13 @@
+const WORDS_PER_MINUTE = 200;
+
+// Estimates reading time from the MDX body, ignoring component tags, code
+// fences and link targets so only prose is counted.
+export const readingMinutes = (body: string): number => {
+  const prose = body
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\]\([^)]*\)/g, ' ')
+    .replace(/[#>*_`[\]-]/g, ' ');
+  const words = prose.split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+};
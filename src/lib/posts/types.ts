@@ -0,0 +1,26 @@
+export const collections = ['blog', 'case-studies'] as const;
+
+export type Collection = (typeof collections)[number];
+
+export interface PostFrontmatter {
+  title: string;
+  description: string;
+  author: string;
+  // Publication date as YYYY-MM-DD.
+  date: string;
+  // Slug of the use case the post is written for.
+  segment?: string;
+  territory?: string;
+  tags: string[];
+}
+
+export interface PostSummary extends PostFrontmatter {
+  collection: Collection;
+  slug: string;
+  readingMinutes: number;
+}
+
+export interface Post extends PostSummary {
+  // MDX body with the frontmatter block removed.
+  body: string;
+}
@@ -0,0 +1,149 @@
+// Plan definitions and price calculations for the pricing page.
+//
+// Prices are set in Naira. USD amounts are indicative conversions at
+// NGN_PER_USD, rounded so they read as list prices rather than exchange
+// quotes. Annual billing charges ANNUAL_MONTHS_CHARGED months for twelve.
+//
+// The ROI estimate applies the platform-wide efficiency gain to what a
+// customer spends on distribution each month:
+//
+//   savings = monthly distribution cost × efficiency gain
+//   net     = savings − plan cost per month
+//   payback = plan cost per month ÷ savings   (in months)
+
+import type { FeatureItem } from '@/lib/content/types';
+
+export type PlanId = 'starter' | 'growth' | 'enterprise';
+export type BillingPeriod = 'monthly' | 'annual';
+export type Currency = 'NGN' | 'USD';
+
+export interface PlanLimits {
+  // null means unlimited.
+  retailers: number | null;
+  territories: number | null;
+  seats: number | null;
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  // null for plans that are quoted individually.
+  monthlyPriceNgn: number | null;
+  limits: PlanLimits;
+  // Ids from content/features.json.
+  features: string[];
+  highlighted?: boolean;
+}
+
+export const NGN_PER_USD = 1500;
+export const ANNUAL_MONTHS_CHARGED = 10;
+
+export const billingPeriods: BillingPeriod[] = ['monthly', 'annual'];
+export const currencies: Currency[] = ['NGN', 'USD'];
+
+export const plans: Plan[] = [
+  {
+    id: 'starter',
+    name: 'Starter',
+    monthlyPriceNgn: 150_000,
+    limits: { retailers: 500, territories: 3, seats: 3 },
+    features: ['retailer-profiles', 'coverage-maps', 'data-quality', 'dashboards'],
+  },
+  {
+    id: 'growth',
+    name: 'Growth',
+    monthlyPriceNgn: 450_000,
+    limits: { retailers: 5_000, territories: 15, seats: 15 },
+    features: ['retailer-profiles', 'coverage-maps', 'sales-heatmaps', 'demand-forecasting', 'data-quality', 'dashboards'],
+    highlighted: true,
+  },
+  {
+    id: 'enterprise',
+    name: 'Enterprise',
+    monthlyPriceNgn: null,
+    limits: { retailers: null, territories: null, seats: null },
+    features: ['retailer-profiles', 'coverage-maps', 'sales-heatmaps', 'demand-forecasting', 'data-quality', 'dashboards'],
+  },
+];
+
+export const pricedPlans = plans.filter(
+  (plan): plan is Plan & { monthlyPriceNgn: number } => plan.monthlyPriceNgn !== null,
+);
+
+const roundUsd = (value: number) => (value >= 100 ? Math.round(value / 5) * 5 : Math.round(value));
+
+export const convertPrice = (amountNgn: number, currency: Currency): number =>
+  currency === 'NGN' ? amountNgn : roundUsd(amountNgn / NGN_PER_USD);
+
+export interface PlanPrice {
+  // What the customer pays per month, averaged over the billing period.
+  perMonth: number;
+  // What is charged each billing period.
+  billed: number;
+}
+
+export const planPrice = (plan: Plan, billing: BillingPeriod, currency: Currency): PlanPrice | null => {
+  if (plan.monthlyPriceNgn === null) return null;
+
+  const billedNgn = billing === 'annual' ? plan.monthlyPriceNgn * ANNUAL_MONTHS_CHARGED : plan.monthlyPriceNgn;
+  const billed = convertPrice(billedNgn, currency);
+  return { billed, perMonth: billing === 'annual' ? billed / 12 : billed };
+};
+
+export interface FeatureMatrixRow {
+  feature: FeatureItem;
+  included: Record<PlanId, boolean>;
+}
+
+// One row per entry in the feature grid, so the matrix can never list a
+// feature the landing page doesn't describe. Throws for plan feature ids that
+// don't exist, which surfaces typos when the page is prerendered.
+export const buildFeatureMatrix = (features: FeatureItem[], planList: Plan[] = plans): FeatureMatrixRow[] => {
+  const known = new Set(features.map((feature) => feature.id));
+  for (const plan of planList) {
+    const unknown = plan.features.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Plan "${plan.id}" lists unknown features: ${unknown.join(', ')}`);
+    }
+  }
+
+  return features.map((feature) => ({
+    feature,
+    included: Object.fromEntries(planList.map((plan) => [plan.id, plan.features.includes(feature.id)])) as Record<
+      PlanId,
+      boolean
+    >,
+  }));
+};
+
+export interface RoiInput {
+  monthlyDistributionCost: number;
+  // Percentage, e.g. 32 for a 32% gain.
+  efficiencyGain: number;
+  planMonthlyCost: number;
+}
+
+export interface RoiResult {
+  monthlySavings: number;
+  netMonthlyBenefit: number;
+  // Net benefit as a multiple of the plan cost; 1 means the plan pays for itself twice over.
+  returnOnCost: number;
+  // null when there are no savings to pay the plan back.
+  paybackMonths: number | null;
+}
+
+export const estimateRoi = (input: RoiInput): RoiResult => {
+  const cost = Math.max(0, input.monthlyDistributionCost);
+  const gain = Math.min(Math.max(0, input.efficiencyGain), 100) / 100;
+  const planCost = Math.max(0, input.planMonthlyCost);
+
+  const monthlySavings = cost * gain;
+  const netMonthlyBenefit = monthlySavings - planCost;
+
+  return {
+    monthlySavings,
+    netMonthlyBenefit,
+    returnOnCost: planCost > 0 ? netMonthlyBenefit / planCost : 0,
+    paybackMonths: monthlySavings > 0 ? planCost / monthlySavings : null,
+  };
+};
@@ -0,0 +1,36 @@
+// Browser side of the offline support: registers public/sw.js and asks it to
+// send submissions queued while offline. Keep the message in step with sw.js.
+
+import { useSyncExternalStore } from 'react';
+
+export const SERVICE_WORKER_PATH = '/sw.js';
+// Passed to the worker as ?v=, which names its caches after the build.
+export const SERVICE_WORKER_URL = `${SERVICE_WORKER_PATH}?v=${process.env.NEXT_PUBLIC_BUILD_ID ?? 'dev'}`;
+export const REPLAY_QUEUE_MESSAGE = 'replay-queue';
+
+export const registerServiceWorker = (): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(() => undefined);
+
+  // Background Sync replays the queue on its own where it is supported; this
+  // covers the other browsers, and pages opened after connectivity returned.
+  const replay = () => navigator.serviceWorker.controller?.postMessage({ type: REPLAY_QUEUE_MESSAGE });
+  replay();
+  window.addEventListener('online', replay);
+  return () => window.removeEventListener('online', replay);
+};
+
+const subscribeToConnection = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+// Whether the browser reports a connection; assumed online while rendering on
+// the server.
+export const useOnline = (): boolean =>
+  useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true);
@@ -0,0 +1 @@
+export { BACKGROUND_COLOR, buildManifest, THEME_COLOR } from './manifest';
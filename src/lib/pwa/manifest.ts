@@ -0,0 +1,35 @@
+import type { MetadataRoute } from 'next';
+import { getLandingContent } from '@/lib/content';
+import { defaultLocale } from '@/lib/i18n';
+
+// Brand green and the light surface from globals.css, for the browser chrome
+// and the splash screen of the installed app.
+export const THEME_COLOR = '#1f6b3a';
+export const BACKGROUND_COLOR = '#ffffff';
+
+export const buildManifest = (): MetadataRoute.Manifest => {
+  const { site, productTour } = getLandingContent(defaultLocale);
+
+  return {
+    id: '/',
+    name: site.meta.title,
+    short_name: 'RAJA',
+    description: site.meta.description,
+    start_url: `/${defaultLocale}`,
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    theme_color: THEME_COLOR,
+    background_color: BACKGROUND_COLOR,
+    categories: ['business', 'productivity'],
+    icons: [{ src: '/raja-logo.png', sizes: '1024x1024', type: 'image/png', purpose: 'any' }],
+    // The product tour screenshots, shown by richer install dialogs.
+    screenshots: productTour.map(({ image }) => ({
+      src: image.src,
+      sizes: `${image.width}x${image.height}`,
+      type: 'image/png',
+      form_factor: 'wide' as const,
+      label: image.alt,
+    })),
+  };
+};
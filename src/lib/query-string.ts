@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+
+// Pages that keep state in the query string, so it can be shared as a link,
+// read it from the URL rather than copying it into state after mount.
+
+// history.replaceState fires no event of its own.
+const QUERY_EVENT = 'raja:query-change';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(QUERY_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(QUERY_EVENT, onChange);
+  };
+};
+
+// The current query string ("?a=1"). Empty while rendering on the server, so a
+// shared link is applied straight after hydration.
+export const useSearchString = (): string => useSyncExternalStore(subscribe, () => window.location.search, () => '');
+
+// Sets each parameter, or removes it when empty, without navigating.
+export const replaceQueryParams = (changes: Record<string, string | null>) => {
+  const url = new URL(window.location.href);
+  for (const [key, value] of Object.entries(changes)) {
+    if (value) url.searchParams.set(key, value);
+    else url.searchParams.delete(key);
+  }
+  window.history.replaceState(null, '', url);
+  window.dispatchEvent(new Event(QUERY_EVENT));
+};
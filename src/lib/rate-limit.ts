@@ -0,0 +1,83 @@
+// Fixed-window, per-key rate limiting for the proxy and route handlers.
+
+export interface RateLimitOptions {
+  // Namespaces keys, so limiters can share one store.
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Counts hits per key. Async so a shared store (Redis, a database) can stand
+// in for the in-memory one when the site runs on more than one instance.
+export interface RateLimitStore {
+  // Records a hit and returns the key's current window, starting a new one of
+  // windowMs when there is none or the last one has ended.
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, RateLimitWindow>();
+
+  async hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow> {
+    // Drop expired windows so the map doesn't grow with every visitor.
+    for (const [storedKey, entry] of this.windows) {
+      if (entry.resetAt <= now) this.windows.delete(storedKey);
+    }
+
+    const entry = this.windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+    entry.count += 1;
+    this.windows.set(key, entry);
+    return { ...entry };
+  }
+}
+
+let store: RateLimitStore | undefined;
+
+// Counts live in this process, so each instance limits on its own and a
+// restart resets them. A persistent store slots in here.
+export const getRateLimitStore = (): RateLimitStore => {
+  store ??= new MemoryRateLimitStore();
+  return store;
+};
+
+export const createRateLimiter = ({ name, limit, windowMs }: RateLimitOptions, limiterStore?: RateLimitStore) =>
+  async (key: string, now: number = Date.now()): Promise<RateLimitResult> => {
+    const entry = await (limiterStore ?? getRateLimitStore()).hit(`${name}:${key}`, windowMs, now);
+
+    return {
+      allowed: entry.count <= limit,
+      remaining: Math.max(limit - entry.count, 0),
+      retryAfterSeconds: Math.ceil((entry.resetAt - now) / 1000),
+    };
+  };
+
+// How many proxies in front of the site append to X-Forwarded-For. Vercel and
+// a single nginx or load balancer are one each.
+const trustedProxyHops = (): number => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+};
+
+// The client address as seen by the outermost trusted proxy. Each proxy appends
+// the address it received the request from, so the client is the entry that
+// many hops from the right; anything further left was sent by the client and
+// could be rotated to dodge the limits.
+export const getClientIp = (request: Request, hops: number = trustedProxyHops()): string => {
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(forwarded.length - hops, 0)];
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+};
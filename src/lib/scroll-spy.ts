@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+
+interface ScrollSpyOptions {
+  // Height of any fixed header covering the top of the viewport, in pixels.
+  topOffset?: number;
+  // Mirror the active section in the URL hash (without adding history entries).
+  updateHash?: boolean;
+}
+
+// Returns the id of the section the reader is in: the first of `ids`, in page
+// order, that crosses the band between the header and 40% down the viewport.
+// null while the reader is between tracked sections. `ids` should be memoised.
+export const useScrollSpy = (ids: readonly string[], { topOffset = 0, updateHash = false }: ScrollSpyOptions = {}) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const elements = ids.flatMap((id) => document.getElementById(id) ?? []);
+    if (elements.length === 0) return;
+
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id);
+          else visible.delete(entry.target.id);
+        }
+        setActiveId(elements.find((element) => visible.has(element.id))?.id ?? null);
+      },
+      { rootMargin: `-${topOffset}px 0px -60% 0px` },
+    );
+    for (const element of elements) observer.observe(element);
+    return () => observer.disconnect();
+  }, [ids, topOffset]);
+
+  useEffect(() => {
+    if (!updateHash) return;
+    const current = window.location.hash.slice(1);
+    if (activeId === current) return;
+    // Only clear hashes we set, so links to untracked anchors keep working.
+    if (!activeId && !ids.includes(current)) return;
+
+    const url = new URL(window.location.href);
+    url.hash = activeId ?? '';
+    // Passing history.state through keeps the App Router's navigation state.
+    window.history.replaceState(window.history.state, '', activeId ? url : url.pathname + url.search);
+  }, [activeId, ids, updateHash]);
+
+  return activeId;
+};
@@ -0,0 +1,26 @@
+// Anchored sections of the home page, in page order. Nav entries in
+// content/site.json refer to these ids, and the schema rejects any other.
+export const sectionIds = [
+  'howitworks',
+  'features',
+  'product-tour',
+  'coverage',
+  'forecast',
+  'whoitsfor',
+  'why-raja',
+  'faq',
+  'walkthrough',
+  'contact',
+] as const;
+
+export type SectionId = (typeof sectionIds)[number];
+
+export interface NavSection {
+  id: SectionId;
+  label: string;
+  // Position in the nav; lower comes first.
+  order: number;
+}
+
+export const orderNavSections = (sections: NavSection[]): NavSection[] =>
+  [...sections].sort((a, b) => a.order - b.order);
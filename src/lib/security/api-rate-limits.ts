@@ -0,0 +1,37 @@
+// Per-route limits on API requests, enforced by src/proxy.ts for each client
+// IP before a request reaches its route handler.
+
+export interface ApiRateLimitRule {
+  name: string;
+  // Exact pathname the rule applies to.
+  path: string;
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const apiRateLimitRules: ApiRateLimitRule[] = [
+  { name: 'leads', path: '/api/leads', limit: 5, windowMs: 10 * MINUTE },
+  { name: 'applications', path: '/api/careers/applications', limit: 5, windowMs: 60 * MINUTE },
+  { name: 'registrations', path: '/api/join', limit: 5, windowMs: 60 * MINUTE },
+  // Each send may cost an SMS; the route also limits each phone number.
+  { name: 'verification', path: '/api/join/verification', limit: 5, windowMs: 10 * MINUTE },
+  // Six-digit codes are guessable without a tight limit on attempts.
+  { name: 'verification-confirm', path: '/api/join/verification/confirm', limit: 10, windowMs: 10 * MINUTE },
+  { name: 'help-feedback', path: '/api/help/feedback', limit: 30, windowMs: 10 * MINUTE },
+  { name: 'newsletter', path: '/api/newsletter', limit: 5, windowMs: 10 * MINUTE },
+  // The IP is only used as a rate-limit key and is never stored with events.
+  { name: 'events', path: '/api/events', limit: 60, windowMs: MINUTE },
+];
+
+// Applies to every other API route, e.g. /api/stats and the emailed newsletter links.
+export const defaultApiRateLimit: ApiRateLimitRule = { name: 'api', path: '/api', limit: 120, windowMs: MINUTE };
+
+// Reads (GET, HEAD) of the form endpoints fall under the default limit, so a
+// tight limit on submissions doesn't also apply to a handler's other methods.
+export const findApiRateLimitRule = (pathname: string, method: string): ApiRateLimitRule => {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  if (method === 'GET' || method === 'HEAD') return defaultApiRateLimit;
+  return apiRateLimitRules.find((rule) => rule.path === path) ?? defaultApiRateLimit;
+};
@@ -0,0 +1,38 @@
+// Content-Security-Policy for pages. Scripts only run when they carry the
+// per-request nonce (Next.js adds it to its own scripts) or are loaded by one
+// that does. Nothing may be framed, embedded or loaded from other origins.
+
+// Request header the proxy uses to hand the nonce to the root layout.
+export const NONCE_HEADER = 'x-nonce';
+
+// 128 random bits, base64-encoded.
+export const createNonce = (): string => btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+
+export const buildContentSecurityPolicy = (nonce: string, { dev = false }: { dev?: boolean } = {}): string => {
+  const directives: Record<string, string[]> = {
+    'default-src': ["'self'"],
+    // React's development build and hot reloading evaluate code at runtime.
+    'script-src': ["'self'", `'nonce-${nonce}'`, "'strict-dynamic'", ...(dev ? ["'unsafe-eval'"] : [])],
+    // Stylesheets are bundled; in development they are injected as <style>
+    // tags without a nonce, and listing a nonce would disable 'unsafe-inline'.
+    'style-src': ["'self'", ...(dev ? ["'unsafe-inline'"] : [`'nonce-${nonce}'`])],
+    // framer-motion animates through style attributes and next/image sizes
+    // images with them.
+    'style-src-attr': ["'unsafe-inline'"],
+    // next/image serves from /_next/image and uses data: URLs for placeholders.
+    'img-src': ["'self'", 'data:', 'blob:'],
+    'font-src': ["'self'"],
+    'connect-src': ["'self'", ...(dev ? ['ws:'] : [])],
+    // The service worker. Workers otherwise fall back to script-src, where
+    // 'strict-dynamic' makes browsers ignore 'self'.
+    'worker-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'none'"],
+  };
+
+  return Object.entries(directives)
+    .map(([directive, sources]) => `${directive} ${sources.join(' ')}`)
+    .join('; ');
+};
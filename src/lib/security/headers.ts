@@ -0,0 +1,27 @@
+// Headers sent with every response, static files included. next.config.ts
+// imports this file directly, so it must not use the @/ path alias.
+
+export interface SecurityHeader {
+  key: string;
+  value: string;
+}
+
+export const securityHeaders: SecurityHeader[] = [
+  // Two years, as required for the HSTS preload list. Browsers ignore it over
+  // plain HTTP, so it doesn't affect local development.
+  { key: 'Strict-Transport-Security', value: 'max-age=63072000; includeSubDomains; preload' },
+  { key: 'X-Content-Type-Options', value: 'nosniff' },
+  // For browsers that predate the CSP frame-ancestors directive.
+  { key: 'X-Frame-Options', value: 'DENY' },
+  { key: 'Referrer-Policy', value: 'strict-origin-when-cross-origin' },
+  // The join form asks for the visitor's location; nothing else needs a device API.
+  { key: 'Permissions-Policy', value: 'camera=(), microphone=(), geolocation=(self), payment=(), usb=()' },
+  { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+];
+
+// Added to public/sw.js: browsers check for a new service worker on every
+// visit, and the worker itself may only load from this origin.
+export const serviceWorkerHeaders: SecurityHeader[] = [
+  { key: 'Cache-Control', value: 'no-cache' },
+  { key: 'Content-Security-Policy', value: "default-src 'self'; script-src 'self'" },
+];
@@ -0,0 +1,3 @@
+export { apiRateLimitRules, defaultApiRateLimit, findApiRateLimitRule, type ApiRateLimitRule } from './api-rate-limits';
+export { buildContentSecurityPolicy, createNonce, NONCE_HEADER } from './csp';
+export { securityHeaders, serviceWorkerHeaders, type SecurityHeader } from './headers';
@@ -0,0 +1,153 @@
+import type { Metadata } from 'next';
+import type { FAQEntry, JobPosting, LandingContent } from '@/lib/content';
+import type { PostSummary } from '@/lib/posts/types';
+import { defaultLocale, locales, localeTags, type Locale } from '@/lib/i18n';
+import { siteUrl } from '@/lib/site';
+import { pickContact, whatsAppConfig } from '@/lib/whatsapp';
+
+export const SITE_NAME = 'RAJA';
+
+interface PageMetadataOptions {
+  locale: Locale;
+  // Path below the locale prefix, e.g. "" for the home page or "/pricing".
+  path?: string;
+  title: string;
+  description: string;
+  // Marks the page as an article in Open Graph.
+  article?: { publishedTime: string; authors: string[]; tags: string[] };
+  // Advertises the site's RSS and Atom feeds.
+  feeds?: boolean;
+}
+
+export const FEED_PATHS = { rss: '/feed.xml', atom: '/atom.xml' } as const;
+
+const localizedPath = (locale: Locale, path: string) => `/${locale}${path}`;
+
+// hreflang alternates for a page that exists in every locale.
+export const languageAlternates = (path: string = ''): Record<string, string> => ({
+  ...Object.fromEntries(locales.map((locale) => [localeTags[locale], localizedPath(locale, path)])),
+  'x-default': localizedPath(defaultLocale, path),
+});
+
+// Open Graph expects locales as language_TERRITORY.
+const ogLocale = (locale: Locale) => localeTags[locale].replace('-', '_');
+
+// Canonical URL, hreflang alternates, Open Graph and Twitter card metadata for
+// a localized page. Images come from the opengraph-image/twitter-image routes.
+export const buildPageMetadata = ({
+  locale,
+  path = '',
+  title,
+  description,
+  article,
+  feeds = false,
+}: PageMetadataOptions): Metadata => {
+  const url = localizedPath(locale, path);
+
+  return {
+    metadataBase: siteUrl,
+    title,
+    description,
+    alternates: {
+      canonical: url,
+      languages: languageAlternates(path),
+      ...(feeds && {
+        types: {
+          'application/rss+xml': FEED_PATHS.rss,
+          'application/atom+xml': FEED_PATHS.atom,
+        },
+      }),
+    },
+    openGraph: {
+      ...(article ? { type: 'article', ...article } : { type: 'website' }),
+      url,
+      siteName: SITE_NAME,
+      title,
+      description,
+      locale: ogLocale(locale),
+      alternateLocale: locales.filter((entry) => entry !== locale).map(ogLocale),
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  };
+};
+
+const absoluteUrl = (path: string) => new URL(path, siteUrl).toString();
+
+export const organizationJsonLd = (content: LandingContent) => {
+  const { footer } = content.site;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name: SITE_NAME,
+    url: siteUrl.toString(),
+    logo: absoluteUrl('/raja-logo.png'),
+    slogan: content.site.hero.badge,
+    email: footer.email,
+    contactPoint: {
+      '@type': 'ContactPoint',
+      contactType: 'sales',
+      telephone: `+${pickContact(whatsAppConfig.contacts, 'sales', defaultLocale).number}`,
+      email: footer.email,
+      areaServed: 'NG',
+      availableLanguage: locales.map((locale) => localeTags[locale]),
+    },
+  };
+};
+
+export const softwareApplicationJsonLd = (content: LandingContent, locale: Locale) => ({
+  '@context': 'https://schema.org',
+  '@type': 'SoftwareApplication',
+  name: SITE_NAME,
+  url: absoluteUrl(localizedPath(locale, '')),
+  description: content.site.hero.description,
+  applicationCategory: 'BusinessApplication',
+  operatingSystem: 'Web',
+  inLanguage: localeTags[locale],
+  featureList: content.features.map((feature) => feature.title),
+  publisher: { '@type': 'Organization', name: SITE_NAME, url: siteUrl.toString() },
+});
+
+export const faqPageJsonLd = (faqItems: FAQEntry[], locale: Locale) => ({
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  inLanguage: localeTags[locale],
+  mainEntity: faqItems.map((item) => ({
+    '@type': 'Question',
+    name: item.question,
+    acceptedAnswer: { '@type': 'Answer', text: item.answer },
+  })),
+});
+
+export const articleJsonLd = (post: PostSummary, locale: Locale) => ({
+  '@context': 'https://schema.org',
+  '@type': post.collection === 'blog' ? 'BlogPosting' : 'Article',
+  headline: post.title,
+  description: post.description,
+  datePublished: post.date,
+  author: { '@type': 'Person', name: post.author },
+  keywords: post.tags.join(', '),
+  inLanguage: 'en',
+  url: absoluteUrl(localizedPath(locale, `/${post.collection}/${post.slug}`)),
+  publisher: { '@type': 'Organization', name: SITE_NAME, logo: absoluteUrl('/raja-logo.png') },
+});
+
+// Remote roles are open to applicants anywhere in Nigeria; the rest are based
+// in the named city.
+export const jobPostingJsonLd = (job: JobPosting, locale: Locale) => ({
+  '@context': 'https://schema.org',
+  '@type': 'JobPosting',
+  title: job.title,
+  description: [job.description, ...job.responsibilities, ...job.requirements].join('\n'),
+  datePosted: job.posted,
+  employmentType: job.type.replace('-', '_').toUpperCase(),
+  hiringOrganization: { '@type': 'Organization', name: SITE_NAME, sameAs: siteUrl.toString(), logo: absoluteUrl('/raja-logo.png') },
+  ...(job.location === 'Remote'
+    ? { jobLocationType: 'TELECOMMUTE', applicantLocationRequirements: { '@type': 'Country', name: 'Nigeria' } }
+    : { jobLocation: { '@type': 'Place', address: { '@type': 'PostalAddress', addressLocality: job.location, addressCountry: 'NG' } } }),
+  url: absoluteUrl(localizedPath(locale, `/careers/${job.slug}`)),
+});
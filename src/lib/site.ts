@@ -0,0 +1,2 @@
+// Public origin of the marketing site, used wherever absolute URLs are needed.
+export const siteUrl = new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'https://raja.ng');
@@ -0,0 +1,21 @@
+import { createStatsSource, FileStatsSource, fixtureStatsPath } from './sources';
+import type { PlatformStats, StatsResponse } from './types';
+
+export * from './types';
+export { STATS_REVALIDATE_SECONDS, FileStatsSource, HttpStatsSource, parsePlatformStats } from './sources';
+
+let lastKnown: PlatformStats | undefined;
+
+// Loads the current figures from the configured source. If that fails we serve
+// the last figures that loaded in this process and, on a cold start, the
+// bundled fixture, so the stats section never renders empty.
+export const getPlatformStats = async (): Promise<StatsResponse> => {
+  try {
+    lastKnown = await createStatsSource().load();
+    return { ...lastKnown, stale: false };
+  } catch (error) {
+    console.error('Failed to load platform stats', error);
+    const fallback = lastKnown ?? (await new FileStatsSource(fixtureStatsPath).load());
+    return { ...fallback, stale: true };
+  }
+};
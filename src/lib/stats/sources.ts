@@ -0,0 +1,52 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { isRecord } from '@/lib/validation';
+import { statKeys, type PlatformStats, type StatsSource } from './types';
+
+// How long fetched figures are reused before the source is asked again. Pages
+// render per request (the layout reads the CSP nonce), so only /api/stats has a
+// `revalidate` segment config to keep in sync.
+export const STATS_REVALIDATE_SECONDS = 300;
+
+export const parsePlatformStats = (value: unknown): PlatformStats => {
+  if (!isRecord(value) || typeof value.updatedAt !== 'string' || !isRecord(value.figures)) {
+    throw new Error('Stats payload must have "updatedAt" and "figures"');
+  }
+  const { figures } = value;
+  for (const key of statKeys) {
+    if (typeof figures[key] !== 'number' || !Number.isFinite(figures[key]) || figures[key] < 0) {
+      throw new Error(`Stats payload has no valid "${key}" figure`);
+    }
+  }
+  return value as unknown as PlatformStats;
+};
+
+export class FileStatsSource implements StatsSource {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<PlatformStats> {
+    return parsePlatformStats(JSON.parse(await readFile(this.filePath, 'utf8')));
+  }
+}
+
+export class HttpStatsSource implements StatsSource {
+  constructor(private readonly url: string) {}
+
+  async load(): Promise<PlatformStats> {
+    const response = await fetch(this.url, { next: { revalidate: STATS_REVALIDATE_SECONDS } });
+    if (!response.ok) throw new Error(`Stats source responded with ${response.status}`);
+    return parsePlatformStats(await response.json());
+  }
+}
+
+export const fixtureStatsPath = path.join(process.cwd(), 'src', 'data', 'platform-stats.json');
+
+// STATS_SOURCE selects where figures come from ("file" by default, or "http");
+// STATS_FILE and STATS_URL configure the respective source.
+export const createStatsSource = (): StatsSource => {
+  if (process.env.STATS_SOURCE === 'http') {
+    if (!process.env.STATS_URL) throw new Error('STATS_URL must be set when STATS_SOURCE is "http"');
+    return new HttpStatsSource(process.env.STATS_URL);
+  }
+  return new FileStatsSource(process.env.STATS_FILE ?? fixtureStatsPath);
+};
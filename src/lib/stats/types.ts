@@ -0,0 +1,17 @@
+export const statKeys = ['territoriesMapped', 'retailersTracked', 'demandClusters', 'efficiencyGain'] as const;
+
+export type StatKey = (typeof statKeys)[number];
+
+export interface PlatformStats {
+  updatedAt: string;
+  figures: Record<StatKey, number>;
+}
+
+export interface StatsSource {
+  load(): Promise<PlatformStats>;
+}
+
+export interface StatsResponse extends PlatformStats {
+  // True when the source failed and these are the last values that loaded.
+  stale: boolean;
+}
@@ -0,0 +1,51 @@
+// The theme is a data-theme attribute on <html>. Without a stored choice it
+// follows the system setting; a choice made with the toggle is kept in
+// localStorage and wins from then on.
+
+export type Theme = 'light' | 'dark';
+
+export const THEME_STORAGE_KEY = 'raja_theme';
+
+const THEME_EVENT = 'raja:theme-change';
+
+export const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+export const parseTheme = (value: string | null | undefined): Theme | null =>
+  value === 'light' || value === 'dark' ? value : null;
+
+// Inlined in <head> so the right theme is set before the first paint. Kept in
+// plain ES5 because it runs before any bundle has loaded.
+export const themeScript = `(function(){try{var t=localStorage.getItem('${THEME_STORAGE_KEY}');if(t!=='light'&&t!=='dark'){t=window.matchMedia('${DARK_SCHEME_QUERY}').matches?'dark':'light'}document.documentElement.dataset.theme=t}catch(e){}})();`;
+
+export const getStoredTheme = (): Theme | null => {
+  try {
+    return parseTheme(window.localStorage.getItem(THEME_STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+export const getSystemTheme = (): Theme => (window.matchMedia(DARK_SCHEME_QUERY).matches ? 'dark' : 'light');
+
+export const getTheme = (): Theme => parseTheme(document.documentElement.dataset.theme) ?? getStoredTheme() ?? getSystemTheme();
+
+export const applyTheme = (theme: Theme) => {
+  document.documentElement.dataset.theme = theme;
+  window.dispatchEvent(new CustomEvent<Theme>(THEME_EVENT, { detail: theme }));
+};
+
+export const setTheme = (theme: Theme) => {
+  try {
+    window.localStorage.setItem(THEME_STORAGE_KEY, theme);
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); the choice
+    // then lasts for this page only.
+  }
+  applyTheme(theme);
+};
+
+export const onThemeChange = (listener: (theme: Theme) => void) => {
+  const handler = (event: Event) => listener((event as CustomEvent<Theme>).detail);
+  window.addEventListener(THEME_EVENT, handler);
+  return () => window.removeEventListener(THEME_EVENT, handler);
+};
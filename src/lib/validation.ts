@@ -0,0 +1,42 @@
+// Shared helpers for validating untrusted form payloads in route handlers.
+
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errors: FieldErrors };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns the trimmed string, or null when the value is missing, not a string or empty.
+export const readString = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > maxLength) return null;
+  return trimmed;
+};
+
+// Accepts local (080...) and international (+234 80...) Nigerian mobile numbers,
+// with or without spaces and dashes, and normalises them to E.164.
+export const normaliseNigerianPhone = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const digits = value.replace(/[\s()-]/g, '');
+  const match = digits.match(/^(?:\+?234|0)([789][01]\d{8})$/);
+  return match ? `+234${match[1]}` : null;
+};
+
+export const readInteger = (value: unknown, min: number, max: number): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed)) return null;
+  if (parsed < min || parsed > max) return null;
+  return parsed;
+};
+
+// A deliberately loose check: one "@", no spaces and a dot in the domain.
+// Returns the address lower-cased.
+export const readEmail = (value: unknown): string | null => {
+  const email = readString(value, 254);
+  if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return null;
+  return email.toLowerCase();
+};
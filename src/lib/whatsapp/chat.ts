@@ -0,0 +1,68 @@
+import type { Locale } from '@/lib/i18n';
+import type { ChatContext, ChatTeam, WhatsAppContact } from './types';
+
+export interface ChatMessages {
+  default: string;
+  section: string;
+  segment: string;
+  plan: string;
+  careers: string;
+  retailers: string;
+}
+
+const CHAT_CONTEXT_EVENT = 'raja:chat-context';
+
+export const whatsAppUrl = (number: string, text?: string): string =>
+  `https://wa.me/${number}${text ? `?text=${encodeURIComponent(text)}` : ''}`;
+
+// "2348129901643" -> "+234 812 990 1643"
+export const formatWhatsAppNumber = (number: string): string => {
+  const match = number.match(/^234(\d{3})(\d{3})(\d{4})$/);
+  return match ? `+234 ${match[1]} ${match[2]} ${match[3]}` : `+${number}`;
+};
+
+// The team a page's chats go to, from its path below the locale prefix.
+export const teamForPath = (path: string): ChatTeam => {
+  if (path === '/careers' || path.startsWith('/careers/')) return 'careers';
+  if (path === '/join') return 'retailers';
+  return 'sales';
+};
+
+// Prefers a contact for the team that serves the visitor's language, then any
+// contact for the team, then the general sales number.
+export const pickContact = (contacts: WhatsAppContact[], team: ChatTeam, locale: Locale): WhatsAppContact => {
+  const forTeam = (candidate: ChatTeam) => contacts.filter((contact) => contact.team === candidate);
+  return (
+    forTeam(team).find((contact) => contact.locales?.includes(locale)) ??
+    forTeam(team).find((contact) => !contact.locales) ??
+    forTeam('sales').find((contact) => contact.locales?.includes(locale)) ??
+    forTeam('sales').find((contact) => !contact.locales) ??
+    contacts[0]
+  );
+};
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
+// The most specific message that fits: plan, then segment, then section, then
+// the team's own message.
+export const buildChatMessage = (messages: ChatMessages, context: ChatContext): string => {
+  if (context.plan) return fill(messages.plan, { plan: context.plan });
+  if (context.segment) return fill(messages.segment, { segment: context.segment });
+  if (context.section) return fill(messages.section, { section: context.section });
+  return context.team === 'sales' ? messages.default : messages[context.team];
+};
+
+type PageChatContext = Pick<ChatContext, 'plan'>;
+
+// Lets a page tell the chat widget what the visitor is looking at, e.g. the
+// pricing plan under the pointer.
+export const setChatContext = (context: PageChatContext) => {
+  window.dispatchEvent(new CustomEvent<PageChatContext>(CHAT_CONTEXT_EVENT, { detail: context }));
+};
+
+export const onChatContextChange = (listener: (context: PageChatContext) => void) => {
+  const handler = (event: Event) => listener((event as CustomEvent<PageChatContext>).detail);
+  window.addEventListener(CHAT_CONTEXT_EVENT, handler);
+  return () => window.removeEventListener(CHAT_CONTEXT_EVENT, handler);
+};
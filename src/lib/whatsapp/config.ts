@@ -0,0 +1,14 @@
+import rawWhatsApp from '@content/whatsapp.json';
+import { ContentValidationError, parseContent } from '@/lib/content/schema';
+import { whatsAppSchema } from '@/lib/content/schemas';
+
+const source = 'content/whatsapp.json';
+
+// Read directly rather than through src/lib/content, because the chat widget
+// and footer are client components.
+export const whatsAppConfig = parseContent(whatsAppSchema, rawWhatsApp, source);
+
+// Sales is the fallback for every other team, so it must have a number.
+if (!whatsAppConfig.contacts.some((contact) => contact.team === 'sales' && !contact.locales)) {
+  throw new ContentValidationError(source, ['contacts: needs a "sales" contact without locales']);
+}
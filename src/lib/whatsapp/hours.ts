@@ -0,0 +1,29 @@
+import type { BusinessHours } from './types';
+
+// West Africa Time is UTC+1 all year round; Nigeria has no daylight saving.
+export const WAT_OFFSET_MINUTES = 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether `date` falls inside the business hours, judged in WAT whatever the
+// visitor's own time zone.
+export const isWithinBusinessHours = (date: Date, hours: BusinessHours): boolean => {
+  const wat = new Date(date.getTime() + WAT_OFFSET_MINUTES * 60 * 1000);
+  const minutes = wat.getUTCHours() * 60 + wat.getUTCMinutes();
+  return hours.days.includes(wat.getUTCDay()) && minutes >= toMinutes(hours.open) && minutes < toMinutes(hours.close);
+};
+
+// e.g. "Mon–Sat, 08:00–18:00 WAT", with day names in the visitor's language.
+export const formatBusinessHours = (hours: BusinessHours, localeTag: string): string => {
+  const dayName = new Intl.DateTimeFormat(localeTag, { weekday: 'short', timeZone: 'UTC' });
+  // 4 January 1970 was a Sunday.
+  const name = (day: number) => dayName.format(new Date(Date.UTC(1970, 0, 4 + day)));
+  const days = [...hours.days].sort((a, b) => a - b);
+  const consecutive = days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+  const dayRange =
+    consecutive && days.length > 2 ? `${name(days[0])}–${name(days[days.length - 1])}` : days.map(name).join(', ');
+  return `${dayRange}, ${hours.open}–${hours.close} WAT`;
+};
@@ -0,0 +1,13 @@
+export * from './types';
+export { whatsAppConfig } from './config';
+export { formatBusinessHours, isWithinBusinessHours, WAT_OFFSET_MINUTES } from './hours';
+export {
+  buildChatMessage,
+  formatWhatsAppNumber,
+  onChatContextChange,
+  pickContact,
+  setChatContext,
+  teamForPath,
+  whatsAppUrl,
+  type ChatMessages,
+} from './chat';
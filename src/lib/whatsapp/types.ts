@@ -0,0 +1,40 @@
+import type { Locale } from '@/lib/i18n';
+
+// Who a chat is routed to. Pages pick a team; content/whatsapp.json maps
+// teams to numbers.
+export const chatTeams = ['sales', 'retailers', 'careers'] as const;
+
+export type ChatTeam = (typeof chatTeams)[number];
+
+export interface BusinessHours {
+  // Days the team answers chats, 0 (Sunday) to 6 (Saturday).
+  days: number[];
+  // Opening and closing times in West Africa Time, as HH:MM.
+  open: string;
+  close: string;
+}
+
+export interface WhatsAppContact {
+  team: ChatTeam;
+  // International format without "+" or spaces, as wa.me expects.
+  number: string;
+  // Languages this number serves, e.g. a northern desk for Hausa speakers.
+  // Contacts without locales serve every language.
+  locales?: Locale[];
+}
+
+export interface WhatsAppConfig {
+  hours: BusinessHours;
+  contacts: WhatsAppContact[];
+}
+
+// What the visitor is looking at, used to pre-fill the chat message.
+export interface ChatContext {
+  team: ChatTeam;
+  // Label of the home-page section in view.
+  section?: string;
+  // Title of the solutions segment being viewed.
+  segment?: string;
+  // Name of the pricing plan last pointed at.
+  plan?: string;
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isLocale, LOCALE_COOKIE, locales, negotiateLocale } from '@/lib/i18n';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { buildContentSecurityPolicy, createNonce, findApiRateLimitRule, NONCE_HEADER } from '@/lib/security';
+
+// Turns away clients that call an API route too often, before the handler runs.
+const limitApiRequest = async (request: NextRequest) => {
+  // Limiters keep their counts in the shared rate-limit store, so a fresh one per request is fine.
+  const limit = createRateLimiter(findApiRateLimitRule(request.nextUrl.pathname, request.method));
+  const rateLimit = await limit(getClientIp(request));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } },
+    );
+  }
+  return NextResponse.next();
+};
+
+// Sends requests without a locale prefix to the visitor's language: an explicit
+// choice saved by the language switcher wins over the Accept-Language header.
+const redirectToLocale = (request: NextRequest) => {
+  const { pathname } = request.nextUrl;
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : negotiateLocale(request.headers.get('accept-language'));
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${locale}${pathname === '/' ? '' : pathname}`;
+  return NextResponse.redirect(url);
+};
+
+// Pages get a fresh CSP nonce. Next.js reads it from the request's CSP header
+// and adds it to the scripts it renders; the root layout reads x-nonce for its own.
+const withContentSecurityPolicy = (request: NextRequest) => {
+  const nonce = createNonce();
+  const policy = buildContentSecurityPolicy(nonce, { dev: process.env.NODE_ENV === 'development' });
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(NONCE_HEADER, nonce);
+  requestHeaders.set('Content-Security-Policy', policy);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set('Content-Security-Policy', policy);
+  return response;
+};
+
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (pathname === '/api' || pathname.startsWith('/api/')) return limitApiRequest(request);
+
+  const hasLocale = locales.some((locale) => pathname === `/${locale}` || pathname.startsWith(`/${locale}/`));
+  if (!hasLocale) return redirectToLocale(request);
+
+  return withContentSecurityPolicy(request);
+}
+
+export const config = {
+  // API routes, and pages: Next.js internals and anything that looks like a
+  // file are skipped. Only the /api and /_next segments are excluded, so a page
+  // such as /apid still gets a locale and a CSP.
+  matcher: ['/api/:path*', '/((?!api/|api$|_next/|.*\\..*).*)'],
+};
@@ -0,0 +1,15 @@
+import axe from 'axe-core';
+
+// jsdom doesn't compute styles, so colour contrast can't be measured here.
+const options: axe.RunOptions = {
+  rules: { 'color-contrast': { enabled: false } },
+};
+
+export const axeViolations = async (container: Element) => {
+  const { violations } = await axe.run(container, options);
+  return violations.map((violation) => ({
+    id: violation.id,
+    help: violation.help,
+    nodes: violation.nodes.map((node) => node.html),
+  }));
+};
@@ -0,0 +1,107 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import CoverageMap from '@/components/CoverageMap';
+import RajaLanding from '@/components/RajaLanding';
+import SiteHeader from '@/components/SiteHeader';
+import { FAQItem } from '@/components/ui';
+import { getLandingContent } from '@/lib/content';
+import { getPlatformStats } from '@/lib/stats';
+import { axeViolations } from './axe';
+
+const { nav } = getLandingContent('en').site;
+
+describe('mobile menu', () => {
+  it('exposes its state and the menu it controls', async () => {
+    const user = userEvent.setup();
+    render(<SiteHeader locale="en" nav={nav} onHomePage />);
+    const toggle = screen.getByRole('button', { name: nav.menuLabel });
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(document.getElementById(toggle.getAttribute('aria-controls')!)).not.toBeNull();
+  });
+
+  it('closes on Escape and returns focus to the toggle', async () => {
+    const user = userEvent.setup();
+    render(<SiteHeader locale="en" nav={nav} onHomePage />);
+    const toggle = screen.getByRole('button', { name: nav.menuLabel });
+
+    await user.click(toggle);
+    await user.keyboard('{Escape}');
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(document.getElementById('mobile-menu')).toBeNull();
+    expect(toggle).toHaveFocus();
+  });
+
+  it('renders Login as a single link rather than a button inside a link', () => {
+    render(<SiteHeader locale="en" nav={nav} />);
+    for (const login of screen.getAllByRole('link', { name: nav.login.label })) {
+      expect(login).toHaveAttribute('href', nav.login.href);
+      expect(login).toHaveAttribute('target', '_blank');
+      expect(login.querySelector('button')).toBeNull();
+    }
+  });
+});
+
+describe('FAQ accordion', () => {
+  it('associates the question button with its answer region', async () => {
+    const user = userEvent.setup();
+    render(<FAQItem question="Does RAJA work offline?" answer="Yes, between network bars." />);
+    const button = screen.getByRole('button', { name: 'Does RAJA work offline?' });
+    const panel = document.getElementById(button.getAttribute('aria-controls')!)!;
+
+    expect(button.closest('h3')).not.toBeNull();
+    expect(panel).toHaveAttribute('aria-labelledby', button.id);
+    expect(panel).not.toBeVisible();
+
+    await user.click(button);
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByRole('region', { name: 'Does RAJA work offline?' })).toHaveTextContent('Yes, between network bars.');
+  });
+});
+
+describe('skip link target', () => {
+  it('home page has a focusable main landmark', async () => {
+    render(<RajaLanding content={getLandingContent('en')} locale="en" stats={await getPlatformStats()} />);
+    const main = screen.getByRole('main');
+
+    expect(main).toHaveAttribute('id', 'main-content');
+    expect(main).toHaveAttribute('tabindex', '-1');
+  });
+});
+
+describe('coverage map', () => {
+  it('has no axe violations', async () => {
+    const { container } = render(<CoverageMap copy={getLandingContent('en').site.coverageMap} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('zooms into a cluster from the keyboard and keeps focus on the map', async () => {
+    const user = userEvent.setup();
+    render(<CoverageMap copy={getLandingContent('en').site.coverageMap} />);
+
+    screen.getAllByRole('button', { name: /retailers, zoom in$/ })[0].focus();
+    await user.keyboard('{Enter}');
+
+    expect(screen.getByRole('button', { name: 'Zoom out' })).toBeEnabled();
+    expect(screen.getByRole('application')).toHaveFocus();
+  });
+
+  it('selects a retailer by click or keyboard once zoomed in', async () => {
+    const user = userEvent.setup();
+    render(<CoverageMap copy={getLandingContent('en').site.coverageMap} />);
+    for (let step = 0; step < 3; step++) await user.click(screen.getByRole('button', { name: 'Zoom in' }));
+
+    const retailerId = (marker: HTMLElement) => marker.getAttribute('aria-label')!.match(/^Retailer ([^,]+)/)![1];
+    const [first, second] = screen.getAllByRole('button', { name: /^Retailer / });
+
+    await user.click(first);
+    expect(screen.getByRole('status')).toHaveTextContent(retailerId(first));
+
+    second.focus();
+    await user.keyboard(' ');
+    expect(screen.getByRole('status')).toHaveTextContent(retailerId(second));
+  });
+});
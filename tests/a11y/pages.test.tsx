@@ -0,0 +1,117 @@
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import CareersLanding from '@/components/CareersLanding';
+import HelpLanding from '@/components/HelpLanding';
+import JobPostingArticle from '@/components/JobPostingArticle';
+import JoinLanding from '@/components/JoinLanding';
+import NewsletterStatus from '@/components/NewsletterStatus';
+import OfflineLanding from '@/components/OfflineLanding';
+import PostIndexLanding from '@/components/PostIndexLanding';
+import PricingLanding from '@/components/PricingLanding';
+import RajaLanding from '@/components/RajaLanding';
+import SolutionLanding from '@/components/SolutionLanding';
+import { getCareersContent, getHelpContent, getJoinContent, getLandingContent, getPostsContent, getPricingContent, getSolutionsContent } from '@/lib/content';
+import { getPostSummaries } from '@/lib/posts';
+import { segmentTitles } from '@/lib/posts/pages';
+import { buildFeatureMatrix } from '@/lib/pricing';
+import { getPlatformStats } from '@/lib/stats';
+import { axeViolations } from './axe';
+
+describe('page accessibility', () => {
+  it('home page has no axe violations', async () => {
+    const { container } = render(
+      <RajaLanding content={getLandingContent('en')} locale="en" stats={await getPlatformStats()} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('home page in Hausa has no axe violations', async () => {
+    const { container } = render(
+      <RajaLanding content={getLandingContent('ha')} locale="ha" stats={await getPlatformStats()} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('solution page has no axe violations', async () => {
+    const { site, features } = getLandingContent('en');
+    const { labels, segments } = getSolutionsContent('en');
+    const segment = segments[0];
+    const { container } = render(
+      <SolutionLanding
+        locale="en"
+        site={site}
+        labels={labels}
+        segment={segment}
+        features={features.filter((feature) => segment.features.includes(feature.id))}
+        leadRole="FMCG dealers"
+      />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('pricing page has no axe violations', async () => {
+    const { site, features } = getLandingContent('en');
+    const { container } = render(
+      <PricingLanding
+        locale="en"
+        site={site}
+        content={getPricingContent('en')}
+        matrix={buildFeatureMatrix(features)}
+        efficiencyGain={32}
+      />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('case study listing has no axe violations', async () => {
+    const { container } = render(
+      <PostIndexLanding
+        locale="en"
+        site={getLandingContent('en').site}
+        copy={getPostsContent('en')['case-studies']}
+        collection="case-studies"
+        posts={await getPostSummaries('case-studies')}
+        segments={segmentTitles('en')}
+      />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('careers page has no axe violations', async () => {
+    const { container } = render(
+      <CareersLanding locale="en" site={getLandingContent('en').site} content={getCareersContent('en')} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('job posting with its application form has no axe violations', async () => {
+    const { container } = render(
+      <JobPostingArticle locale="en" site={getLandingContent('en').site} job={getCareersContent('en').jobs[0]} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('join wizard has no axe violations', async () => {
+    const { container } = render(
+      <JoinLanding locale="en" site={getLandingContent('en').site} content={getJoinContent('en')} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('help centre has no axe violations', async () => {
+    const { container } = render(
+      <HelpLanding locale="en" site={getLandingContent('en').site} content={getHelpContent('en')} />,
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('newsletter link page has no axe violations', async () => {
+    const { container } = render(<NewsletterStatus locale="en" site={getLandingContent('en').site} page="invalid" />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('offline page has no axe violations', async () => {
+    const { container } = render(<OfflineLanding locale="en" site={getLandingContent('en').site} />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,18 @@
+import { test as base, expect } from '@playwright/test';
+
+// Aborts every request that isn't for the app itself (web fonts, the login
+// app), so tests never depend on the network.
+export const test = base.extend<{ blockExternalRequests: void }>({
+  blockExternalRequests: [
+    async ({ page, baseURL }, use) => {
+      const origin = new URL(baseURL!).origin;
+      await page.route('**/*', (route) =>
+        route.request().url().startsWith(origin) ? route.continue() : route.abort('internetdisconnected'),
+      );
+      await use();
+    },
+    { auto: true },
+  ],
+});
+
+export { expect };
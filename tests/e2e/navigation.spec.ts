@@ -0,0 +1,146 @@
+import type { Page } from '@playwright/test';
+import { getLandingContent } from '@/lib/content';
+import { buildNavItems } from '@/lib/navigation';
+import { expect, test } from './fixtures';
+
+const { nav } = getLandingContent('en').site;
+const sectionLinks = buildNavItems(nav, 'en', true).filter((item) => item.sectionId);
+
+// Smooth scrolling has finished once two polls read the same position.
+const scrollSettled = async (page: Page) => {
+  let previous = -1;
+  await expect
+    .poll(async () => {
+      const current = await page.evaluate(() => window.scrollY);
+      const settled = current === previous;
+      previous = current;
+      return settled;
+    })
+    .toBe(true);
+};
+
+test.describe('desktop navigation', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/en');
+  });
+
+  for (const link of sectionLinks) {
+    test(`"${link.label}" scrolls to ${link.href}`, async ({ page }) => {
+      const desktopNav = page.getByRole('navigation', { name: nav.label });
+      await desktopNav.getByRole('link', { name: link.label, exact: true }).click();
+
+      await expect(page).toHaveURL(new RegExp(`/en${link.href}$`));
+      await expect(page.locator(link.href)).toBeInViewport();
+    });
+  }
+
+  test('section tops land below the fixed header', async ({ page }) => {
+    for (const link of sectionLinks) {
+      await page.getByRole('navigation', { name: nav.label }).getByRole('link', { name: link.label, exact: true }).click();
+      await expect(page).toHaveURL(new RegExp(`${link.href}$`));
+      await scrollSettled(page);
+
+      const headerBottom = await page.locator('header').evaluate((header) => header.getBoundingClientRect().bottom);
+      const sectionTop = await page.locator(link.href).evaluate((section) => section.getBoundingClientRect().top);
+      expect(sectionTop).toBeGreaterThanOrEqual(headerBottom - 1);
+    }
+  });
+
+  test('scroll-spy highlights the section being read and updates the hash', async ({ page }) => {
+    const desktopNav = page.getByRole('navigation', { name: nav.label });
+    const [first, second] = sectionLinks;
+
+    await page.evaluate((id) => document.getElementById(id)!.scrollIntoView({ block: 'start', behavior: 'instant' }), second.sectionId!);
+    await expect(desktopNav.getByRole('link', { name: second.label, exact: true })).toHaveAttribute('aria-current', 'location');
+    await expect(desktopNav.getByRole('link', { name: first.label, exact: true })).not.toHaveAttribute('aria-current');
+    await expect(page).toHaveURL(new RegExp(`${second.href}$`));
+  });
+
+  test('reading progress grows as the page scrolls', async ({ page }) => {
+    const bar = page.locator('header > [aria-hidden="true"]').last();
+    const scale = () => bar.evaluate((element) => new DOMMatrix(getComputedStyle(element).transform).a);
+
+    await page.evaluate(() => window.scrollTo({ top: document.documentElement.scrollHeight, behavior: 'instant' }));
+    await expect.poll(scale).toBeGreaterThan(0.95);
+  });
+
+  test('Login opens the app in a new tab', async ({ page }) => {
+    const login = page.getByRole('navigation', { name: nav.label }).getByRole('link', { name: nav.login.label });
+
+    await expect(login).toHaveAttribute('href', nav.login.href);
+    await expect(login).toHaveAttribute('target', '_blank');
+    await expect(login).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  test('skip link moves focus to the main content', async ({ page }) => {
+    await page.keyboard.press('Tab');
+    const skip = page.getByRole('link', { name: nav.skipLinkLabel });
+    await expect(skip).toBeFocused();
+
+    await page.keyboard.press('Enter');
+    await expect(page.locator('#main-content')).toBeFocused();
+  });
+});
+
+test('switching language stays on the same page', async ({ page }) => {
+  await page.goto('/en/pricing');
+  await page.getByRole('navigation', { name: nav.label }).getByLabel(nav.languageLabel).selectOption('ha');
+
+  await expect(page).toHaveURL(/\/ha\/pricing$/);
+});
+
+test.describe('mobile menu', () => {
+  test.use({ viewport: { width: 390, height: 844 }, hasTouch: true });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/en');
+  });
+
+  test('opens and closes from the toggle', async ({ page }) => {
+    const toggle = page.getByRole('button', { name: nav.menuLabel });
+    const menu = page.locator('#mobile-menu');
+
+    await expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await expect(menu).toHaveCount(0);
+
+    await toggle.click();
+    await expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    await expect(menu).toBeVisible();
+    await expect(menu.getByRole('link', { name: nav.login.label })).toHaveAttribute('href', nav.login.href);
+
+    await toggle.click();
+    await expect(menu).toHaveCount(0);
+  });
+
+  test('closes on Escape and returns focus to the toggle', async ({ page }) => {
+    const toggle = page.getByRole('button', { name: nav.menuLabel });
+
+    await toggle.click();
+    await expect(page.locator('#mobile-menu a').first()).toBeFocused();
+
+    await page.keyboard.press('Escape');
+    await expect(page.locator('#mobile-menu')).toHaveCount(0);
+    await expect(toggle).toBeFocused();
+  });
+
+  test('keeps Tab focus inside the open menu', async ({ page }) => {
+    const toggle = page.getByRole('button', { name: nav.menuLabel });
+    await toggle.click();
+
+    // More presses than there are focusable elements in the header.
+    for (let i = 0; i < buildNavItems(nav, 'en').length + 5; i += 1) await page.keyboard.press('Tab');
+    const insideHeader = await page.evaluate(() => !!document.activeElement?.closest('header'));
+    expect(insideHeader).toBe(true);
+  });
+
+  for (const link of sectionLinks) {
+    test(`"${link.label}" closes the menu and scrolls to ${link.href}`, async ({ page }) => {
+      await page.getByRole('button', { name: nav.menuLabel }).click();
+      await page.locator('#mobile-menu').getByRole('link', { name: link.label, exact: true }).click();
+
+      await expect(page.locator('#mobile-menu')).toHaveCount(0);
+      await expect(page).toHaveURL(new RegExp(`/en${link.href}$`));
+      await expect(page.locator(link.href)).toBeInViewport();
+    });
+  }
+});
@@ -0,0 +1,93 @@
+import { expect, test, type Page } from '@playwright/test';
+import { getLandingContent } from '@/lib/content';
+
+// Uses Playwright's own test rather than ./fixtures: requests answered by a
+// service worker skip Playwright's routing, so the other specs block service
+// workers. Going offline cuts off other hosts just the same.
+test.use({ serviceWorkers: 'allow' });
+
+const { site } = getLandingContent('en');
+
+// Waits for the worker to install, precache the shell and take control.
+const installServiceWorker = async (page: Page) => {
+  await page.goto('/en');
+  await page.evaluate(async () => {
+    await navigator.serviceWorker.ready;
+    if (!navigator.serviceWorker.controller) {
+      await new Promise((resolve) => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+    }
+  });
+};
+
+const queuedSubmissions = (page: Page) =>
+  page.evaluate(
+    () =>
+      new Promise<number>((resolve, reject) => {
+        const open = indexedDB.open('raja-offline', 1);
+        open.onsuccess = () => {
+          const count = open.result.transaction('submissions').objectStore('submissions').count();
+          count.onsuccess = () => resolve(count.result);
+          count.onerror = () => reject(count.error);
+        };
+        open.onerror = () => reject(open.error);
+      }),
+  );
+
+test('serves a manifest with the RAJA logo and brand colours', async ({ request }) => {
+  const manifest = await (await request.get('/manifest.webmanifest')).json();
+
+  expect(manifest).toMatchObject({ short_name: 'RAJA', start_url: '/en', display: 'standalone', theme_color: '#1f6b3a' });
+  expect(manifest.icons[0].src).toBe('/raja-logo.png');
+  expect(manifest.screenshots).toHaveLength(3);
+});
+
+test.describe('offline', () => {
+  test('precaches the home page and screenshots', async ({ page }) => {
+    await installServiceWorker(page);
+
+    const cached = await page.evaluate(async () =>
+      Promise.all(['/en', '/en/offline', '/raja-logo.png', '/admin-dash.png'].map(async (url) => !!(await caches.match(url)))),
+    );
+    expect(cached).toEqual([true, true, true, true]);
+  });
+
+  test('reopens the home page without a connection', async ({ page, context }) => {
+    await installServiceWorker(page);
+    await context.setOffline(true);
+
+    await page.reload();
+    await expect(page.getByRole('heading', { level: 1 })).toHaveText(site.hero.title);
+  });
+
+  test('shows the offline page with contact details for pages that were not saved', async ({ page, context }) => {
+    await installServiceWorker(page);
+    await context.setOffline(true);
+
+    await page.goto('/en/pricing');
+    await expect(page).toHaveURL(/\/en\/pricing$/);
+    await expect(page.getByRole('heading', { level: 1 })).toHaveText(site.offline.title);
+    await expect(page.getByRole('main').getByRole('link', { name: site.footer.email })).toBeVisible();
+  });
+
+  test('queues a walkthrough request and sends it when back online', async ({ page, context }) => {
+    await installServiceWorker(page);
+    await context.setOffline(true);
+
+    const form = page.locator('#walkthrough form');
+    await form.getByLabel('Full name').fill('Ada Obi');
+    await form.getByLabel('Company').fill('Obi Distribution');
+    await form.getByLabel('I am a…').selectOption({ index: 1 });
+    await form.getByLabel('Phone number').fill('08123456789');
+    await form.getByLabel('Territory').fill('Lagos Mainland');
+    await form.getByLabel('Number of retailers').fill('120');
+    await form.getByRole('button', { name: 'Request a walkthrough' }).click();
+
+    await expect(page.getByRole('status').filter({ hasText: 'back online' })).toBeVisible();
+    expect(await queuedSubmissions(page)).toBe(1);
+
+    // The worker keeps a submission until the server has answered it.
+    await context.setOffline(false);
+    await page.evaluate(() => window.dispatchEvent(new Event('online')));
+    await expect.poll(() => queuedSubmissions(page)).toBe(0);
+  });
+});
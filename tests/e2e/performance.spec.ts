@@ -0,0 +1,108 @@
+import type { Page } from '@playwright/test';
+import { expect, test } from './fixtures';
+
+const KB = 1024;
+
+// Compressed JavaScript a first visit downloads before the page is idle. The
+// framework and framer-motion account for roughly 170 KB of every budget; the
+// home page also loads the coverage map straight after hydrating.
+const budgets: { path: string; javascript: number }[] = [
+  { path: '/en', javascript: 220 * KB },
+  { path: '/en/pricing', javascript: 200 * KB },
+  { path: '/en/solutions/distributors', javascript: 200 * KB },
+  { path: '/en/help', javascript: 200 * KB },
+];
+
+// Lighthouse's "good" thresholds on its mobile profile.
+const LCP_BUDGET_MS = 2500;
+const CLS_BUDGET = 0.1;
+const TBT_BUDGET_MS = 200;
+
+interface Vitals {
+  lcp: number;
+  cls: number;
+  tbt: number;
+}
+
+// Lighthouse's mobile throttling: a 4x slower CPU on a slow 4G connection.
+const throttle = async (page: Page) => {
+  const session = await page.context().newCDPSession(page);
+  await session.send('Emulation.setCPUThrottlingRate', { rate: 4 });
+  await session.send('Network.emulateNetworkConditions', {
+    offline: false,
+    latency: 150,
+    downloadThroughput: (1.6 * 1024 * 1024) / 8,
+    uploadThroughput: (750 * 1024) / 8,
+  });
+};
+
+// Starts observing before any page script runs, so nothing is missed.
+const observeVitals = (page: Page) =>
+  page.addInitScript(() => {
+    const vitals = { lcp: 0, cls: 0, tbt: 0 };
+    (window as unknown as { __vitals: Vitals }).__vitals = vitals;
+
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) vitals.lcp = entry.startTime;
+    }).observe({ type: 'largest-contentful-paint', buffered: true });
+
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries() as (PerformanceEntry & { value: number; hadRecentInput: boolean })[]) {
+        if (!entry.hadRecentInput) vitals.cls += entry.value;
+      }
+    }).observe({ type: 'layout-shift', buffered: true });
+
+    // Total blocking time: the part of each long task beyond 50 ms.
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) vitals.tbt += Math.max(entry.duration - 50, 0);
+    }).observe({ type: 'longtask', buffered: true });
+  });
+
+test.describe('performance', () => {
+  for (const { path, javascript } of budgets) {
+    test(`${path} stays within its JavaScript budget`, async ({ page }) => {
+      const scripts: Promise<number>[] = [];
+      page.on('requestfinished', (request) => {
+        if (request.resourceType() === 'script') scripts.push(request.sizes().then((sizes) => sizes.responseBodySize));
+      });
+
+      await page.goto(path, { waitUntil: 'networkidle' });
+      const total = (await Promise.all(scripts)).reduce((sum, size) => sum + size, 0);
+
+      expect(total, `${(total / KB).toFixed(1)} KB of JavaScript`).toBeLessThanOrEqual(javascript);
+    });
+
+    test(`${path} meets the Core Web Vitals thresholds`, async ({ page }) => {
+      await observeVitals(page);
+      await throttle(page);
+      await page.goto(path, { waitUntil: 'networkidle' });
+
+      const vitals = await page.evaluate(() => (window as unknown as { __vitals: Vitals }).__vitals);
+      expect(vitals.lcp, 'largest contentful paint (ms)').toBeLessThanOrEqual(LCP_BUDGET_MS);
+      expect(vitals.cls, 'cumulative layout shift').toBeLessThanOrEqual(CLS_BUDGET);
+      expect(vitals.tbt, 'total blocking time (ms)').toBeLessThanOrEqual(TBT_BUDGET_MS);
+    });
+  }
+
+  test('the home page renders its content without JavaScript', async ({ browser }) => {
+    const context = await browser.newContext({ javaScriptEnabled: false });
+    const page = await context.newPage();
+    await page.goto('/en');
+
+    // Server-rendered sections are in the HTML rather than built on the client,
+    // and aren't left at the transparent start of their reveal animation.
+    // toBeVisible() alone passes for transparent elements.
+    await expect(page.getByRole('heading', { level: 1 })).toBeVisible();
+    for (const id of ['howitworks', 'features', 'whoitsfor', 'why-raja', 'faq']) {
+      await expect(page.locator(`#${id} h2`)).toBeVisible();
+      const revealed = await page.locator(`#${id} [data-reveal]`).all();
+      expect(revealed.length, `#${id} reveals its content`).toBeGreaterThan(0);
+      for (const element of revealed) {
+        await expect(element).toBeVisible();
+        await expect(element).toHaveCSS('opacity', '1');
+      }
+    }
+    await expect(page.locator('footer')).toContainText('RAJA');
+    await context.close();
+  });
+});
@@ -0,0 +1,55 @@
+import { expect, test } from './fixtures';
+
+const pages = ['/en', '/en/pricing', '/en/join', '/en/help'];
+
+test.describe('security headers', () => {
+  for (const path of pages) {
+    test(`${path} is served with a nonce-based CSP`, async ({ page }) => {
+      const violations: string[] = [];
+      page.on('console', (message) => {
+        if (message.type() === 'error' && message.text().includes('Content Security Policy')) violations.push(message.text());
+      });
+
+      const response = await page.goto(path);
+      const headers = response!.headers();
+      const nonce = headers['content-security-policy'].match(/'nonce-([^']+)'/)![1];
+
+      expect(headers['strict-transport-security']).toContain('max-age=');
+      expect(headers['x-content-type-options']).toBe('nosniff');
+      expect(headers['x-frame-options']).toBe('DENY');
+      expect(headers['referrer-policy']).toBe('strict-origin-when-cross-origin');
+      expect(headers['permissions-policy']).toContain('camera=()');
+      expect(headers['x-powered-by']).toBeUndefined();
+
+      // Every executable script carries the nonce; JSON-LD isn't executed.
+      const scripts = await page.locator('script:not([type="application/ld+json"])').evaluateAll((elements) =>
+        elements.map((element) => (element as HTMLScriptElement).nonce),
+      );
+      expect(scripts.length).toBeGreaterThan(0);
+      expect(scripts.every((value) => value === nonce)).toBe(true);
+
+      // Let framer-motion and next/image settle before checking for reports.
+      await page.mouse.wheel(0, 2000);
+      await page.waitForLoadState('networkidle');
+      expect(violations).toEqual([]);
+    });
+  }
+
+  test('each response gets a fresh nonce', async ({ request }) => {
+    const first = await request.get('/en');
+    const second = await request.get('/en');
+    expect(first.headers()['content-security-policy']).not.toBe(second.headers()['content-security-policy']);
+  });
+
+  test('paths that only start with "api" are treated as pages', async ({ request }) => {
+    const response = await request.get('/apid', { maxRedirects: 0 });
+    expect(response.status()).toBe(307);
+    expect(response.headers().location).toMatch(/\/[a-z]+\/apid$/);
+  });
+
+  test('static assets get the security headers but no CSP', async ({ request }) => {
+    const response = await request.get('/robots.txt');
+    expect(response.headers()['x-content-type-options']).toBe('nosniff');
+    expect(response.headers()['content-security-policy']).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { Button } from '@/components/ui';
+
+describe('Button', () => {
+  it('renders an anchor when given an href', () => {
+    render(<Button href="#walkthrough">Request a walkthrough</Button>);
+    const link = screen.getByRole('link', { name: 'Request a walkthrough' });
+
+    expect(link.tagName).toBe('A');
+    expect(link).toHaveAttribute('href', '#walkthrough');
+    expect(link).not.toHaveAttribute('target');
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+
+  it('opens external links in a new tab without leaking the opener', () => {
+    render(
+      <Button href="https://app.raja.ng/login" external>
+        Login
+      </Button>,
+    );
+    const link = screen.getByRole('link', { name: 'Login' });
+
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('renders a non-submitting button without an href', async () => {
+    const onClick = vi.fn();
+    render(<Button onClick={onClick}>Open</Button>);
+    const button = screen.getByRole('button', { name: 'Open' });
+
+    expect(button).toHaveAttribute('type', 'button');
+    expect(screen.queryByRole('link')).toBeNull();
+    await userEvent.click(button);
+    expect(onClick).toHaveBeenCalledOnce();
+  });
+
+  it('applies the variant styles', () => {
+    render(<Button variant="secondary">More</Button>);
+    expect(screen.getByRole('button', { name: 'More' }).className).toContain('border-brand-fg');
+  });
+});
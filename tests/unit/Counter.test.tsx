@@ -0,0 +1,83 @@
+import { act, render, screen } from '@testing-library/react';
+import { MotionConfig } from 'framer-motion';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Counter } from '@/components/ui';
+
+// Reports every observed element as fully visible, so the counter starts as
+// soon as it mounts.
+class VisibleIntersectionObserver {
+  constructor(private callback: IntersectionObserverCallback) {}
+  observe(target: Element) {
+    this.callback([{ isIntersecting: true, intersectionRatio: 1, target } as IntersectionObserverEntry], this as never);
+  }
+  unobserve() {}
+  disconnect() {}
+}
+
+const renderedValue = () => Number(screen.getByTestId('counter').textContent!.replace(/\D/g, ''));
+
+// The no-op observer from tests/setup.ts, restored after each test.
+const setupIntersectionObserver = globalThis.IntersectionObserver;
+
+describe('Counter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] });
+    vi.stubGlobal('IntersectionObserver', VisibleIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.stubGlobal('IntersectionObserver', setupIntersectionObserver);
+  });
+
+  const renderCounter = (props: Partial<React.ComponentProps<typeof Counter>> = {}) =>
+    render(
+      <span data-testid="counter">
+        <Counter end={1000} locale="en" duration={2} {...props} />
+      </span>,
+    );
+
+  it('renders the end value on the server', () => {
+    expect(renderToString(<Counter end={25_000} locale="en" suffix="+" />)).toContain('25,000+');
+  });
+
+  it('starts from zero', () => {
+    renderCounter();
+    expect(renderedValue()).toBe(0);
+  });
+
+  it('is part way through at half the duration', () => {
+    renderCounter();
+    act(() => vi.advanceTimersByTime(1000));
+    expect(renderedValue()).toBeGreaterThan(400);
+    expect(renderedValue()).toBeLessThan(600);
+  });
+
+  it('settles on the exact end value', () => {
+    renderCounter({ end: 25_000 });
+    act(() => vi.advanceTimersByTime(2500));
+    expect(screen.getByTestId('counter')).toHaveTextContent('25,000');
+  });
+
+  it('applies the suffix and custom formatting', () => {
+    renderCounter({ end: 32, suffix: '%', duration: 0.5 });
+    act(() => vi.advanceTimersByTime(1000));
+    expect(screen.getByTestId('counter')).toHaveTextContent('32%');
+
+    renderCounter({ end: 150, format: (value) => `${value}+ zones`, duration: 0.5 });
+    act(() => vi.advanceTimersByTime(1000));
+    expect(screen.getAllByTestId('counter')[1]).toHaveTextContent('150+ zones');
+  });
+
+  it('shows the end value immediately when reduced motion is preferred', () => {
+    render(
+      <MotionConfig reducedMotion="always">
+        <span data-testid="counter">
+          <Counter end={1000} locale="en" />
+        </span>
+      </MotionConfig>,
+    );
+    expect(renderedValue()).toBe(1000);
+  });
+});
@@ -0,0 +1,75 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FAQItem } from '@/components/ui';
+
+const question = 'Can I see which retailers are ordering less?';
+const answer = 'Yes. Every retailer profile shows order frequency over time.';
+
+describe('FAQItem', () => {
+  afterEach(() => window.history.replaceState(null, '', '/'));
+
+  it('starts collapsed', () => {
+    render(<FAQItem question={question} answer={answer} />);
+
+    expect(screen.getByRole('button', { name: question })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText(answer)).toBeNull();
+  });
+
+  it('can start expanded', () => {
+    render(<FAQItem question={question} answer={answer} defaultOpen />);
+
+    expect(screen.getByRole('button', { name: question })).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByRole('region', { name: question })).toHaveTextContent(answer);
+  });
+
+  it('opens and closes on click', async () => {
+    const user = userEvent.setup();
+    render(<FAQItem question={question} answer={answer} />);
+    const button = screen.getByRole('button', { name: question });
+
+    await user.click(button);
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByRole('region', { name: question })).toHaveTextContent(answer);
+
+    await user.click(button);
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText(answer)).toBeNull();
+  });
+
+  it('toggles from the keyboard', async () => {
+    const user = userEvent.setup();
+    render(<FAQItem question={question} answer={answer} />);
+
+    await user.tab();
+    expect(screen.getByRole('button', { name: question })).toHaveFocus();
+    await user.keyboard('{Enter}');
+    expect(screen.getByRole('region', { name: question })).toHaveTextContent(answer);
+    await user.keyboard(' ');
+    expect(screen.queryByText(answer)).toBeNull();
+  });
+
+  it('opens when the page is loaded at its anchor', () => {
+    window.history.replaceState(null, '', '/en/help#ordering-less');
+    render(<FAQItem id="ordering-less" question={question} answer={answer} />);
+
+    expect(screen.getByRole('button', { name: question })).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('opens when an in-page link targets it', () => {
+    render(<FAQItem id="ordering-less" question={question} answer={answer} />);
+    expect(screen.getByRole('button', { name: question })).toHaveAttribute('aria-expanded', 'false');
+
+    act(() => {
+      window.history.replaceState(null, '', '#ordering-less');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+    expect(screen.getByRole('button', { name: question })).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('marks search terms', () => {
+    const { container } = render(<FAQItem question={question} answer={answer} highlight={['retailer']} defaultOpen />);
+
+    expect([...container.querySelectorAll('mark')].map((mark) => mark.textContent)).toEqual(['retailer', 'retailer']);
+  });
+});
@@ -0,0 +1,66 @@
+import { act, render, screen } from '@testing-library/react';
+import { MotionConfig } from 'framer-motion';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import LiveStats from '@/components/LiveStats';
+import { getLandingContent } from '@/lib/content';
+import type { StatsResponse } from '@/lib/stats/types';
+
+// Reports every observed element as fully visible.
+class VisibleIntersectionObserver {
+  constructor(private callback: IntersectionObserverCallback) {}
+  observe(target: Element) {
+    this.callback([{ isIntersecting: true, intersectionRatio: 1, target } as IntersectionObserverEntry], this as never);
+  }
+  unobserve() {}
+  disconnect() {}
+}
+
+// The no-op observer from tests/setup.ts, restored after each test.
+const setupIntersectionObserver = globalThis.IntersectionObserver;
+
+const { stats } = getLandingContent('en').site;
+const initialStats: StatsResponse = {
+  updatedAt: '2025-06-01T00:00:00Z',
+  stale: false,
+  figures: { territoriesMapped: 10, retailersTracked: 2000, demandClusters: 30, efficiencyGain: 40 },
+};
+
+const renderStats = () =>
+  render(
+    // Counters show their figure straight away with reduced motion.
+    <MotionConfig reducedMotion="always">
+      <LiveStats locale="en" stats={stats} initialStats={initialStats} />
+    </MotionConfig>,
+  );
+
+describe('LiveStats', () => {
+  beforeEach(() => vi.stubGlobal('IntersectionObserver', VisibleIntersectionObserver));
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('IntersectionObserver', setupIntersectionObserver);
+  });
+
+  it('refreshes the figures once on screen', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ ...initialStats, figures: { ...initialStats.figures, territoriesMapped: 12 } }),
+    );
+    renderStats();
+
+    expect(await screen.findByText('12+')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/stats', expect.anything());
+  });
+
+  it('keeps the rendered figures when the feed is stale', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ ...initialStats, stale: true, figures: { ...initialStats.figures, territoriesMapped: 12 } }),
+    );
+    renderStats();
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    // Let the response settle before checking nothing changed.
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    expect(screen.getByText('10+')).toBeInTheDocument();
+    expect(screen.queryByText('12+')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ThemeToggle from '@/components/ThemeToggle';
+import { THEME_STORAGE_KEY, themeScript } from '@/lib/theme';
+
+const runThemeScript = () => new Function(themeScript)();
+
+// Replaces the setup stub with one whose "prefers dark" answer can change.
+const stubSystemTheme = (dark: boolean) => {
+  const listeners: ((event: MediaQueryListEvent) => void)[] = [];
+  const media = {
+    matches: dark,
+    addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => listeners.push(listener),
+    removeEventListener: () => {},
+  };
+  const original = window.matchMedia;
+  window.matchMedia = (() => media) as unknown as typeof window.matchMedia;
+  return {
+    change(next: boolean) {
+      media.matches = next;
+      listeners.forEach((listener) => listener({ matches: next } as MediaQueryListEvent));
+    },
+    restore() {
+      window.matchMedia = original;
+    },
+  };
+};
+
+afterEach(() => {
+  window.localStorage.clear();
+  delete document.documentElement.dataset.theme;
+});
+
+describe('theme script', () => {
+  it('follows the system setting when nothing is stored', () => {
+    const system = stubSystemTheme(true);
+    runThemeScript();
+    system.restore();
+
+    expect(document.documentElement.dataset.theme).toBe('dark');
+  });
+
+  it('prefers a stored choice over the system setting', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'light');
+    const system = stubSystemTheme(true);
+    runThemeScript();
+    system.restore();
+
+    expect(document.documentElement.dataset.theme).toBe('light');
+  });
+
+  it('ignores unknown stored values', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'sepia');
+    runThemeScript();
+
+    expect(document.documentElement.dataset.theme).toBe('light');
+  });
+});
+
+describe('ThemeToggle', () => {
+  it('switches the theme and remembers the choice', async () => {
+    const user = userEvent.setup();
+    runThemeScript();
+    render(<ThemeToggle label="Dark theme" />);
+    const toggle = screen.getByRole('button', { name: 'Dark theme' });
+
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+
+    await user.click(toggle);
+    expect(document.documentElement.dataset.theme).toBe('dark');
+    expect(window.localStorage.getItem(THEME_STORAGE_KEY)).toBe('dark');
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(toggle);
+    expect(document.documentElement.dataset.theme).toBe('light');
+    expect(window.localStorage.getItem(THEME_STORAGE_KEY)).toBe('light');
+  });
+
+  it('follows system changes only until a theme is chosen', async () => {
+    const user = userEvent.setup();
+    const system = stubSystemTheme(false);
+    runThemeScript();
+    render(<ThemeToggle label="Dark theme" />);
+
+    act(() => system.change(true));
+    expect(document.documentElement.dataset.theme).toBe('dark');
+    expect(screen.getByRole('button', { name: 'Dark theme' })).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(screen.getByRole('button', { name: 'Dark theme' }));
+    act(() => system.change(true));
+    expect(document.documentElement.dataset.theme).toBe('light');
+    system.restore();
+  });
+
+  it('keeps working when storage is unavailable', async () => {
+    const user = userEvent.setup();
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    render(<ThemeToggle label="Dark theme" />);
+
+    await user.click(screen.getByRole('button', { name: 'Dark theme' }));
+    expect(document.documentElement.dataset.theme).toBe('dark');
+    setItem.mockRestore();
+  });
+});
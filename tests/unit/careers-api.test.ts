@@ -0,0 +1,58 @@
+import { Blob } from 'node:buffer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/careers/applications/route';
+import { CV_MAX_BYTES } from '@/lib/careers';
+
+const BOUNDARY = 'raja-test-boundary';
+
+// Built by hand: jsdom's FormData can't be sent as a request body.
+const multipart = (fileName: string, contents: Uint8Array) =>
+  new Blob([
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="cv"; filename="${fileName}"\r\nContent-Type: application/pdf\r\n\r\n`,
+    contents,
+    `\r\n--${BOUNDARY}--\r\n`,
+  ]);
+
+const post = (body: BodyInit | ReadableStream<Uint8Array>) =>
+  POST(
+    new Request('http://localhost/api/careers/applications', {
+      method: 'POST',
+      body: body as BodyInit,
+      headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+      duplex: 'half',
+    } as RequestInit),
+  );
+
+describe('POST /api/careers/applications', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses a chunked upload once it passes the size limit', async () => {
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += 1024 * 1024;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+        if (sent > 3 * CV_MAX_BYTES) controller.close();
+      },
+    });
+
+    const response = await post(body);
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(2 * CV_MAX_BYTES);
+  });
+
+  it('rejects an oversized CV without reading its contents', async () => {
+    const arrayBuffer = vi.spyOn(Blob.prototype, 'arrayBuffer');
+    const body = new Uint8Array(await multipart('cv.pdf', new Uint8Array(CV_MAX_BYTES + 1)).arrayBuffer());
+    arrayBuffer.mockClear();
+
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fields.cv).toMatch(/smaller than/);
+    expect(arrayBuffer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it } from 'vitest';
+import CareersLanding from '@/components/CareersLanding';
+import { CV_MAX_BYTES, FileApplicationStore, validateApplication, validateCv, type Application } from '@/lib/careers';
+import { getCareersContent, getLandingContent } from '@/lib/content';
+
+const pdfBytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+
+describe('validateCv', () => {
+  it('accepts a PDF', () => {
+    expect(validateCv({ name: 'Ada CV.PDF', size: pdfBytes.byteLength }, pdfBytes)).toEqual({
+      ok: true,
+      data: { fileName: 'Ada CV.PDF', mimeType: 'application/pdf', size: pdfBytes.byteLength },
+    });
+  });
+
+  it('rejects other file types', () => {
+    expect(validateCv({ name: 'cv.png', size: 10 }, pdfBytes).ok).toBe(false);
+  });
+
+  it('rejects files whose contents do not match the extension', () => {
+    const result = validateCv({ name: 'cv.docx', size: pdfBytes.byteLength }, pdfBytes);
+    expect(result).toEqual({ ok: false, errors: { cv: 'This file does not look like a PDF or Word document.' } });
+  });
+
+  it('rejects empty and oversized files', () => {
+    expect(validateCv({ name: 'cv.pdf', size: 0 }, new Uint8Array()).ok).toBe(false);
+    expect(validateCv({ name: 'cv.pdf', size: CV_MAX_BYTES + 1 }, pdfBytes).ok).toBe(false);
+  });
+});
+
+describe('validateApplication', () => {
+  const fields = { jobSlug: 'field-agent-kano', name: ' Amina Bello ', email: 'Amina@Example.com', phone: '0803 123 4567' };
+
+  it('normalises a valid application', () => {
+    expect(validateApplication({ ...fields, message: '  ' }, ['field-agent-kano'])).toEqual({
+      ok: true,
+      data: { jobSlug: 'field-agent-kano', name: 'Amina Bello', email: 'amina@example.com', phone: '+2348031234567' },
+    });
+  });
+
+  it('rejects roles that are not open', () => {
+    const result = validateApplication(fields, ['data-analyst']);
+    expect(result.ok ? {} : result.errors).toHaveProperty('jobSlug');
+  });
+
+  it('reports every invalid field', () => {
+    const result = validateApplication({ jobSlug: 'field-agent-kano', email: 'amina', phone: '123' }, ['field-agent-kano']);
+    expect(Object.keys(result.ok ? {} : result.errors).sort()).toEqual(['email', 'name', 'phone']);
+  });
+});
+
+describe('FileApplicationStore', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores the CV next to the application index', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'raja-applications-'));
+    const store = new FileApplicationStore(dir);
+    const application: Application = {
+      id: 'a1',
+      createdAt: '2025-06-01T09:00:00.000Z',
+      ip: '127.0.0.1',
+      jobSlug: 'field-agent-kano',
+      name: 'Amina Bello',
+      email: 'amina@example.com',
+      phone: '+2348031234567',
+      cv: { fileName: 'cv.pdf', mimeType: 'application/pdf', size: pdfBytes.byteLength },
+    };
+
+    await store.save(application, pdfBytes);
+
+    expect(await store.list()).toEqual([application]);
+    expect(new Uint8Array(await readFile(path.join(dir, 'cvs', 'a1.pdf')))).toEqual(pdfBytes);
+  });
+});
+
+describe('CareersLanding', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  const renderLanding = () =>
+    render(<CareersLanding locale="en" site={getLandingContent('en').site} content={getCareersContent('en')} />);
+
+  it('filters roles by location and type', async () => {
+    const user = userEvent.setup();
+    const { jobs } = getCareersContent('en');
+    renderLanding();
+    const list = () => within(screen.getByRole('list', { name: 'Open roles' }));
+
+    await user.click(within(screen.getByRole('group', { name: 'Filter by location' })).getByRole('button', { name: 'Lagos' }));
+    expect(list().getAllByRole('listitem')).toHaveLength(jobs.filter((job) => job.location === 'Lagos').length);
+    expect(window.location.search).toBe('?location=Lagos');
+
+    await user.click(within(screen.getByRole('group', { name: 'Filter by role type' })).getByRole('button', { name: 'Contract' }));
+    expect(screen.getByText('No open roles match these filters.', { exact: false })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Clear filters' }));
+    expect(list().getAllByRole('listitem')).toHaveLength(jobs.length);
+    expect(window.location.search).toBe('');
+  });
+
+  it('applies filters from the query string', () => {
+    window.history.replaceState(null, '', '/en/careers?type=part-time');
+    renderLanding();
+
+    expect(screen.getByRole('button', { name: 'Part-time' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByRole('link', { name: /View role/ })).toHaveLength(
+      getCareersContent('en').jobs.filter((job) => job.type === 'part-time').length,
+    );
+  });
+});
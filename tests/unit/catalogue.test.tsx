@@ -0,0 +1,27 @@
+import { render, screen, within } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import ComponentCatalogue, { catalogue } from '@/app/[locale]/dev/components/catalogue';
+import * as ui from '@/components/ui';
+import { axeViolations } from '../a11y/axe';
+
+describe('component catalogue', () => {
+  it('has an entry for every component in the library', () => {
+    expect(catalogue.map((entry) => entry.name).sort()).toEqual(Object.keys(ui).sort());
+  });
+
+  it('renders every variant', () => {
+    render(<ComponentCatalogue />);
+
+    for (const entry of catalogue) {
+      const section = screen.getByRole('region', { name: entry.name });
+      for (const variant of entry.variants) {
+        expect(within(section).getByText(variant.label, { selector: 'figcaption' })).toBeInTheDocument();
+      }
+    }
+  });
+
+  it('has no axe violations', async () => {
+    const { container } = render(<ComponentCatalogue />);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCareersContent,
+  getHelpContent,
+  getJoinContent,
+  getLandingContent,
+  getPostsContent,
+  getPricingContent,
+  getSolutionsContent,
+} from '@/lib/content';
+import { locales } from '@/lib/i18n';
+
+const translated = locales.filter((locale) => locale !== 'en');
+
+describe('locale catalogues', () => {
+  it('layer over the English content without validation errors', () => {
+    for (const locale of locales) {
+      for (const load of [
+        getLandingContent,
+        getHelpContent,
+        getSolutionsContent,
+        getPricingContent,
+        getPostsContent,
+        getCareersContent,
+        getJoinContent,
+      ]) {
+        expect(() => load(locale)).not.toThrow();
+      }
+    }
+  });
+
+  // Pidgin keeps some English terms on purpose, so it is left out here.
+  it.each(['ha', 'yo', 'ig'] as const)('translate every landing card and answer in %s', (locale) => {
+    const english = getLandingContent('en');
+    const content = getLandingContent(locale);
+
+    content.features.forEach((feature, index) => {
+      expect(feature.title).not.toBe(english.features[index].title);
+      expect(feature.description).not.toBe(english.features[index].description);
+    });
+    content.productTour.forEach((view, index) => {
+      expect(view.caption).not.toBe(english.productTour[index].caption);
+      view.hotspots.forEach((hotspot, spot) => expect(hotspot.description).not.toBe(english.productTour[index].hotspots[spot].description));
+    });
+    expect(content.site.sections.productTour.title).not.toBe(english.site.sections.productTour.title);
+    expect(content.site.leadForm.submit).not.toBe(english.site.leadForm.submit);
+    expect(content.site.tour.close).not.toBe(english.site.tour.close);
+    expect(content.site.coverageMap.disclaimer).not.toBe(english.site.coverageMap.disclaimer);
+    expect(content.site.forecast.territoryTypes).not.toEqual(english.site.forecast.territoryTypes);
+    content.faqItems.forEach((item, index) => expect(item.answer).not.toBe(english.faqItems[index].answer));
+  });
+
+  it.each(translated)('translate the page catalogues in %s', (locale) => {
+    for (const load of [getPricingContent, getCareersContent, getJoinContent]) {
+      expect(load(locale).meta).not.toEqual(load('en').meta);
+    }
+    const posts = getPostsContent(locale);
+    expect(posts.blog.hero).not.toEqual(getPostsContent('en').blog.hero);
+    getSolutionsContent(locale).segments.forEach((segment, index) =>
+      expect(segment.hero.title).not.toBe(getSolutionsContent('en').segments[index].hero.title),
+    );
+  });
+
+  it.each(translated)('keep ids and links from the English content in %s', (locale) => {
+    const english = getLandingContent('en');
+    const content = getLandingContent(locale);
+
+    expect(content.features.map((feature) => feature.id)).toEqual(english.features.map((feature) => feature.id));
+    expect(content.productTour.map((view) => view.image.src)).toEqual(english.productTour.map((view) => view.image.src));
+  });
+});
@@ -0,0 +1,145 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ForecastCalculator from '@/components/ForecastCalculator';
+import { getLandingContent } from '@/lib/content';
+import {
+  defaultForecastInput,
+  forecastTerritory,
+  parseForecastParams,
+  territoryTypes,
+  toForecastParams,
+  type ForecastInput,
+} from '@/lib/forecast';
+
+const copy = getLandingContent('en').site.forecast;
+
+describe('forecastTerritory', () => {
+  it('extrapolates the default urban territory', () => {
+    // 120 retailers are 65% of 185 reachable, who order at the benchmark of 6 a month.
+    const result = forecastTerritory(defaultForecastInput);
+
+    expect(result).toMatchObject({
+      currentMonthly: 16_200_000,
+      potentialMonthly: 49_950_000,
+      gapMonthly: 33_750_000,
+      reachableRetailers: 185,
+    });
+    expect(result.gapShare).toBeCloseTo(0.676, 3);
+    expect(result.range.low).toBeCloseTo(42_457_500);
+    expect(result.range.high).toBeCloseTo(57_442_500);
+  });
+
+  it('keeps an order frequency that already beats the benchmark', () => {
+    const result = forecastTerritory({ retailerCount: 35, averageOrderValue: 10_000, ordersPerMonth: 5, territoryType: 'rural' });
+
+    expect(result.reachableRetailers).toBe(100);
+    expect(result.potentialMonthly).toBe(5_000_000);
+    expect(result.gapMonthly).toBe(3_250_000);
+    expect(result.range.low).toBeCloseTo(3_500_000);
+    expect(result.range.high).toBeCloseTo(6_500_000);
+  });
+
+  it('forecasts nothing for a territory with no retailers', () => {
+    for (const territoryType of territoryTypes) {
+      expect(forecastTerritory({ ...defaultForecastInput, retailerCount: 0, territoryType })).toEqual({
+        currentMonthly: 0,
+        potentialMonthly: 0,
+        gapMonthly: 0,
+        gapShare: 0,
+        reachableRetailers: 0,
+        range: { low: 0, high: 0 },
+      });
+    }
+  });
+
+  it('treats negative inputs as zero', () => {
+    expect(forecastTerritory({ ...defaultForecastInput, retailerCount: -40 })).toEqual(
+      forecastTerritory({ ...defaultForecastInput, retailerCount: 0 }),
+    );
+    expect(forecastTerritory({ ...defaultForecastInput, averageOrderValue: -1 }).potentialMonthly).toBe(0);
+  });
+
+  it('stays finite and ordered for very large territories', () => {
+    const result = forecastTerritory({ retailerCount: 1_000_000, averageOrderValue: 10_000_000, ordersPerMonth: 30, territoryType: 'market-hub' });
+
+    expect(Number.isFinite(result.range.high)).toBe(true);
+    expect(result.gapMonthly).toBe(result.potentialMonthly - result.currentMonthly);
+    expect(result.currentMonthly).toBeLessThanOrEqual(result.range.low);
+    expect(result.range.low).toBeLessThanOrEqual(result.potentialMonthly);
+    expect(result.potentialMonthly).toBeLessThanOrEqual(result.range.high);
+  });
+});
+
+describe('forecast query parameters', () => {
+  const roundTrip = (input: ForecastInput) => parseForecastParams(new URLSearchParams(toForecastParams(input).toString()));
+
+  it('round-trip every input through a shared URL', () => {
+    expect(roundTrip(defaultForecastInput)).toEqual(defaultForecastInput);
+    expect(roundTrip({ retailerCount: 0, averageOrderValue: 12_500.5, ordersPerMonth: 2.5, territoryType: 'peri-urban' })).toEqual({
+      retailerCount: 0,
+      averageOrderValue: 12_500.5,
+      ordersPerMonth: 2.5,
+      territoryType: 'peri-urban',
+    });
+  });
+
+  it('use short, readable keys', () => {
+    expect(toForecastParams(defaultForecastInput).toString()).toBe('retailers=120&aov=45000&freq=3&territory=urban');
+  });
+
+  it('fall back to the defaults when parameters are missing', () => {
+    expect(parseForecastParams(new URLSearchParams())).toEqual(defaultForecastInput);
+  });
+
+  it('fall back to the default for each invalid or out-of-range value', () => {
+    const params = new URLSearchParams({ retailers: '-3', aov: 'lots', freq: '', territory: 'suburban' });
+    expect(parseForecastParams(params)).toEqual(defaultForecastInput);
+    expect(parseForecastParams(new URLSearchParams({ aov: '1e400' })).averageOrderValue).toBe(defaultForecastInput.averageOrderValue);
+  });
+
+  it('round retailer counts to whole retailers', () => {
+    expect(parseForecastParams(new URLSearchParams({ retailers: '12.6' })).retailerCount).toBe(13);
+  });
+});
+
+describe('ForecastCalculator', () => {
+  afterEach(() => window.history.replaceState(null, '', '/'));
+
+  it('opens a shared calculation from the URL and lets the visitor change it', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/en/pricing?retailers=35&aov=10000&freq=5&territory=rural');
+    render(<ForecastCalculator copy={copy} />);
+
+    const retailers = screen.getByLabelText('Retailers you currently serve');
+    expect(retailers).toHaveValue(35);
+
+    await user.clear(retailers);
+    await user.type(retailers, '50');
+    expect(retailers).toHaveValue(50);
+    expect(screen.getByRole('combobox')).toHaveValue('rural');
+  });
+
+  it('applies a shared link that leaves out some parameters', () => {
+    window.history.replaceState(null, '', '/en/pricing?retailers=200');
+    render(<ForecastCalculator copy={copy} />);
+
+    expect(screen.getByLabelText('Retailers you currently serve')).toHaveValue(200);
+    expect(screen.getByLabelText('Average order value (₦)')).toHaveValue(defaultForecastInput.averageOrderValue);
+    expect(screen.getByRole('combobox')).toHaveValue(defaultForecastInput.territoryType);
+  });
+
+  it('puts the current calculation in the URL when shared', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue();
+    window.history.replaceState(null, '', '/en/pricing?utm_source=mail');
+    render(<ForecastCalculator copy={copy} />);
+
+    await user.click(screen.getByRole('button', { name: 'Copy shareable link' }));
+
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get('retailers')).toBe(String(defaultForecastInput.retailerCount));
+    expect(params.get('utm_source')).toBe('mail');
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/#forecast$/));
+  });
+});
@@ -0,0 +1,174 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import HelpLanding from '@/components/HelpLanding';
+import { getHelpContent, getLandingContent } from '@/lib/content';
+import { parseHelpMarkdown } from '@/lib/content/markdown';
+import { searchHelp, searchTerms, splitMatches, validateFeedback } from '@/lib/help';
+
+const help = getHelpContent('en');
+const articles = help.categories.flatMap((category) => category.articles);
+const slugs = articles.map((article) => article.slug);
+const changePlan = articles.find((article) => article.slug === 'change-plan')!;
+
+describe('help centre content', () => {
+  it('reads categories, descriptions and questions from markdown', () => {
+    const categories = parseHelpMarkdown(
+      [
+        '# Billing {#billing}',
+        'Plans and invoices.',
+        '## How do I pay? {#payment-methods}',
+        'By bank transfer.',
+        '',
+        'Or by card.',
+      ].join('\n'),
+    );
+
+    expect(categories).toEqual([
+      {
+        slug: 'billing',
+        title: 'Billing',
+        description: 'Plans and invoices.',
+        articles: [{ slug: 'payment-methods', question: 'How do I pay?', answer: 'By bank transfer.\n\nOr by card.' }],
+      },
+    ]);
+  });
+
+  it('has the four help topics', () => {
+    expect(help.categories.map((category) => category.title)).toEqual([
+      'Data capture',
+      'Analytics',
+      'Access & roles',
+      'Billing',
+    ]);
+  });
+
+  it('feeds the home page FAQ from the featured questions', () => {
+    const { faqItems } = getLandingContent('en');
+    expect(faqItems.map((item) => item.slug)).toEqual(help.featured);
+  });
+
+  it('keeps home page FAQ translations', () => {
+    const [first] = getLandingContent('pcm').faqItems;
+    expect(first.slug).toBe('retailer-location');
+    expect(first.question).toBe('How RAJA dey take capture retailer location data?');
+  });
+});
+
+describe('help search', () => {
+  it('splits a query into distinct lower-case words', () => {
+    expect(searchTerms('  Territory, territory  ACCESS! ')).toEqual(['territory', 'access']);
+  });
+
+  it('needs every term to match', () => {
+    const results = searchHelp(help.categories, 'forecasts territories');
+    expect(results.map(({ article }) => article.slug)).toEqual(['territory-access']);
+    expect(searchHelp(help.categories, 'territories zzzz')).toEqual([]);
+  });
+
+  it('ranks matches in the question above matches in the answer', () => {
+    const results = searchHelp(help.categories, 'territories');
+    const inQuestion = results.map(({ article }) => article.question.toLowerCase().includes('territories'));
+    expect(inQuestion[0]).toBe(true);
+    expect(inQuestion).toEqual([...inQuestion].sort((a, b) => Number(b) - Number(a)));
+  });
+
+  it('marks matching text without changing it', () => {
+    expect(splitMatches('Pay by Card or card', ['card'])).toEqual([
+      { text: 'Pay by ', match: false },
+      { text: 'Card', match: true },
+      { text: ' or ', match: false },
+      { text: 'card', match: true },
+    ]);
+    expect(splitMatches('a.b', ['.'])).toEqual([
+      { text: 'a', match: false },
+      { text: '.', match: true },
+      { text: 'b', match: false },
+    ]);
+  });
+});
+
+describe('help feedback', () => {
+  it('accepts a vote on a known question', () => {
+    expect(validateFeedback({ article: 'change-plan', helpful: false }, slugs)).toEqual({
+      ok: true,
+      data: { article: 'change-plan', helpful: false },
+    });
+  });
+
+  it('rejects unknown questions and non-boolean votes', () => {
+    const result = validateFeedback({ article: 'nope', helpful: 'yes' }, slugs);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(Object.keys(result.errors).sort()).toEqual(['article', 'helpful']);
+  });
+});
+
+describe('HelpLanding', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  const renderHelp = () =>
+    render(<HelpLanding locale="en" site={getLandingContent('en').site} content={help} />);
+
+  it('searches, highlights matches and keeps the query in the URL', async () => {
+    const user = userEvent.setup();
+    renderHelp();
+
+    await user.type(screen.getByRole('searchbox', { name: help.labels.search }), 'invoice');
+
+    expect(window.location.search).toBe('?q=invoice');
+    expect(screen.getByRole('status')).toHaveTextContent(/answers for "invoice"/);
+    expect(screen.queryByRole('navigation', { name: help.labels.categories })).toBeNull();
+    const marks = document.querySelectorAll('main mark');
+    expect(marks.length).toBeGreaterThan(0);
+    for (const mark of marks) expect(mark.textContent?.toLowerCase()).toBe('invoice');
+  });
+
+  it('says when nothing matches and clears the search', async () => {
+    const user = userEvent.setup();
+    renderHelp();
+
+    await user.type(screen.getByRole('searchbox'), 'zzzz');
+    expect(screen.getByRole('status')).toHaveTextContent('No answers match "zzzz"');
+
+    await user.click(screen.getByRole('button', { name: help.labels.clearSearch }));
+    expect(screen.getByRole('searchbox')).toHaveValue('');
+    expect(window.location.search).toBe('');
+    expect(screen.getByRole('navigation', { name: help.labels.categories })).toBeInTheDocument();
+  });
+
+  it('opens the question the page was linked to', () => {
+    window.history.replaceState(null, '', '/en/help#change-plan');
+    renderHelp();
+
+    expect(screen.getByRole('button', { name: changePlan.question })).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('shows the thanks for an answer voted on before', () => {
+    window.localStorage.setItem('raja:help-feedback:change-plan', 'no');
+    window.history.replaceState(null, '', '/en/help#change-plan');
+    renderHelp();
+
+    const region = screen.getByRole('region', { name: changePlan.question });
+    expect(within(region).getByText(help.labels.thanks)).toBeInTheDocument();
+    expect(within(region).queryByRole('button', { name: help.labels.yes })).toBeNull();
+  });
+
+  it('posts a vote once and remembers it', async () => {
+    const user = userEvent.setup();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 201 }));
+    window.history.replaceState(null, '', '/en/help#change-plan');
+    renderHelp();
+
+    const region = screen.getByRole('region', { name: changePlan.question });
+    await user.click(within(region).getByRole('button', { name: help.labels.yes }));
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/help/feedback', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({ article: 'change-plan', helpful: true });
+    expect(within(region).getByText(help.labels.thanks)).toBeInTheDocument();
+    expect(window.localStorage.getItem('raja:help-feedback:change-plan')).toBe('yes');
+  });
+});
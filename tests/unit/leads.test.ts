@@ -0,0 +1,129 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isHoneypotTripped, JsonFileLeadStore, validateLead, type Lead } from '@/lib/leads';
+
+const lead = {
+  name: 'Ngozi Eze',
+  company: 'Eze Distribution Ltd',
+  role: 'Distributors',
+  phone: '0803 123 4567',
+  territory: 'Onitsha Main Market',
+  retailerCount: '120',
+};
+
+describe('validateLead', () => {
+  it('normalises a valid lead', () => {
+    expect(validateLead(lead)).toEqual({
+      ok: true,
+      data: { ...lead, phone: '+2348031234567', retailerCount: 120 },
+    });
+  });
+
+  it('reports every invalid field', () => {
+    const result = validateLead({ role: 'Astronaut', phone: '12345', retailerCount: 0 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(Object.keys(result.errors).sort()).toEqual(['company', 'name', 'phone', 'retailerCount', 'role', 'territory']);
+    }
+  });
+
+  it('rejects payloads that are not objects', () => {
+    expect(validateLead('name=Ngozi')).toEqual({ ok: false, errors: { form: 'Expected a JSON object.' } });
+  });
+});
+
+describe('isHoneypotTripped', () => {
+  it('only trips when the hidden field is filled in', () => {
+    expect(isHoneypotTripped({ ...lead, website: 'https://spam.example' })).toBe(true);
+    expect(isHoneypotTripped({ ...lead, website: '' })).toBe(false);
+    expect(isHoneypotTripped(lead)).toBe(false);
+  });
+});
+
+describe('JsonFileLeadStore', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends concurrent saves without losing any', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'raja-leads-'));
+    const store = new JsonFileLeadStore(path.join(dir, 'nested', 'leads.json'));
+    const leads: Lead[] = ['l1', 'l2', 'l3'].map((id) => ({
+      ...lead,
+      phone: '+2348031234567',
+      retailerCount: 120,
+      id,
+      createdAt: '2025-06-01T09:00:00.000Z',
+      ip: '203.0.113.9',
+    }));
+
+    await Promise.all(leads.map((entry) => store.save(entry)));
+
+    expect(await store.list()).toEqual(leads);
+  });
+});
+
+describe('POST /api/leads', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('LEAD_STORE', 'memory');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Fresh modules, so each test gets its own memory store.
+  const load = async () => ({
+    leads: await import('@/lib/leads'),
+    route: await import('@/app/api/leads/route'),
+  });
+
+  const post = (body: unknown, forwardedFor = '203.0.113.9') =>
+    new Request('http://localhost/api/leads', {
+      method: 'POST',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', 'x-forwarded-for': forwardedFor },
+    });
+
+  it('stores a valid lead with the IP the trusted proxy saw', async () => {
+    const { leads, route } = await load();
+
+    const response = await route.POST(post(lead, '198.51.100.7, 203.0.113.9'));
+
+    expect(response.status).toBe(201);
+    const [saved] = await leads.getLeadStore().list();
+    expect(saved).toMatchObject({ name: 'Ngozi Eze', phone: '+2348031234567', retailerCount: 120, ip: '203.0.113.9' });
+  });
+
+  it('returns field errors for an invalid lead', async () => {
+    const { leads, route } = await load();
+
+    const response = await route.POST(post({ ...lead, phone: '' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Please correct the highlighted fields.',
+      fields: { phone: 'Please enter a valid Nigerian phone number.' },
+    });
+    expect(await leads.getLeadStore().list()).toEqual([]);
+  });
+
+  it('pretends to accept honeypot submissions without storing them', async () => {
+    const { leads, route } = await load();
+
+    const response = await route.POST(post({ ...lead, website: 'https://spam.example' }));
+
+    expect(response.status).toBe(201);
+    expect(await leads.getLeadStore().list()).toEqual([]);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const { route } = await load();
+    expect((await route.POST(post('{'))).status).toBe(400);
+  });
+});
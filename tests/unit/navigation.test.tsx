@@ -0,0 +1,81 @@
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import RajaLanding from '@/components/RajaLanding';
+import { getLandingContent } from '@/lib/content';
+import { locales } from '@/lib/i18n';
+import { buildNavItems, localizeNavHref, switchLocalePath } from '@/lib/navigation';
+import { sectionIds } from '@/lib/sections';
+import { getPlatformStats } from '@/lib/stats';
+
+describe('localizeNavHref', () => {
+  it('keeps section anchors bare on the home page', () => {
+    expect(localizeNavHref('#features', 'en', true)).toBe('#features');
+  });
+
+  it('points section anchors at the localised home page elsewhere', () => {
+    expect(localizeNavHref('#features', 'yo')).toBe('/yo#features');
+  });
+
+  it('prefixes site paths with the locale', () => {
+    expect(localizeNavHref('/pricing', 'ha')).toBe('/ha/pricing');
+    expect(localizeNavHref('/pricing', 'ha', true)).toBe('/ha/pricing');
+  });
+
+  it('leaves absolute URLs alone', () => {
+    expect(localizeNavHref('https://app.raja.ng/login', 'ig', true)).toBe('https://app.raja.ng/login');
+  });
+});
+
+describe('switchLocalePath', () => {
+  it('keeps the page when switching language', () => {
+    expect(switchLocalePath('/en/pricing', 'ha')).toBe('/ha/pricing');
+    expect(switchLocalePath('/yo/blog/lagos-coverage', 'pcm')).toBe('/pcm/blog/lagos-coverage');
+    expect(switchLocalePath('/en/help/', 'ig')).toBe('/ig/help/');
+  });
+
+  it('switches the home page', () => {
+    expect(switchLocalePath('/en', 'yo')).toBe('/yo');
+    expect(switchLocalePath('/', 'yo')).toBe('/yo');
+  });
+
+  it('prefixes paths without a locale', () => {
+    expect(switchLocalePath('/careers', 'ha')).toBe('/ha/careers');
+  });
+});
+
+describe('buildNavItems', () => {
+  const nav = {
+    sections: [
+      { id: 'contact' as const, label: 'Contact', order: 9 },
+      { id: 'features' as const, label: 'Features', order: 1 },
+    ],
+    links: [{ label: 'Pricing', href: '/pricing' }],
+  };
+
+  it('lists sections by order, then page links', () => {
+    expect(buildNavItems(nav, 'en', true)).toEqual([
+      { label: 'Features', href: '#features', sectionId: 'features' },
+      { label: 'Contact', href: '#contact', sectionId: 'contact' },
+      { label: 'Pricing', href: '/en/pricing' },
+    ]);
+  });
+
+  it('links sections to the home page from other pages', () => {
+    expect(buildNavItems(nav, 'pcm').map((item) => item.href)).toEqual(['/pcm#features', '/pcm#contact', '/pcm/pricing']);
+  });
+});
+
+describe('section registry', () => {
+  it('matches the sections the home page renders', async () => {
+    const content = getLandingContent('en');
+    const { container } = render(<RajaLanding content={content} locale="en" stats={await getPlatformStats()} />);
+
+    for (const id of sectionIds) expect(container.querySelector(`#${id}`)).not.toBeNull();
+  });
+
+  it('keeps the same nav targets in every locale', () => {
+    const targets = (locale: (typeof locales)[number]) =>
+      buildNavItems(getLandingContent(locale).site.nav, 'en').map((item) => item.href);
+    for (const locale of locales) expect(targets(locale)).toEqual(targets('en'));
+  });
+});
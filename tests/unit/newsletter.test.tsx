@@ -0,0 +1,304 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import NewsletterSignup from '@/components/NewsletterSignup';
+import { getLandingContent } from '@/lib/content';
+import { formatEml, MemoryMailTransport } from '@/lib/mail';
+import {
+  cancelSubscription,
+  CONFIRM_TOKEN_TTL_MS,
+  CONFIRMATION_RESEND_INTERVAL_MS,
+  confirmSubscription,
+  issueNewsletterToken,
+  MemorySubscriberStore,
+  readNewsletterToken,
+  requestSubscription,
+  validateSubscription,
+  type SubscriptionInput,
+} from '@/lib/newsletter';
+
+const input: SubscriptionInput = { email: 'ada@example.com', interests: ['distributors'], locale: 'ha' };
+const now = new Date('2025-06-02T09:00:00Z');
+
+const setup = () => ({ store: new MemorySubscriberStore(), transport: new MemoryMailTransport() });
+
+// The token query parameter of the last link in an email.
+const tokenFrom = (text: string): string => {
+  const links = text.match(/https?:\/\/\S+/g) ?? [];
+  return new URL(links[links.length - 1]).searchParams.get('token') ?? '';
+};
+
+describe('validateSubscription', () => {
+  it('normalises the email and keeps known interests in order', () => {
+    expect(
+      validateSubscription({
+        email: ' Ada@Example.com ',
+        interests: ['field-strategy-teams', 'fmcg-dealers', 'fmcg-dealers'],
+        locale: 'yo',
+      }),
+    ).toEqual({
+      ok: true,
+      data: { email: 'ada@example.com', interests: ['fmcg-dealers', 'field-strategy-teams'], locale: 'yo' },
+    });
+  });
+
+  it('falls back to the default locale', () => {
+    const result = validateSubscription({ email: 'ada@example.com', interests: ['distributors'], locale: 'fr' });
+    expect(result.ok && result.data.locale).toBe('en');
+  });
+
+  it('rejects bad emails and unknown or missing interests', () => {
+    for (const interests of [[], ['farmers'], 'distributors']) {
+      const result = validateSubscription({ email: 'not-an-email', interests });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(Object.keys(result.errors).sort()).toEqual(['email', 'interests']);
+    }
+  });
+});
+
+describe('newsletter tokens', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('confirm tokens expire', () => {
+    const token = issueNewsletterToken('confirm', 'abc', now.getTime());
+    expect(readNewsletterToken(token, 'confirm', now.getTime() + CONFIRM_TOKEN_TTL_MS)).toBe('abc');
+    expect(readNewsletterToken(token, 'confirm', now.getTime() + CONFIRM_TOKEN_TTL_MS + 1)).toBeNull();
+  });
+
+  it('unsubscribe tokens keep working', () => {
+    const token = issueNewsletterToken('unsubscribe', 'abc', now.getTime());
+    expect(readNewsletterToken(token, 'unsubscribe', now.getTime() + 10 * CONFIRM_TOKEN_TTL_MS)).toBe('abc');
+  });
+
+  it('are bound to their action and subscriber', () => {
+    const token = issueNewsletterToken('confirm', 'abc', now.getTime());
+    expect(readNewsletterToken(token, 'unsubscribe', now.getTime())).toBeNull();
+    expect(readNewsletterToken(token.replace('abc', 'abd'), 'confirm', now.getTime())).toBeNull();
+    expect(readNewsletterToken('abc', 'confirm', now.getTime())).toBeNull();
+    expect(readNewsletterToken(undefined, 'confirm', now.getTime())).toBeNull();
+  });
+
+  it('require NEWSLETTER_SECRET in production', async () => {
+    vi.resetModules();
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('NEWSLETTER_SECRET', '');
+    const tokens = await import('@/lib/newsletter/tokens');
+
+    expect(() => tokens.issueNewsletterToken('confirm', 'abc')).toThrow(/NEWSLETTER_SECRET/);
+  });
+});
+
+describe('double opt-in', () => {
+  it('stores a pending subscriber and emails a confirm link', async () => {
+    const services = setup();
+    await requestSubscription(input, { ...services, now });
+
+    const [subscriber] = await services.store.list();
+    expect(subscriber).toMatchObject({ ...input, status: 'pending', requestedAt: now.toISOString() });
+
+    const [email] = services.transport.sent;
+    expect(email.to).toBe('ada@example.com');
+    expect(email.text).toContain('- Distributors');
+    expect(email.text).toMatch(/\/api\/newsletter\/confirm\?token=/);
+    expect(readNewsletterToken(tokenFrom(email.text), 'confirm', now.getTime())).toBe(subscriber.id);
+  });
+
+  it('does not resend the confirmation straight away', async () => {
+    const services = setup();
+    await requestSubscription(input, { ...services, now });
+    await requestSubscription(input, { ...services, now: new Date(now.getTime() + 60_000) });
+    expect(services.transport.sent).toHaveLength(1);
+
+    await requestSubscription(input, { ...services, now: new Date(now.getTime() + CONFIRMATION_RESEND_INTERVAL_MS) });
+    expect(services.transport.sent).toHaveLength(2);
+    expect(await services.store.list()).toHaveLength(1);
+  });
+
+  it('does not store a subscriber when the email cannot be sent', async () => {
+    const services = setup();
+    vi.spyOn(services.transport, 'send').mockRejectedValue(new Error('offline'));
+
+    await expect(requestSubscription(input, { ...services, now })).rejects.toThrow('offline');
+    expect(await services.store.list()).toEqual([]);
+  });
+
+  it('confirms once and sends a welcome email with an unsubscribe link', async () => {
+    const services = setup();
+    await requestSubscription(input, { ...services, now });
+    const token = tokenFrom(services.transport.sent[0].text);
+
+    const confirmed = await confirmSubscription(token, { ...services, now });
+    expect(confirmed).toMatchObject({ status: 'confirmed', confirmedAt: now.toISOString(), locale: 'ha' });
+    expect(await confirmSubscription(token, { ...services, now })).toMatchObject({ status: 'confirmed' });
+
+    expect(services.transport.sent).toHaveLength(2);
+    const welcome = services.transport.sent[1];
+    expect(welcome.headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    expect(welcome.headers?.['List-Unsubscribe']).toMatch(/^<.+\/api\/newsletter\/unsubscribe\?token=.+>$/);
+
+    // Confirmed subscribers are left alone if they sign up again.
+    await requestSubscription(input, { ...services, now: new Date(now.getTime() + CONFIRM_TOKEN_TTL_MS) });
+    expect(services.transport.sent).toHaveLength(2);
+  });
+
+  it('rejects expired confirm links', async () => {
+    const services = setup();
+    await requestSubscription(input, { ...services, now });
+    const token = tokenFrom(services.transport.sent[0].text);
+
+    expect(await confirmSubscription(token, { ...services, now: new Date(now.getTime() + CONFIRM_TOKEN_TTL_MS + 1) })).toBeNull();
+  });
+
+  it('unsubscribes with the link from the welcome email', async () => {
+    const services = setup();
+    await requestSubscription(input, { ...services, now });
+    await confirmSubscription(tokenFrom(services.transport.sent[0].text), { ...services, now });
+    const token = tokenFrom(services.transport.sent[1].text);
+
+    const unsubscribed = await cancelSubscription(token, { store: services.store, now });
+    expect(unsubscribed).toMatchObject({ status: 'unsubscribed', unsubscribedAt: now.toISOString() });
+    expect(await cancelSubscription('nope', { store: services.store, now })).toBeNull();
+  });
+});
+
+describe('newsletter link routes', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('NEWSLETTER_STORE', 'memory');
+    vi.stubEnv('MAIL_TRANSPORT', 'memory');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  // Fresh modules, so each test gets its own memory store and transport.
+  const load = async () => {
+    const newsletter = await import('@/lib/newsletter');
+    const mail = await import('@/lib/mail');
+    const services = { store: newsletter.getSubscriberStore(), transport: mail.getMailTransport() as MemoryMailTransport };
+    await newsletter.requestSubscription(input, services);
+    return {
+      services,
+      confirm: await import('@/app/api/newsletter/confirm/route'),
+      unsubscribe: await import('@/app/api/newsletter/unsubscribe/route'),
+    };
+  };
+
+  const get = (url: string) => new Request(`http://localhost${url}`);
+  const post = (url: string, body: string) =>
+    new Request(`http://localhost${url}`, {
+      method: 'POST',
+      body,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+  const location = (response: Response) => response.headers.get('location')!.replace('http://localhost', '');
+
+  it('asks before confirming when the link is opened', async () => {
+    const { services, confirm } = await load();
+    const token = tokenFrom(services.transport.sent[0].text);
+
+    const opened = await confirm.GET(get(`/api/newsletter/confirm?token=${token}`));
+    expect(opened.status).toBe(303);
+    expect(location(opened)).toBe(`/ha/newsletter/confirm?token=${token}`);
+    expect((await services.store.list())[0].status).toBe('pending');
+
+    const confirmed = await confirm.POST(post('/api/newsletter/confirm', `token=${token}`));
+    expect(location(confirmed)).toBe('/ha/newsletter/confirmed');
+    expect((await services.store.list())[0].status).toBe('confirmed');
+  });
+
+  it('unsubscribes from the page button or one click, not from opening the link', async () => {
+    const { services, confirm, unsubscribe } = await load();
+    await confirm.POST(post('/api/newsletter/confirm', `token=${tokenFrom(services.transport.sent[0].text)}`));
+    const token = tokenFrom(services.transport.sent[1].text);
+
+    const opened = await unsubscribe.GET(get(`/api/newsletter/unsubscribe?token=${token}`));
+    expect(location(opened)).toBe(`/ha/newsletter/unsubscribe?token=${token}`);
+    expect((await services.store.list())[0].status).toBe('confirmed');
+
+    const fromPage = await unsubscribe.POST(post('/api/newsletter/unsubscribe', `token=${token}`));
+    expect(location(fromPage)).toBe('/ha/newsletter/unsubscribed');
+    expect((await services.store.list())[0].status).toBe('unsubscribed');
+
+    const oneClick = await unsubscribe.POST(post(`/api/newsletter/unsubscribe?token=${token}`, 'List-Unsubscribe=One-Click'));
+    expect(oneClick.status).toBe(200);
+    expect(await oneClick.json()).toEqual({ ok: true });
+  });
+
+  it('sends bad links and store failures to the invalid link page', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { services, confirm } = await load();
+    const token = tokenFrom(services.transport.sent[0].text);
+
+    expect(location(await confirm.GET(get('/api/newsletter/confirm?token=nope')))).toBe('/en/newsletter/invalid');
+
+    vi.spyOn(services.store, 'get').mockRejectedValue(new Error('disk full'));
+    expect(location(await confirm.GET(get(`/api/newsletter/confirm?token=${token}`)))).toBe('/en/newsletter/invalid');
+    expect(location(await confirm.POST(post('/api/newsletter/confirm', `token=${token}`)))).toBe('/en/newsletter/invalid');
+  });
+});
+
+describe('mail transports', () => {
+  it('formats messages as .eml', () => {
+    const eml = formatEml(
+      { to: 'ada@example.com', subject: 'Hi', text: 'Line one\nLine two', headers: { 'List-Unsubscribe': '<https://raja.ng/u>' } },
+      'RAJA <insights@raja.ng>',
+      now,
+    );
+    expect(eml).toBe(
+      [
+        'From: RAJA <insights@raja.ng>',
+        'To: ada@example.com',
+        'Subject: Hi',
+        'Date: Mon, 02 Jun 2025 09:00:00 GMT',
+        'Content-Type: text/plain; charset=utf-8',
+        'List-Unsubscribe: <https://raja.ng/u>',
+        '',
+        'Line one',
+        'Line two',
+        '',
+      ].join('\r\n'),
+    );
+  });
+});
+
+describe('NewsletterSignup', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const copy = getLandingContent('en').site.newsletter;
+
+  it('posts the email, chosen interests and locale', async () => {
+    const user = userEvent.setup();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ ok: true }, { status: 201 }));
+    render(<NewsletterSignup locale="pcm" copy={copy} />);
+
+    await user.type(screen.getByLabelText(copy.emailLabel), 'ada@example.com');
+    const interests = screen.getByRole('group', { name: copy.interestsLabel });
+    await user.click(within(interests).getByRole('checkbox', { name: 'FMCG Dealers' }));
+    await user.click(screen.getByRole('button', { name: copy.submit }));
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/newsletter', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      email: 'ada@example.com',
+      interests: ['distributors', 'consumer-goods-brands', 'field-strategy-teams'],
+      locale: 'pcm',
+      website: '',
+    });
+    expect(await screen.findByRole('status')).toHaveTextContent(copy.success);
+  });
+
+  it('shows field errors from the server', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ error: 'Please correct the highlighted fields.', fields: { email: 'Please enter a valid email address.' } }, { status: 400 }),
+    );
+    render(<NewsletterSignup locale="en" copy={copy} variant="card" />);
+
+    await user.click(screen.getByRole('button', { name: copy.submit }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Please correct the highlighted fields.');
+    expect(screen.getByLabelText(copy.emailLabel)).toHaveAccessibleDescription('Please enter a valid email address.');
+  });
+});
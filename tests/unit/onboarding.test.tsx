@@ -0,0 +1,272 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import JoinLanding from '@/components/JoinLanding';
+import { getJoinContent, getLandingContent } from '@/lib/content';
+import { createProjection, nearestStateCapital, nigeriaBounds } from '@/lib/geo';
+import {
+  HttpPhoneVerifier,
+  HttpRegistrationForwarder,
+  issueVerificationToken,
+  MockPhoneVerifier,
+  MOCK_VERIFICATION_CODE,
+  PhoneVerificationError,
+  readVerificationToken,
+  RegistrationForwardError,
+  validateRegistration,
+  VERIFICATION_TOKEN_TTL_MS,
+  type Registration,
+} from '@/lib/onboarding';
+
+const retailer = {
+  role: 'retailer',
+  name: ' Chidi Okafor ',
+  businessName: 'Chidi Provisions',
+  phone: '0803 123 4567',
+  state: 'Lagos',
+  area: 'Balogun Market',
+  location: { lat: 6.4541, lng: 3.3947, accuracy: 12.4, source: 'gps' },
+  categories: ['dairy', 'beverages'],
+};
+
+describe('projection', () => {
+  it('unprojects screen points back to coordinates', () => {
+    const projection = createProjection(nigeriaBounds, 600);
+    const { lat, lng } = projection.unproject(projection.project({ lat: 9.0765, lng: 7.3986 }));
+    expect(lat).toBeCloseTo(9.0765, 6);
+    expect(lng).toBeCloseTo(7.3986, 6);
+  });
+
+  it('suggests the state of the nearest capital', () => {
+    expect(nearestStateCapital({ lat: 12.0, lng: 8.5 }).state).toBe('Kano');
+  });
+});
+
+describe('validateRegistration', () => {
+  it('normalises a valid retailer registration', () => {
+    expect(validateRegistration(retailer)).toEqual({
+      ok: true,
+      data: {
+        ...retailer,
+        name: 'Chidi Okafor',
+        phone: '+2348031234567',
+        location: { lat: 6.4541, lng: 3.3947, accuracy: 12, source: 'gps' },
+        // Stored in the canonical order of productCategories.
+        categories: ['beverages', 'dairy'],
+      },
+    });
+  });
+
+  it('does not ask agents for a shop name or categories', () => {
+    const result = validateRegistration({ ...retailer, role: 'agent', businessName: '', categories: undefined });
+    expect(result.ok && result.data.categories).toEqual([]);
+  });
+
+  it('requires retailers to stock at least one listed category', () => {
+    const empty = validateRegistration({ ...retailer, categories: [] });
+    const unknown = validateRegistration({ ...retailer, categories: ['dairy', 'motorbikes'] });
+    expect(empty.ok ? {} : empty.errors).toHaveProperty('categories');
+    expect(unknown.ok ? {} : unknown.errors).toHaveProperty('categories');
+  });
+
+  it('rejects locations outside Nigeria and unknown states', () => {
+    const result = validateRegistration({ ...retailer, state: 'Accra', location: { lat: 5.6, lng: -0.19, source: 'pin' } });
+    expect(Object.keys(result.ok ? {} : result.errors).sort()).toEqual(['location', 'state']);
+  });
+});
+
+describe('phone verification', () => {
+  it('accepts the mock code once, and only after a send', async () => {
+    const verifier = new MockPhoneVerifier();
+    expect(await verifier.check('+2348031234567', MOCK_VERIFICATION_CODE)).toBe(false);
+    await verifier.send('+2348031234567');
+    expect(await verifier.check('+2348031234567', '000000')).toBe(false);
+    expect(await verifier.check('+2348031234567', MOCK_VERIFICATION_CODE)).toBe(true);
+    expect(await verifier.check('+2348031234567', MOCK_VERIFICATION_CODE)).toBe(false);
+  });
+
+  it('issues tokens bound to the number until they expire', () => {
+    const now = Date.parse('2025-06-01T09:00:00Z');
+    const token = issueVerificationToken('+2348031234567', now);
+    expect(readVerificationToken(token, '+2348031234567', now + 1000)).toBe('2025-06-01T09:00:00.000Z');
+    expect(readVerificationToken(token, '+2348099999999', now)).toBeNull();
+    expect(readVerificationToken(token, '+2348031234567', now + VERIFICATION_TOKEN_TTL_MS + 1)).toBeNull();
+    expect(readVerificationToken(`${now + VERIFICATION_TOKEN_TTL_MS * 10}.${token.split('.')[1]}`, '+2348031234567', now)).toBeNull();
+  });
+});
+
+describe('in production', () => {
+  // The forwarder, verifier and secret are read once per module instance.
+  const loadOnboarding = async () => {
+    vi.resetModules();
+    vi.stubEnv('NODE_ENV', 'production');
+    return import('@/lib/onboarding');
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to keep registrations in memory or mock phone verification', async () => {
+    vi.stubEnv('RAJA_APP_API_URL', '');
+    vi.stubEnv('PHONE_VERIFICATION_API_URL', '');
+    const onboarding = await loadOnboarding();
+
+    expect(() => onboarding.getRegistrationForwarder()).toThrow(onboarding.OnboardingNotConfiguredError);
+    expect(() => onboarding.getPhoneVerifier()).toThrow(onboarding.OnboardingNotConfiguredError);
+  });
+
+  it('hides /join until phone verification is configured', async () => {
+    vi.stubEnv('PHONE_VERIFICATION_API_URL', '');
+    await loadOnboarding();
+    const { getLandingContent: loadLanding } = await import('@/lib/content');
+    const { default: sitemap } = await import('@/app/sitemap');
+
+    expect(loadLanding('en').site.nav.links.map((link) => link.href)).not.toContain('/join');
+    const urls = (await sitemap()).map((entry) => entry.url);
+    expect(urls).toContain('https://raja.ng/en/help');
+    expect(urls).not.toContain('https://raja.ng/en/join');
+  });
+
+  it('sends codes through the configured SMS service', async () => {
+    vi.stubEnv('PHONE_VERIFICATION_API_URL', 'https://sms.raja.ng/api');
+    const onboarding = await loadOnboarding();
+
+    expect(onboarding.isPhoneVerificationAvailable()).toBe(true);
+    expect(onboarding.getPhoneVerifier()).toBeInstanceOf(onboarding.HttpPhoneVerifier);
+  });
+
+  it('requires PHONE_VERIFICATION_SECRET to sign tokens', async () => {
+    vi.stubEnv('PHONE_VERIFICATION_SECRET', '');
+    const onboarding = await loadOnboarding();
+    expect(() => onboarding.issueVerificationToken('+2348031234567')).toThrow(/PHONE_VERIFICATION_SECRET/);
+
+    vi.stubEnv('PHONE_VERIFICATION_SECRET', 'test-secret');
+    const configured = await loadOnboarding();
+    const token = configured.issueVerificationToken('+2348031234567');
+    expect(configured.readVerificationToken(token, '+2348031234567')).not.toBeNull();
+  });
+
+  it('answers code requests with 503 rather than a mock hint', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await loadOnboarding();
+    const { POST } = await import('@/app/api/join/verification/route');
+
+    const response = await POST(
+      new Request('http://localhost/api/join/verification', { method: 'POST', body: JSON.stringify({ phone: '08031234567' }) }),
+    );
+    expect(response.status).toBe(503);
+    expect(await response.json()).not.toHaveProperty('hint');
+  });
+});
+
+describe('HttpPhoneVerifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('asks the SMS service to send and check codes', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 202 }))
+      .mockResolvedValueOnce(Response.json({ valid: true }))
+      .mockResolvedValueOnce(Response.json({ valid: false }));
+    const verifier = new HttpPhoneVerifier('https://sms.raja.ng/api', 'secret');
+
+    await verifier.send('+2348031234567');
+    expect(await verifier.check('+2348031234567', '482913')).toBe(true);
+    expect(await verifier.check('+2348031234567', '000000')).toBe(false);
+
+    const [sendUrl, sendInit] = fetchMock.mock.calls[0];
+    expect(String(sendUrl)).toBe('https://sms.raja.ng/api/verifications');
+    expect(sendInit?.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(String(sendInit?.body))).toEqual({ phone: '+2348031234567' });
+    const [checkUrl, checkInit] = fetchMock.mock.calls[1];
+    expect(String(checkUrl)).toBe('https://sms.raja.ng/api/verifications/check');
+    expect(JSON.parse(String(checkInit?.body))).toEqual({ phone: '+2348031234567', code: '482913' });
+  });
+
+  it('throws when the SMS service fails', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 500 }));
+    await expect(new HttpPhoneVerifier('https://sms.raja.ng/api/').send('+2348031234567')).rejects.toBeInstanceOf(
+      PhoneVerificationError,
+    );
+  });
+});
+
+describe('HttpRegistrationForwarder', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const registration: Registration = {
+    role: 'agent',
+    name: 'Chidi Okafor',
+    phone: '+2348031234567',
+    state: 'Lagos',
+    area: 'Balogun Market',
+    location: { lat: 6.4541, lng: 3.3947, source: 'pin' },
+    categories: [],
+    id: 'reg-1',
+    createdAt: '2025-06-01T09:00:00.000Z',
+    phoneVerifiedAt: '2025-06-01T08:59:00.000Z',
+  };
+
+  it('posts the registration to the main app', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 202 }));
+
+    await new HttpRegistrationForwarder('https://app.raja.ng/api', 'secret').forward(registration);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('https://app.raja.ng/api/registrations');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret', 'Idempotency-Key': 'reg-1' });
+    expect(JSON.parse(String(init?.body))).toEqual(registration);
+  });
+
+  it('throws when the main app rejects it', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 503 }));
+    await expect(new HttpRegistrationForwarder('https://app.raja.ng/api/').forward(registration)).rejects.toBeInstanceOf(
+      RegistrationForwardError,
+    );
+  });
+});
+
+describe('JoinLanding', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const renderWizard = () =>
+    render(<JoinLanding locale="en" site={getLandingContent('en').site} content={getJoinContent('en')} />);
+
+  it('checks each step before moving on', async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    expect(screen.getByText('Please choose how you want to join.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('radio', { name: /Shop owner/ }));
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    expect(screen.getByRole('heading', { name: 'Your details' })).toHaveFocus();
+
+    await user.type(screen.getByLabelText('Your full name'), 'Chidi Okafor');
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    expect(screen.getByLabelText('Shop name')).toHaveAccessibleDescription('Please enter the name of your shop.');
+    expect(screen.getByLabelText('Phone number')).toBeInvalid();
+  });
+
+  it('says registering needs a connection while offline', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    renderWizard();
+
+    expect(screen.getByRole('status')).toHaveTextContent(/You are offline/);
+  });
+
+  it('skips the stock step for field agents', async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    await user.click(screen.getByRole('radio', { name: /Field agent/ }));
+    expect(screen.getByRole('list', { name: 'Registration progress' })).not.toHaveTextContent('What do you stock?');
+  });
+});
@@ -0,0 +1,73 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it } from 'vitest';
+import PostList from '@/components/PostList';
+import type { PostSummary } from '@/lib/posts';
+
+const post = (slug: string, fields: Partial<PostSummary>): PostSummary => ({
+  collection: 'blog',
+  slug,
+  readingMinutes: 4,
+  title: slug,
+  description: `About ${slug}`,
+  author: 'Raja team',
+  date: '2026-01-15',
+  tags: [],
+  ...fields,
+});
+
+const posts = [
+  post('cold-chain', { segment: 'distributors', tags: ['logistics'] }),
+  post('route-planning', { segment: 'distributors', tags: ['field-sales', 'logistics'] }),
+  post('shelf-audits', { segment: 'manufacturers', tags: ['field-sales'] }),
+];
+
+const segments = { distributors: 'Distributors', manufacturers: 'Manufacturers' };
+
+const titles = () => screen.queryAllByRole('heading', { level: 2 }).map((heading) => heading.textContent);
+
+describe('PostList', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  const renderList = () => render(<PostList locale="en" collection="blog" posts={posts} segments={segments} />);
+
+  it('filters posts by segment and topic', async () => {
+    const user = userEvent.setup();
+    renderList();
+
+    await user.click(within(screen.getByRole('group', { name: 'Filter by segment' })).getByRole('button', { name: 'Distributors' }));
+    expect(titles()).toEqual(['cold-chain', 'route-planning']);
+    expect(window.location.search).toBe('?segment=distributors');
+
+    await user.click(within(screen.getByRole('group', { name: 'Filter by topic' })).getByRole('button', { name: '#field-sales' }));
+    expect(titles()).toEqual(['route-planning']);
+    expect(new URLSearchParams(window.location.search).get('tag')).toBe('field-sales');
+
+    await user.click(screen.getByRole('button', { name: 'Manufacturers' }));
+    expect(titles()).toEqual(['shelf-audits']);
+
+    await user.click(screen.getByRole('button', { name: 'All topics' }));
+    expect(window.location.search).toBe('?segment=manufacturers');
+  });
+
+  it('applies filters from the query string', () => {
+    window.history.replaceState(null, '', '/en/blog?tag=logistics');
+    renderList();
+
+    expect(screen.getByRole('button', { name: '#logistics' })).toHaveAttribute('aria-pressed', 'true');
+    expect(titles()).toEqual(['cold-chain', 'route-planning']);
+  });
+
+  it('offers to clear filters that match nothing', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/en/blog?segment=manufacturers&tag=logistics');
+    renderList();
+
+    expect(titles()).toEqual([]);
+    await user.click(screen.getByRole('button', { name: 'Clear filters' }));
+    expect(titles()).toHaveLength(posts.length);
+    expect(window.location.search).toBe('');
+  });
+});
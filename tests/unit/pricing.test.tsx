@@ -0,0 +1,99 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import RoiEstimator from '@/components/RoiEstimator';
+import { getLandingContent, getPricingContent } from '@/lib/content';
+import { buildFeatureMatrix, convertPrice, estimateRoi, planPrice, plans, type Plan } from '@/lib/pricing';
+
+const plan = (id: Plan['id']) => plans.find((entry) => entry.id === id)!;
+
+describe('planPrice', () => {
+  it('charges the monthly price each month', () => {
+    expect(planPrice(plan('growth'), 'monthly', 'NGN')).toEqual({ billed: 450_000, perMonth: 450_000 });
+  });
+
+  it('charges ten months for a year on annual billing', () => {
+    expect(planPrice(plan('growth'), 'annual', 'NGN')).toEqual({ billed: 4_500_000, perMonth: 375_000 });
+    expect(planPrice(plan('growth'), 'annual', 'USD')).toEqual({ billed: 3_000, perMonth: 250 });
+  });
+
+  it('has no price for plans quoted individually', () => {
+    expect(planPrice(plan('enterprise'), 'monthly', 'NGN')).toBeNull();
+  });
+});
+
+describe('convertPrice', () => {
+  it('rounds USD to list prices', () => {
+    expect(convertPrice(155_000, 'NGN')).toBe(155_000);
+    expect(convertPrice(155_000, 'USD')).toBe(105);
+    expect(convertPrice(74_000, 'USD')).toBe(49);
+  });
+});
+
+describe('estimateRoi', () => {
+  it('applies the efficiency gain to distribution costs', () => {
+    const result = estimateRoi({ monthlyDistributionCost: 5_000_000, efficiencyGain: 32, planMonthlyCost: 450_000 });
+
+    expect(result.monthlySavings).toBe(1_600_000);
+    expect(result.netMonthlyBenefit).toBe(1_150_000);
+    expect(result.returnOnCost).toBeCloseTo(2.556, 3);
+    expect(result.paybackMonths).toBeCloseTo(0.281, 3);
+  });
+
+  it('clamps the gain and has no payback without savings', () => {
+    expect(estimateRoi({ monthlyDistributionCost: 1_000, efficiencyGain: 150, planMonthlyCost: 0 })).toEqual({
+      monthlySavings: 1_000,
+      netMonthlyBenefit: 1_000,
+      returnOnCost: 0,
+      paybackMonths: 0,
+    });
+    expect(estimateRoi({ monthlyDistributionCost: -5, efficiencyGain: 32, planMonthlyCost: 100 })).toEqual({
+      monthlySavings: 0,
+      netMonthlyBenefit: -100,
+      returnOnCost: -1,
+      paybackMonths: null,
+    });
+  });
+});
+
+describe('buildFeatureMatrix', () => {
+  const { features } = getLandingContent('en');
+
+  it('has a row for every feature with the plans that include it', () => {
+    const matrix = buildFeatureMatrix(features);
+
+    expect(matrix.map((row) => row.feature.id)).toEqual(features.map((feature) => feature.id));
+    for (const row of matrix) {
+      expect(row.included.enterprise).toBe(true);
+      expect(row.included.starter).toBe(plan('starter').features.includes(row.feature.id));
+    }
+  });
+
+  it('throws for plan features that do not exist', () => {
+    const typo: Plan = { ...plan('starter'), features: ['coverage-map'] };
+    expect(() => buildFeatureMatrix(features, [typo])).toThrow('Plan "starter" lists unknown features: coverage-map');
+  });
+});
+
+describe('RoiEstimator', () => {
+  const copy = getPricingContent('en').estimator;
+
+  it('estimates the return for the chosen plan', async () => {
+    const user = userEvent.setup();
+    render(<RoiEstimator locale="en" billing="monthly" currency="NGN" efficiencyGain={32} gainLabel="Efficiency gain" copy={copy} />);
+
+    expect(screen.getByRole('heading', { name: copy.result }).parentElement!.nextElementSibling).toHaveTextContent('₦1,600,000');
+    expect(screen.getByText('Growth plan per month').nextElementSibling).toHaveTextContent('₦450,000');
+    expect(screen.getByText(copy.payback).nextElementSibling).toHaveTextContent('8 days');
+
+    await user.selectOptions(screen.getByLabelText(copy.plan), 'starter');
+    expect(screen.getByText('Starter plan per month').nextElementSibling).toHaveTextContent('₦150,000');
+  });
+
+  it('converts the cost when the currency changes', () => {
+    render(<RoiEstimator locale="en" billing="annual" currency="USD" efficiencyGain={32} gainLabel="Efficiency gain" copy={copy} />);
+
+    expect(screen.getByLabelText('Monthly distribution cost ($)')).toHaveValue(3_333);
+    expect(screen.getByText('Growth plan per month').nextElementSibling).toHaveTextContent('$250');
+  });
+});
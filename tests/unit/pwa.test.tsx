@@ -0,0 +1,163 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import InstallPrompt from '@/components/InstallPrompt';
+import LeadForm from '@/components/LeadForm';
+import NewsletterSignup from '@/components/NewsletterSignup';
+import { getLandingContent } from '@/lib/content';
+import { leadRoles } from '@/lib/leads/validate';
+import { buildManifest, THEME_COLOR } from '@/lib/pwa';
+import { REPLAY_QUEUE_MESSAGE, registerServiceWorker, SERVICE_WORKER_PATH, SERVICE_WORKER_URL } from '@/lib/pwa/client';
+
+const { site } = getLandingContent('en');
+
+// The response public/sw.js gives for a submission it saved offline.
+const queuedResponse = () => Response.json({ ok: true, queued: true }, { status: 202 });
+
+describe('web app manifest', () => {
+  it('uses the RAJA logo and brand colours and opens on the home page', () => {
+    const manifest = buildManifest();
+
+    expect(manifest).toMatchObject({ short_name: 'RAJA', start_url: '/en', scope: '/', display: 'standalone', theme_color: THEME_COLOR });
+    expect(manifest.icons).toEqual([{ src: '/raja-logo.png', sizes: '1024x1024', type: 'image/png', purpose: 'any' }]);
+  });
+
+  it('lists the product tour screenshots', () => {
+    expect(buildManifest().screenshots?.map(({ src, sizes }) => `${src} ${sizes}`)).toEqual([
+      '/admin-dash.png 1366x639',
+      '/agent-dash.png 1366x646',
+      '/shops.png 1360x643',
+    ]);
+  });
+});
+
+describe('registerServiceWorker', () => {
+  const postMessage = vi.fn();
+  const register = vi.fn();
+
+  beforeEach(() => {
+    register.mockResolvedValue({});
+    Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: { register, controller: { postMessage } } });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  it('registers the worker and replays the queue whenever the browser is back online', () => {
+    const unregister = registerServiceWorker();
+
+    expect(register).toHaveBeenCalledWith(SERVICE_WORKER_URL);
+    expect(SERVICE_WORKER_URL).toMatch(new RegExp(`^${SERVICE_WORKER_PATH}\\?v=\\w+$`));
+    expect(postMessage).toHaveBeenCalledWith({ type: REPLAY_QUEUE_MESSAGE });
+
+    window.dispatchEvent(new Event('online'));
+    expect(postMessage).toHaveBeenCalledTimes(2);
+
+    unregister();
+    window.dispatchEvent(new Event('online'));
+    expect(postMessage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('InstallPrompt', () => {
+  afterEach(() => window.localStorage.clear());
+
+  const fireInstallable = () => {
+    const event = Object.assign(new Event('beforeinstallprompt', { cancelable: true }), {
+      prompt: vi.fn().mockResolvedValue(undefined),
+      userChoice: Promise.resolve({ outcome: 'accepted' }),
+    });
+    act(() => {
+      window.dispatchEvent(event);
+    });
+    return event;
+  };
+
+  it('stays hidden until the browser offers to install', () => {
+    render(<InstallPrompt copy={site.install} />);
+    expect(screen.queryByRole('region', { name: site.install.title })).toBeNull();
+  });
+
+  it('shows the browser install dialog from its button', async () => {
+    const user = userEvent.setup();
+    render(<InstallPrompt copy={site.install} />);
+    const event = fireInstallable();
+
+    expect(event.defaultPrevented).toBe(true);
+    await user.click(screen.getByRole('button', { name: site.install.action }));
+
+    expect(event.prompt).toHaveBeenCalled();
+    expect(screen.queryByRole('region', { name: site.install.title })).toBeNull();
+  });
+
+  it('is not offered again once dismissed', async () => {
+    const user = userEvent.setup();
+    const { unmount } = render(<InstallPrompt copy={site.install} />);
+    fireInstallable();
+    await user.click(screen.getByRole('button', { name: site.install.dismiss }));
+    unmount();
+
+    render(<InstallPrompt copy={site.install} />);
+    fireInstallable();
+    expect(screen.queryByRole('region', { name: site.install.title })).toBeNull();
+  });
+});
+
+describe('forms submitted offline', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('tell the visitor a walkthrough request will be sent once back online', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(queuedResponse());
+    render(<LeadForm copy={site.leadForm} defaultRole={leadRoles[0]} />);
+
+    await user.type(screen.getByLabelText('Full name'), 'Ada Obi');
+    await user.type(screen.getByLabelText('Company'), 'Obi Distribution');
+    await user.type(screen.getByLabelText('Phone number'), '0803 123 4567');
+    await user.type(screen.getByLabelText('Territory'), 'Lagos Mainland');
+    await user.type(screen.getByLabelText('Number of retailers'), '120');
+    await user.click(screen.getByRole('button', { name: 'Request a walkthrough' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/back online/);
+  });
+
+  // The service worker would queue them, and the server refuse them on replay.
+  it('are checked before they are sent, so invalid ones are never queued', async () => {
+    const user = userEvent.setup();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(queuedResponse());
+    render(<LeadForm copy={site.leadForm} />);
+
+    await user.type(screen.getByLabelText('Phone number'), '123');
+    await user.click(screen.getByRole('button', { name: 'Request a walkthrough' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please correct the highlighted fields.');
+    expect(screen.getByLabelText('Phone number')).toHaveAccessibleDescription('Please enter a valid Nigerian phone number.');
+    expect(screen.queryByRole('status')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('tell the visitor a newsletter signup will be sent once back online', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(queuedResponse());
+    render(<NewsletterSignup locale="en" copy={site.newsletter} />);
+
+    await user.type(screen.getByLabelText(site.newsletter.emailLabel), 'ada@example.com');
+    await user.click(screen.getByRole('button', { name: site.newsletter.submit }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(site.newsletter.queued);
+  });
+
+  it('do not send a newsletter signup without a valid email', async () => {
+    const user = userEvent.setup();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(queuedResponse());
+    render(<NewsletterSignup locale="en" copy={site.newsletter} />);
+
+    await user.type(screen.getByLabelText(site.newsletter.emailLabel), 'ada@');
+    await user.click(screen.getByRole('button', { name: site.newsletter.submit }));
+
+    expect(screen.getByLabelText(site.newsletter.emailLabel)).toHaveAccessibleDescription('Please enter a valid email address.');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { act, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useScrollSpy } from '@/lib/scroll-spy';
+
+// Lets each test decide which sections are in the spy's band.
+let observer: { callback: IntersectionObserverCallback; options?: IntersectionObserverInit } | undefined;
+
+class ControlledIntersectionObserver {
+  constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+    observer = { callback, options };
+  }
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+const report = (changes: Record<string, boolean>) =>
+  act(() => {
+    observer!.callback(
+      Object.entries(changes).map(
+        ([id, isIntersecting]) => ({ target: document.getElementById(id)!, isIntersecting }) as unknown as IntersectionObserverEntry,
+      ),
+      {} as IntersectionObserver,
+    );
+  });
+
+const ids = ['features', 'howitworks', 'contact'];
+
+const Spy = ({ updateHash = false }: { updateHash?: boolean }) => {
+  const activeId = useScrollSpy(ids, { topOffset: 72, updateHash });
+  return (
+    <>
+      <output data-testid="active">{activeId ?? 'none'}</output>
+      {ids.map((id) => (
+        <section key={id} id={id} />
+      ))}
+    </>
+  );
+};
+
+// The no-op observer from tests/setup.ts, restored after each test.
+const setupIntersectionObserver = globalThis.IntersectionObserver;
+
+describe('useScrollSpy', () => {
+  beforeEach(() => {
+    vi.stubGlobal('IntersectionObserver', ControlledIntersectionObserver);
+    window.history.replaceState(null, '', '/en');
+  });
+
+  afterEach(() => {
+    vi.stubGlobal('IntersectionObserver', setupIntersectionObserver);
+  });
+
+  it('excludes the header from the observed band', () => {
+    render(<Spy />);
+    expect(observer!.options?.rootMargin).toBe('-72px 0px -60% 0px');
+  });
+
+  it('reports the first section in page order inside the band', () => {
+    render(<Spy />);
+    expect(screen.getByTestId('active')).toHaveTextContent('none');
+
+    report({ howitworks: true });
+    expect(screen.getByTestId('active')).toHaveTextContent('howitworks');
+
+    report({ features: true });
+    expect(screen.getByTestId('active')).toHaveTextContent('features');
+
+    report({ features: false, howitworks: false });
+    expect(screen.getByTestId('active')).toHaveTextContent('none');
+  });
+
+  it('mirrors the active section in the URL hash', () => {
+    render(<Spy updateHash />);
+
+    report({ contact: true });
+    expect(window.location.hash).toBe('#contact');
+
+    report({ contact: false });
+    expect(window.location.hash).toBe('');
+    expect(window.location.pathname).toBe('/en');
+  });
+
+  it('leaves hashes for other anchors alone', () => {
+    window.history.replaceState(null, '', '/en#faq');
+    render(<Spy updateHash />);
+
+    report({ features: false });
+    expect(window.location.hash).toBe('#faq');
+  });
+});
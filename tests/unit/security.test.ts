@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import nextConfig from '../../next.config';
+import { proxy } from '@/proxy';
+import { createRateLimiter, getClientIp, MemoryRateLimitStore } from '@/lib/rate-limit';
+import { buildContentSecurityPolicy, findApiRateLimitRule, securityHeaders, serviceWorkerHeaders } from '@/lib/security';
+
+const request = (path: string, init: { method?: string; ip?: string; headers?: Record<string, string> } = {}) =>
+  new NextRequest(new URL(path, 'http://localhost:3000'), {
+    method: init.method ?? 'GET',
+    headers: { 'x-forwarded-for': init.ip ?? '203.0.113.1', ...init.headers },
+  });
+
+const nonceOf = (policy: string | null) => policy?.match(/'nonce-([^']+)'/)?.[1];
+
+describe('content security policy', () => {
+  it('gives each page response a fresh nonce and passes it to the render', async () => {
+    const first = await proxy(request('/en'));
+    const second = await proxy(request('/en/pricing'));
+    const policy = first.headers.get('content-security-policy');
+
+    expect(policy).toContain("script-src 'self' 'nonce-");
+    expect(policy).toContain("'strict-dynamic'");
+    expect(policy).toContain("frame-ancestors 'none'");
+    expect(policy).toContain("object-src 'none'");
+    expect(nonceOf(policy)).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(nonceOf(second.headers.get('content-security-policy'))).not.toBe(nonceOf(policy));
+
+    // NextResponse.next({ request }) forwards overridden request headers this way.
+    expect(first.headers.get('x-middleware-request-x-nonce')).toBe(nonceOf(policy));
+    expect(first.headers.get('x-middleware-request-content-security-policy')).toBe(policy);
+  });
+
+  it('lets framer-motion and next/image set inline styles but not inject scripts', () => {
+    const policy = buildContentSecurityPolicy('abc');
+    expect(policy).toContain("style-src 'self' 'nonce-abc'");
+    expect(policy).toContain("style-src-attr 'unsafe-inline'");
+    expect(policy).toContain("img-src 'self' data: blob:");
+    expect(policy).toContain("worker-src 'self'");
+    expect(policy).not.toContain("'unsafe-eval'");
+    expect(policy).not.toMatch(/script-src[^;]*'unsafe-inline'/);
+  });
+
+  it('is relaxed for hot reloading in development', () => {
+    const policy = buildContentSecurityPolicy('abc', { dev: true });
+    expect(policy).toContain("'unsafe-eval'");
+    expect(policy).toContain("style-src 'self' 'unsafe-inline'");
+    expect(policy).toContain("connect-src 'self' ws:");
+  });
+
+  it('is not added to locale redirects or API responses', async () => {
+    const redirect = await proxy(request('/pricing'));
+    expect(redirect.status).toBe(307);
+    expect(redirect.headers.get('location')).toBe('http://localhost:3000/en/pricing');
+    expect(redirect.headers.get('content-security-policy')).toBeNull();
+
+    const api = await proxy(request('/api/stats', { ip: '203.0.113.2' }));
+    expect(api.headers.get('content-security-policy')).toBeNull();
+  });
+});
+
+describe('security headers', () => {
+  it('are sent with every response', async () => {
+    const rules = await nextConfig.headers!();
+    expect(rules).toEqual([
+      { source: '/:path*', headers: securityHeaders },
+      { source: '/sw.js', headers: serviceWorkerHeaders },
+    ]);
+
+    const headers = Object.fromEntries(securityHeaders.map(({ key, value }) => [key, value]));
+    expect(headers['Strict-Transport-Security']).toMatch(/^max-age=\d{8,}; includeSubDomains; preload$/);
+    expect(headers['X-Content-Type-Options']).toBe('nosniff');
+    expect(headers['X-Frame-Options']).toBe('DENY');
+    expect(headers['Referrer-Policy']).toBe('strict-origin-when-cross-origin');
+    // The join form still needs the visitor's location.
+    expect(headers['Permissions-Policy']).toContain('geolocation=(self)');
+    expect(headers['Permissions-Policy']).toContain('camera=()');
+  });
+
+  it('do not advertise the framework', () => {
+    expect(nextConfig.poweredByHeader).toBe(false);
+  });
+});
+
+describe('API rate limiting', () => {
+  it('limits each route per client IP', async () => {
+    const post = (ip: string) => proxy(request('/api/leads', { method: 'POST', ip }));
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await post('198.51.100.1')).status).toBe(200);
+    }
+    const blocked = await post('198.51.100.1');
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await blocked.json()).toEqual({ error: 'Too many requests. Please try again later.' });
+
+    // Other clients and other routes keep their own allowance.
+    expect((await post('198.51.100.2')).status).toBe(200);
+    expect((await proxy(request('/api/help/feedback', { method: 'POST', ip: '198.51.100.1' }))).status).toBe(200);
+  });
+
+  it('takes the client IP from the trusted proxy, not from what the client sent', async () => {
+    expect(getClientIp(request('/api/leads', { ip: '198.51.100.7, 203.0.113.9' }))).toBe('203.0.113.9');
+    expect(getClientIp(request('/api/leads', { ip: '10.0.0.1, 198.51.100.7, 203.0.113.9' }), 2)).toBe('198.51.100.7');
+    expect(getClientIp(request('/api/leads', { ip: '' }))).toBe('unknown');
+
+    // Rotating a spoofed first entry doesn't get a caller past the limit.
+    const post = (attempt: number) => proxy(request('/api/leads', { method: 'POST', ip: `10.9.9.${attempt}, 192.0.2.44` }));
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await post(attempt)).status).toBe(200);
+    }
+    expect((await post(5)).status).toBe(429);
+  });
+
+  it('picks the rule for the route and method', () => {
+    expect(findApiRateLimitRule('/api/join/verification/', 'POST')).toMatchObject({ name: 'verification', limit: 5 });
+    expect(findApiRateLimitRule('/api/newsletter/confirm', 'GET')).toMatchObject({ name: 'api' });
+    expect(findApiRateLimitRule('/api/newsletter', 'GET')).toMatchObject({ name: 'api' });
+    expect(findApiRateLimitRule('/api/unknown', 'POST')).toMatchObject({ name: 'api' });
+  });
+
+  it('counts in a swappable store and resets each window', async () => {
+    const store = new MemoryRateLimitStore();
+    const limit = createRateLimiter({ name: 'test', limit: 2, windowMs: 1000 }, store);
+
+    expect((await limit('a', 0)).allowed).toBe(true);
+    expect(await limit('a', 100)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 1 });
+    expect((await limit('a', 200)).allowed).toBe(false);
+    expect((await limit('a', 1000)).allowed).toBe(true);
+
+    // Limiters sharing a store don't share counts.
+    const other = createRateLimiter({ name: 'other', limit: 1, windowMs: 1000 }, store);
+    expect((await other('a', 1000)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import WhatsAppWidget from '@/components/WhatsAppWidget';
+import { getLandingContent } from '@/lib/content';
+import {
+  buildChatMessage,
+  formatBusinessHours,
+  formatWhatsAppNumber,
+  isWithinBusinessHours,
+  pickContact,
+  setChatContext,
+  teamForPath,
+  type WhatsAppContact,
+} from '@/lib/whatsapp';
+
+const hours = { days: [1, 2, 3, 4, 5, 6], open: '08:00', close: '18:00' };
+const { site, useCases } = getLandingContent('en');
+const { chat, nav } = site;
+const segments = Object.fromEntries(useCases.map((useCase) => [useCase.slug, useCase.title]));
+
+describe('business hours', () => {
+  it('is judged in West Africa Time', () => {
+    // Saturday 07:30 UTC is 08:30 in Lagos.
+    expect(isWithinBusinessHours(new Date('2025-06-07T07:30:00Z'), hours)).toBe(true);
+    expect(isWithinBusinessHours(new Date('2025-06-07T06:59:00Z'), hours)).toBe(false);
+    // 17:00 UTC is 18:00 WAT, closing time.
+    expect(isWithinBusinessHours(new Date('2025-06-06T17:00:00Z'), hours)).toBe(false);
+    // Sunday.
+    expect(isWithinBusinessHours(new Date('2025-06-08T12:00:00Z'), hours)).toBe(false);
+  });
+
+  it('formats a range of days', () => {
+    expect(formatBusinessHours(hours, 'en-NG')).toBe('Mon–Sat, 08:00–18:00 WAT');
+    expect(formatBusinessHours({ ...hours, days: [1, 3, 5] }, 'en-NG')).toBe('Mon, Wed, Fri, 08:00–18:00 WAT');
+  });
+});
+
+describe('contacts', () => {
+  const contacts: WhatsAppContact[] = [
+    { team: 'sales', number: '2348000000001' },
+    { team: 'sales', number: '2348000000002', locales: ['ha'] },
+    { team: 'careers', number: '2348000000003' },
+  ];
+
+  it('prefers the number for the team and language', () => {
+    expect(pickContact(contacts, 'sales', 'ha').number).toBe('2348000000002');
+    expect(pickContact(contacts, 'sales', 'yo').number).toBe('2348000000001');
+    expect(pickContact(contacts, 'careers', 'ha').number).toBe('2348000000003');
+  });
+
+  it('falls back to sales for teams without a number', () => {
+    expect(pickContact(contacts, 'retailers', 'ha').number).toBe('2348000000002');
+  });
+
+  it('routes pages to teams', () => {
+    expect(teamForPath('/careers/data-analyst')).toBe('careers');
+    expect(teamForPath('/join')).toBe('retailers');
+    expect(teamForPath('/pricing')).toBe('sales');
+  });
+
+  it('formats Nigerian numbers for display', () => {
+    expect(formatWhatsAppNumber('2348129901643')).toBe('+234 812 990 1643');
+  });
+});
+
+describe('buildChatMessage', () => {
+  it('uses the most specific context available', () => {
+    expect(buildChatMessage(chat.messages, { team: 'sales', section: 'Pricing', plan: 'Growth' })).toContain('the Growth plan');
+    expect(buildChatMessage(chat.messages, { team: 'sales', section: 'Features' })).toContain('"Features"');
+    expect(buildChatMessage(chat.messages, { team: 'careers' })).toBe(chat.messages.careers);
+  });
+});
+
+describe('WhatsAppWidget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    window.history.replaceState(null, '', '/');
+  });
+
+  const openWidget = async (now: string) => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(now));
+    render(<WhatsAppWidget locale="en" copy={chat} sections={nav.sections} segments={segments} />);
+    await userEvent.setup().click(screen.getByRole('button', { name: chat.buttonLabel }));
+  };
+
+  it('opens a chat about the section in view during business hours', async () => {
+    window.history.replaceState(null, '', '/en#features');
+    await openWidget('2025-06-04T10:00:00Z');
+
+    const link = screen.getByRole('link', { name: chat.openChat });
+    const text = new URL(link.getAttribute('href')!).searchParams.get('text');
+    expect(text).toContain(nav.sections.find((section) => section.id === 'features')!.label);
+    expect(link).toHaveFocus();
+  });
+
+  it('mentions the plan last pointed at', async () => {
+    render(<WhatsAppWidget locale="en" copy={chat} sections={nav.sections} segments={segments} />);
+    act(() => setChatContext({ plan: 'Growth' }));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-04T10:00:00Z'));
+    await userEvent.setup().click(screen.getByRole('button', { name: chat.buttonLabel }));
+
+    expect(screen.getByRole('link', { name: chat.openChat }).getAttribute('href')).toContain(encodeURIComponent('Growth plan'));
+  });
+
+  it('offers the walkthrough form when the team is offline', async () => {
+    await openWidget('2025-06-08T10:00:00Z');
+
+    expect(screen.getByRole('dialog', { name: chat.title })).toHaveTextContent('Mon–Sat, 08:00–18:00 WAT');
+    expect(screen.getByRole('link', { name: chat.offlineCta })).toHaveAttribute('href', '/en#walkthrough');
+    expect(screen.getByRole('link', { name: chat.offlineChat })).toHaveAttribute('href', expect.stringContaining('https://wa.me/'));
+  });
+});